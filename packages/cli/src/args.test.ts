@@ -0,0 +1,50 @@
+import { getInvalidIntegerError, parseArgs, } from './args';
+
+describe('parseArgs', () => {
+  it('parses inputs with default options', () => {
+    expect(parseArgs(['foo.png', 'images',])).toEqual({
+      inputs: ['foo.png', 'images',],
+      model: undefined,
+      patchSize: undefined,
+      padding: undefined,
+      format: undefined,
+      output: 'upscaled',
+      concurrency: 1,
+      skipExisting: false,
+      progress: true,
+    });
+  });
+
+  it('parses options and their aliases', () => {
+    expect(parseArgs([
+      'foo.png',
+      '-m', '@upscalerjs/esrgan-slim/4x',
+      '--patch-size', '64',
+      '--padding', '0',
+      '-f', 'jpeg',
+      '-o', 'out',
+      '-c', '2',
+      '--skip-existing',
+      '--no-progress',
+    ])).toEqual({
+      inputs: ['foo.png',],
+      model: '@upscalerjs/esrgan-slim/4x',
+      patchSize: 64,
+      padding: 0,
+      format: 'jpeg',
+      output: 'out',
+      concurrency: 2,
+      skipExisting: true,
+      progress: false,
+    });
+  });
+
+  it.each([
+    [['--patch-size', '0',], 'patch size', 0,],
+    [['--patch-size', '1.5',], 'patch size', 1.5,],
+    [['--padding', '-1',], 'padding', -1,],
+    [['--concurrency', '0',], 'concurrency', 0,],
+  ])('throws for invalid integers, like %p', (args, key, value) => {
+    expect(() => parseArgs(['foo.png', ...args,])).toThrow(getInvalidIntegerError(key, value));
+  });
+});
@@ -0,0 +1,101 @@
+import yargs from 'yargs';
+
+export type OutputFormat = 'png' | 'jpeg';
+
+export interface CLIOptions {
+  inputs: string[];
+  /**
+   * A model package or subpath, like `@upscalerjs/esrgan-slim/4x`. Defaults to `@upscalerjs/default-model`.
+   */
+  model?: string;
+  patchSize?: number;
+  padding?: number;
+  /**
+   * Defaults to the format of each input image.
+   */
+  format?: OutputFormat;
+  output: string;
+  concurrency: number;
+  skipExisting: boolean;
+  progress: boolean;
+}
+
+export const getInvalidIntegerError = (key: string, value: number): Error => new Error(
+  `Invalid ${key} provided, expected a positive integer: ${value}`,
+);
+
+const validateInteger = (key: string, value: number | undefined, min = 1): void => {
+  if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+    throw getInvalidIntegerError(key, value);
+  }
+};
+
+export const parseArgs = (argv: string[]): CLIOptions => {
+  const args = yargs(argv)
+    .scriptName('upscaler')
+    .command('$0 <inputs..>', 'Upscale images, given as files, globs or directories', (y) => y.positional('inputs', {
+      type: 'string',
+      array: true,
+      demandOption: true,
+    }))
+    .options({
+      model: {
+        alias: 'm',
+        type: 'string',
+        description: 'A model package or subpath to upscale with, like @upscalerjs/esrgan-slim/4x',
+      },
+      'patch-size': {
+        type: 'number',
+        description: 'The size of patches to split each image into',
+      },
+      padding: {
+        type: 'number',
+        description: 'The padding around each patch',
+      },
+      format: {
+        alias: 'f',
+        choices: ['png', 'jpeg',] as const,
+        description: 'The format to write upscaled images in. Defaults to the format of each input',
+      },
+      output: {
+        alias: 'o',
+        type: 'string',
+        default: 'upscaled',
+        description: 'The directory to write upscaled images to',
+      },
+      concurrency: {
+        alias: 'c',
+        type: 'number',
+        default: 1,
+        description: 'The number of images to upscale at the same time',
+      },
+      'skip-existing': {
+        type: 'boolean',
+        default: false,
+        description: 'Skip images whose upscaled output already exists',
+      },
+      progress: {
+        type: 'boolean',
+        default: true,
+        description: 'Show a progress bar',
+      },
+    })
+    .strict()
+    .parseSync();
+
+  validateInteger('patch size', args.patchSize);
+  validateInteger('padding', args.padding, 0);
+  validateInteger('concurrency', args.concurrency);
+
+  return {
+    inputs: args.inputs,
+    model: args.model,
+    patchSize: args.patchSize,
+    padding: args.padding,
+    format: args.format,
+    output: args.output,
+    concurrency: args.concurrency,
+    skipExisting: args.skipExisting,
+    progress: args.progress,
+  };
+};
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+import { run, } from './index';
+
+run(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+}).catch((err: unknown) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
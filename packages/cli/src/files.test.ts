@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getDuplicateOutputError,
+  getGlobBase,
+  getInputFiles,
+  getNoInputFilesError,
+  getOutputFormat,
+  getOutputPath,
+  getOutputPaths,
+  isImageFile,
+} from './files';
+
+describe('files', () => {
+  let cwd: string;
+
+  const writeFiles = (...files: string[]) => files.forEach(file => {
+    fs.mkdirSync(path.resolve(cwd, path.dirname(file)), { recursive: true, });
+    fs.writeFileSync(path.resolve(cwd, file), '');
+  });
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'upscaler-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true, });
+  });
+
+  it('recognizes image files by their extension', () => {
+    expect(['foo.png', 'foo.jpg', 'foo.JPEG', 'foo.gif', 'foo',].map(isImageFile)).toEqual([true, true, true, false, false,]);
+  });
+
+  describe('getGlobBase', () => {
+    it.each([
+      ['images/**/*.png', 'images',],
+      ['images/a/*.png', 'images/a',],
+      ['*.png', '.',],
+      ['images/foo.png', 'images',],
+    ])('gets the base of %p', (pattern, base) => {
+      expect(getGlobBase(pattern, cwd)).toEqual(path.resolve(cwd, base));
+    });
+  });
+
+  describe('getInputFiles', () => {
+    it('finds files, relative to their own directory', async () => {
+      writeFiles('a/foo.png');
+      expect(await getInputFiles(['a/foo.png',], cwd)).toEqual([
+        { path: path.resolve(cwd, 'a/foo.png'), relativePath: 'foo.png', },
+      ]);
+    });
+
+    it('finds images in directories recursively, relative to the directory', async () => {
+      writeFiles('images/foo.png', 'images/a/img.jpg', 'images/b/img.png', 'images/b/notes.txt');
+      expect(await getInputFiles(['images',], cwd)).toEqual([
+        { path: path.resolve(cwd, 'images/a/img.jpg'), relativePath: path.join('a', 'img.jpg'), },
+        { path: path.resolve(cwd, 'images/b/img.png'), relativePath: path.join('b', 'img.png'), },
+        { path: path.resolve(cwd, 'images/foo.png'), relativePath: 'foo.png', },
+      ]);
+    });
+
+    it('finds images matching a glob, relative to the base of the glob', async () => {
+      writeFiles('images/a/img.png', 'images/b/img.png', 'images/b/img.txt', 'other/img.png');
+      expect(await getInputFiles(['images/**/*',], cwd)).toEqual([
+        { path: path.resolve(cwd, 'images/a/img.png'), relativePath: path.join('a', 'img.png'), },
+        { path: path.resolve(cwd, 'images/b/img.png'), relativePath: path.join('b', 'img.png'), },
+      ]);
+    });
+
+    it('keeps the first of files found more than once', async () => {
+      writeFiles('images/a/foo.png', 'images/bar.png');
+      expect(await getInputFiles(['images', 'images/a/foo.png', '**/*.png',], cwd)).toEqual([
+        { path: path.resolve(cwd, 'images/a/foo.png'), relativePath: path.join('a', 'foo.png'), },
+        { path: path.resolve(cwd, 'images/bar.png'), relativePath: 'bar.png', },
+      ]);
+    });
+
+    it('throws if no images are found', async () => {
+      writeFiles('images/notes.txt');
+      await expect(getInputFiles(['images', 'missing/*.png',], cwd)).rejects.toEqual(getNoInputFilesError(['images', 'missing/*.png',]));
+    });
+  });
+
+  describe('getOutputFormat', () => {
+    it('uses the format given', () => {
+      expect(getOutputFormat('foo.png', 'jpeg')).toEqual('jpeg');
+    });
+
+    it('defaults to the format of the input', () => {
+      expect(['foo.png', 'foo.jpg', 'foo.JPEG',].map(input => getOutputFormat(input))).toEqual(['png', 'jpeg', 'jpeg',]);
+    });
+  });
+
+  describe('getOutputPath', () => {
+    it('writes to the relative path of the input within the output directory', () => {
+      expect(getOutputPath({ path: '/images/a/foo.png', relativePath: 'a/foo.png', }, '/out', 'png')).toEqual(path.resolve('/out/a/foo.png'));
+    });
+
+    it('uses the extension of the output format', () => {
+      expect(getOutputPath({ path: '/images/foo.png', relativePath: 'foo.png', }, '/out', 'jpeg')).toEqual(path.resolve('/out/foo.jpg'));
+      expect(getOutputPath({ path: '/images/foo.jpeg', relativePath: 'foo.jpeg', }, '/out', 'png')).toEqual(path.resolve('/out/foo.png'));
+    });
+  });
+
+  describe('getOutputPaths', () => {
+    it('keeps files with the same name in different directories apart', () => {
+      expect(getOutputPaths([
+        { path: '/images/a/img.png', relativePath: 'a/img.png', },
+        { path: '/images/b/img.png', relativePath: 'b/img.png', },
+      ], '/out')).toEqual(new Map([
+        ['/images/a/img.png', path.resolve('/out/a/img.png'),],
+        ['/images/b/img.png', path.resolve('/out/b/img.png'),],
+      ]));
+    });
+
+    it('throws if two inputs would be written to the same file', () => {
+      expect(() => getOutputPaths([
+        { path: '/a/img.png', relativePath: 'img.png', },
+        { path: '/b/img.png', relativePath: 'img.png', },
+      ], '/out')).toThrow(getDuplicateOutputError(path.resolve('/out/img.png'), ['/a/img.png', '/b/img.png',]));
+      expect(() => getOutputPaths([
+        { path: '/a/img.png', relativePath: 'img.png', },
+        { path: '/a/img.jpg', relativePath: 'img.jpg', },
+      ], '/out', 'png')).toThrow(getDuplicateOutputError(path.resolve('/out/img.png'), ['/a/img.png', '/a/img.jpg',]));
+    });
+  });
+});
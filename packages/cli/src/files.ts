@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify, } from 'util';
+import _glob from 'glob';
+import type { OutputFormat, } from './args';
+
+const glob = promisify(_glob);
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg',];
+
+export const getNoInputFilesError = (inputs: string[]): Error => new Error(
+  `No images were found matching: ${inputs.join(', ')}`,
+);
+
+export const getDuplicateOutputError = (outputPath: string, inputs: string[]): Error => new Error(
+  `More than one image would be written to ${outputPath}: ${inputs.join(', ')}`,
+);
+
+export const isImageFile = (file: string): boolean => IMAGE_EXTENSIONS.includes(path.extname(file).toLowerCase());
+
+const isDirectory = async (input: string): Promise<boolean> => {
+  try {
+    return (await fs.promises.stat(input)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+export interface InputFile {
+  path: string;
+  /**
+   * The path of the file relative to the directory, or the base of the glob, it was found in. Upscaled images
+   * are written to the same relative path within the output directory.
+   */
+  relativePath: string;
+}
+
+// directories are searched recursively for images
+const getFilesInDirectory = async (directory: string): Promise<string[]> => {
+  const entries = await fs.promises.readdir(directory, { withFileTypes: true, });
+  const files = await Promise.all(entries.map(entry => {
+    const entryPath = path.resolve(directory, entry.name);
+    if (entry.isDirectory()) {
+      return getFilesInDirectory(entryPath);
+    }
+    return isImageFile(entryPath) ? [entryPath,] : [];
+  }));
+  return files.flat();
+};
+
+// the directory a glob matches within, made up of the segments before the first one with a pattern in it
+export const getGlobBase = (pattern: string, cwd = process.cwd()): string => {
+  const segments = pattern.split('/');
+  const firstMagicSegment = segments.findIndex(segment => _glob.hasMagic(segment));
+  return path.resolve(cwd, segments.slice(0, firstMagicSegment === -1 ? segments.length - 1 : firstMagicSegment).join('/') || '.');
+};
+
+const getInputFile = (file: string, base: string): InputFile => ({
+  path: file,
+  relativePath: path.relative(base, file),
+});
+
+// resolves files, globs and directories to a list of image files sorted by path, without duplicates
+export const getInputFiles = async (inputs: string[], cwd = process.cwd()): Promise<InputFile[]> => {
+  const files = await Promise.all(inputs.map(async (input): Promise<InputFile[]> => {
+    const inputPath = path.resolve(cwd, input);
+    if (await isDirectory(inputPath)) {
+      return (await getFilesInDirectory(inputPath)).map(file => getInputFile(file, inputPath));
+    }
+    if (fs.existsSync(inputPath)) {
+      return [getInputFile(inputPath, path.dirname(inputPath)),];
+    }
+    const base = getGlobBase(input, cwd);
+    const matches = await glob(input, { cwd, nodir: true, absolute: true, });
+    return matches.filter(isImageFile).map(match => getInputFile(path.resolve(match), base));
+  }));
+  // a file found by more than one input keeps the relative path of the first
+  const uniqueFiles = files.flat().reduce((unique, file) => unique.has(file.path) ? unique : unique.set(file.path, file), new Map<string, InputFile>());
+  if (uniqueFiles.size === 0) {
+    throw getNoInputFilesError(inputs);
+  }
+  return Array.from(uniqueFiles.values()).sort((a, b) => a.path < b.path ? -1 : a.path > b.path ? 1 : 0);
+};
+
+export const getOutputFormat = (input: string, format?: OutputFormat): OutputFormat => {
+  if (format) {
+    return format;
+  }
+  return ['.jpg', '.jpeg',].includes(path.extname(input).toLowerCase()) ? 'jpeg' : 'png';
+};
+
+export const getOutputPath = ({ relativePath, }: InputFile, outputDirectory: string, format: OutputFormat): string => path.resolve(
+  outputDirectory,
+  path.dirname(relativePath),
+  `${path.parse(relativePath).name}.${format === 'jpeg' ? 'jpg' : format}`,
+);
+
+// pairs the path of each input with its output path, making sure that no two inputs are written to the same file
+export const getOutputPaths = (inputs: InputFile[], outputDirectory: string, format?: OutputFormat): Map<string, string> => {
+  const outputPaths = new Map<string, string>();
+  const inputsByOutputPath = new Map<string, string>();
+  inputs.forEach(input => {
+    const outputPath = getOutputPath(input, outputDirectory, getOutputFormat(input.path, format));
+    const existingInput = inputsByOutputPath.get(outputPath);
+    if (existingInput !== undefined) {
+      throw getDuplicateOutputError(outputPath, [existingInput, input.path,]);
+    }
+    inputsByOutputPath.set(outputPath, input.path);
+    outputPaths.set(input.path, outputPath);
+  });
+  return outputPaths;
+};
@@ -0,0 +1,41 @@
+import { parseArgs, } from './args';
+import { getInputFiles, } from './files';
+import { ProgressBar, } from './progress';
+import { FileResult, upscaleFiles, } from './upscaleFiles';
+
+export { parseArgs, } from './args';
+export type { CLIOptions, OutputFormat, } from './args';
+export { getInputFiles, getOutputPath, getOutputPaths, } from './files';
+export type { InputFile, } from './files';
+export { loadModel, upscaleFiles, } from './upscaleFiles';
+export type { FileResult, FileStatus, UpscaleFilesCallbacks, } from './upscaleFiles';
+
+const getSummary = (results: FileResult[]): string => {
+  const count = (status: FileResult['status']) => results.filter(result => result.status === status).length;
+  return `Upscaled ${count('upscaled')}, skipped ${count('skipped')}, failed ${count('failed')}.`;
+};
+
+/**
+ * Runs the CLI with the given arguments, resolving to an exit code.
+ */
+export const run = async (argv: string[]): Promise<number> => {
+  const { inputs, progress, ...options } = parseArgs(argv);
+  const files = await getInputFiles(inputs);
+  const progressBar = new ProgressBar(files.length, { enabled: progress, });
+  progressBar.update(0);
+  const results = await upscaleFiles(files, options, {
+    onProgress: progressBar.update,
+    onFile: ({ input, output, status, error, }) => {
+      if (status === 'failed') {
+        progressBar.log(`Failed to upscale ${input}: ${error?.message || ''}`);
+      } else if (status === 'skipped') {
+        progressBar.log(`Skipped ${input}, ${output} already exists`);
+      } else {
+        progressBar.log(`Upscaled ${input} to ${output}`);
+      }
+    },
+  });
+  progressBar.done();
+  console.log(getSummary(results));
+  return results.some(({ status, }) => status === 'failed') ? 1 : 0;
+};
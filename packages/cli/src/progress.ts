@@ -0,0 +1,80 @@
+const BAR_WIDTH = 30;
+
+// renders a single line progress bar. if the stream is not a terminal, only messages are written
+export class ProgressBar {
+  /**
+   * @hidden
+   */
+  _total: number;
+
+  /**
+   * @hidden
+   */
+  _stream: NodeJS.WriteStream;
+
+  /**
+   * @hidden
+   */
+  _completed = 0;
+
+  /**
+   * @hidden
+   */
+  _enabled: boolean;
+
+  constructor(total: number, { stream = process.stderr, enabled = true, }: { stream?: NodeJS.WriteStream; enabled?: boolean; } = {}) {
+    this._total = total;
+    this._stream = stream;
+    this._enabled = enabled && stream.isTTY === true;
+  }
+
+  /**
+   * Sets the number of completed items, which may be fractional.
+   */
+  update = (completed: number): void => {
+    this._completed = Math.min(completed, this._total);
+    this._render();
+  };
+
+  /**
+   * Writes a message above the progress bar.
+   */
+  log = (message: string): void => {
+    this._clear();
+    this._stream.write(`${message}\n`);
+    this._render();
+  };
+
+  done = (): void => {
+    if (this._enabled) {
+      this._render();
+      this._stream.write('\n');
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  _clear = (): void => {
+    if (this._enabled) {
+      this._stream.clearLine(0);
+      this._stream.cursorTo(0);
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  _render = (): void => {
+    if (this._enabled) {
+      this._clear();
+      this._stream.write(getProgressBar(this._completed, this._total));
+    }
+  };
+}
+
+export const getProgressBar = (completed: number, total: number, width = BAR_WIDTH): string => {
+  const ratio = total === 0 ? 1 : completed / total;
+  const filled = Math.round(ratio * width);
+  return `[${'#'.repeat(filled)}${'-'.repeat(width - filled)}] ${Math.floor(completed)}/${total} ${Math.floor(ratio * 100)}%`;
+};
@@ -0,0 +1,170 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getInvalidModelError, loadModel, upscaleFiles, } from './upscaleFiles';
+
+jest.mock('upscaler/node', () => jest.fn(), { virtual: true, });
+
+const Upscaler: jest.Mock = jest.requireMock('upscaler/node');
+
+describe('upscaleFiles', () => {
+  let cwd: string;
+  let output: string;
+  let upscaler: {
+    upscale: jest.Mock;
+    dispose: jest.Mock;
+  };
+
+  const writeFiles = (...files: string[]) => files.map(file => {
+    const filePath = path.resolve(cwd, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, });
+    fs.writeFileSync(filePath, file);
+    return { path: filePath, relativePath: file, };
+  });
+
+  const options = {
+    model: undefined,
+    patchSize: undefined,
+    padding: undefined,
+    format: undefined,
+    concurrency: 2,
+    skipExisting: false,
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-cli-'));
+    output = path.resolve(cwd, 'upscaled');
+    upscaler = {
+      upscale: jest.fn((input: string) => Promise.resolve(Buffer.from(`upscaled ${path.basename(input)}`))),
+      dispose: jest.fn(() => Promise.resolve()),
+    };
+    Upscaler.mockImplementation(() => upscaler);
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true, });
+    Upscaler.mockReset();
+  });
+
+  it('writes each upscaled image to its output path', async () => {
+    const files = writeFiles('a/img.png', 'b/img.jpg');
+    const onFile = jest.fn();
+    const results = await upscaleFiles(files, { ...options, output, }, { onFile, });
+    expect(results).toEqual([
+      { input: files[0].path, output: path.resolve(output, 'a/img.png'), status: 'upscaled', },
+      { input: files[1].path, output: path.resolve(output, 'b/img.jpg'), status: 'upscaled', },
+    ]);
+    expect(fs.readFileSync(path.resolve(output, 'a/img.png'), 'utf8')).toEqual('upscaled img.png');
+    expect(fs.readFileSync(path.resolve(output, 'b/img.jpg'), 'utf8')).toEqual('upscaled img.jpg');
+    expect(upscaler.upscale).toHaveBeenCalledWith(files[0].path, expect.objectContaining({ output: 'buffer', imageFormat: 'png', }));
+    expect(upscaler.upscale).toHaveBeenCalledWith(files[1].path, expect.objectContaining({ output: 'buffer', imageFormat: 'jpeg', }));
+    expect(onFile.mock.calls.map(([result,]) => result)).toEqual(expect.arrayContaining(results));
+    expect(Upscaler).toHaveBeenCalledWith({ model: undefined, concurrency: 2, });
+    expect(upscaler.dispose).toHaveBeenCalled();
+  });
+
+  it('writes every image in the given format', async () => {
+    const files = writeFiles('img.png');
+    const [result,] = await upscaleFiles(files, { ...options, output, format: 'jpeg', });
+    expect(result.output).toEqual(path.resolve(output, 'img.jpg'));
+    expect(upscaler.upscale).toHaveBeenCalledWith(files[0].path, expect.objectContaining({ imageFormat: 'jpeg', }));
+  });
+
+  it('skips images whose output already exists, if asked', async () => {
+    const files = writeFiles('foo.png', 'bar.png');
+    fs.mkdirSync(output);
+    fs.writeFileSync(path.resolve(output, 'foo.png'), 'existing');
+    const results = await upscaleFiles(files, { ...options, output, skipExisting: true, });
+    expect(results.map(({ status, }) => status)).toEqual(['skipped', 'upscaled',]);
+    expect(upscaler.upscale).toHaveBeenCalledTimes(1);
+    expect(fs.readFileSync(path.resolve(output, 'foo.png'), 'utf8')).toEqual('existing');
+  });
+
+  it('overwrites images whose output already exists by default', async () => {
+    const files = writeFiles('foo.png');
+    fs.mkdirSync(output);
+    fs.writeFileSync(path.resolve(output, 'foo.png'), 'existing');
+    const [result,] = await upscaleFiles(files, { ...options, output, });
+    expect(result.status).toEqual('upscaled');
+    expect(fs.readFileSync(path.resolve(output, 'foo.png'), 'utf8')).toEqual('upscaled foo.png');
+  });
+
+  it('continues upscaling after an image fails', async () => {
+    const files = writeFiles('foo.png', 'bar.png');
+    upscaler.upscale.mockImplementationOnce(() => Promise.reject(new Error('foo')));
+    const onFile = jest.fn();
+    const results = await upscaleFiles(files, { ...options, output, }, { onFile, });
+    expect(results).toEqual([
+      { input: files[0].path, output: path.resolve(output, 'foo.png'), status: 'failed', error: new Error('foo'), },
+      { input: files[1].path, output: path.resolve(output, 'bar.png'), status: 'upscaled', },
+    ]);
+    expect(fs.existsSync(path.resolve(output, 'foo.png'))).toEqual(false);
+    expect(fs.existsSync(path.resolve(output, 'bar.png'))).toEqual(true);
+    expect(onFile).toHaveBeenCalledTimes(2);
+    expect(upscaler.dispose).toHaveBeenCalled();
+  });
+
+  it('wraps errors that are not errors', async () => {
+    const files = writeFiles('foo.png');
+    upscaler.upscale.mockImplementationOnce(() => Promise.reject('foo'));
+    const [result,] = await upscaleFiles(files, { ...options, output, });
+    expect(result.error).toEqual(new Error('foo'));
+  });
+
+  it('reports progress within each image if a patch size is given', async () => {
+    const files = writeFiles('foo.png', 'bar.png');
+    upscaler.upscale.mockImplementation(async (input: string, { progress, }: { progress: (amount: number) => void; }) => {
+      progress(0.5);
+      return Buffer.from(input);
+    });
+    const onProgress = jest.fn();
+    await upscaleFiles(files, { ...options, output, patchSize: 64, padding: 2, }, { onProgress, });
+    expect(upscaler.upscale).toHaveBeenCalledWith(files[0].path, expect.objectContaining({ patchSize: 64, padding: 2, }));
+    expect(onProgress.mock.calls.map(([completed,]) => completed)).toEqual([0.5, 1, 1.5, 2,]);
+  });
+
+  it('reports progress as each image finishes if no patch size is given', async () => {
+    const files = writeFiles('foo.png', 'bar.png');
+    const onProgress = jest.fn();
+    await upscaleFiles(files, { ...options, output, }, { onProgress, });
+    expect(upscaler.upscale).toHaveBeenCalledWith(files[0].path, expect.objectContaining({ progress: undefined, }));
+    expect(onProgress.mock.calls.map(([completed,]) => completed)).toEqual([1, 2,]);
+  });
+
+  it('throws before creating an upscaler if two images would be written to the same file', async () => {
+    const files = writeFiles('a/img.png', 'b/img.png').map(file => ({ ...file, relativePath: 'img.png', }));
+    await expect(upscaleFiles(files, { ...options, output, })).rejects.toThrow('More than one image would be written');
+    expect(Upscaler).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadModel', () => {
+  let cwd: string;
+
+  const writePackage = (name: string, source: string) => {
+    const packagePath = path.resolve(cwd, 'node_modules', name);
+    fs.mkdirSync(packagePath, { recursive: true, });
+    fs.writeFileSync(path.resolve(packagePath, 'package.json'), JSON.stringify({ name, main: 'index.js', }));
+    fs.writeFileSync(path.resolve(packagePath, 'index.js'), source);
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-cli-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true, });
+  });
+
+  it('loads a model definition, or a default export of one, from the working directory', () => {
+    writePackage('foo', 'module.exports = { scale: 2, path: "foo", };');
+    writePackage('bar', 'exports.default = { scale: 4, path: "bar", };');
+    expect(loadModel('foo', cwd)).toEqual({ scale: 2, path: 'foo', });
+    expect(loadModel('bar', cwd)).toEqual({ scale: 4, path: 'bar', });
+  });
+
+  it('throws if the module does not export a model definition', () => {
+    writePackage('baz', 'module.exports = "baz";');
+    expect(() => loadModel('baz', cwd)).toThrow(getInvalidModelError('baz'));
+  });
+});
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import type _Upscaler from 'upscaler';
+import type { UpscalerOptions, } from 'upscaler';
+import type { CLIOptions, } from './args';
+import { getOutputFormat, getOutputPaths, InputFile, } from './files';
+
+// the Node entry point is CommonJS, and typed by the package's main entry point
+const Upscaler: typeof _Upscaler = require('upscaler/node'); // eslint-disable-line
+
+type ModelDefinitionObjectOrFn = NonNullable<UpscalerOptions['model']>;
+
+export type FileStatus = 'upscaled' | 'skipped' | 'failed';
+
+export interface FileResult {
+  input: string;
+  output: string;
+  status: FileStatus;
+  error?: Error;
+}
+
+export interface UpscaleFilesCallbacks {
+  /**
+   * Called with the number of files completed so far, which is fractional if patch sizes are used.
+   */
+  onProgress?: (completed: number) => void;
+  onFile?: (result: FileResult) => void;
+}
+
+export const getInvalidModelError = (model: string): Error => new Error(
+  `The module "${model}" does not export a model definition.`,
+);
+
+const hasDefaultExport = (module: unknown): module is { default: unknown; } => module !== null && typeof module === 'object' && 'default' in module;
+
+// model packages are resolved from the working directory, where they are installed alongside the CLI
+export const loadModel = (model: string, cwd = process.cwd()): ModelDefinitionObjectOrFn => {
+  const modelModule: unknown = require(require.resolve(model, { paths: [cwd,], })); // eslint-disable-line
+  const modelDefinition = hasDefaultExport(modelModule) ? modelModule.default : modelModule;
+  if (typeof modelDefinition !== 'function' && (modelDefinition === null || typeof modelDefinition !== 'object')) {
+    throw getInvalidModelError(model);
+  }
+  return modelDefinition as ModelDefinitionObjectOrFn;
+};
+
+// upscales each file, writing it to the output directory. a file that fails does not stop the others
+export const upscaleFiles = async (
+  files: InputFile[],
+  { model, patchSize, padding, format, output, concurrency, skipExisting, }: Omit<CLIOptions, 'inputs' | 'progress'>,
+  { onProgress, onFile, }: UpscaleFilesCallbacks = {},
+): Promise<FileResult[]> => {
+  const outputPaths = getOutputPaths(files, output, format);
+  await fs.promises.mkdir(output, { recursive: true, });
+  const upscaler = new Upscaler({
+    model: model === undefined ? undefined : loadModel(model),
+    concurrency,
+  });
+
+  const progress = files.map(() => 0);
+  const report = (index: number, amount: number) => {
+    progress[index] = amount;
+    onProgress?.(progress.reduce((sum, p) => sum + p, 0));
+  };
+
+  const upscaleFile = async ({ path: input, }: InputFile, index: number): Promise<FileResult> => {
+    const outputPath = outputPaths.get(input) || '';
+    if (skipExisting && fs.existsSync(outputPath)) {
+      return { input, output: outputPath, status: 'skipped', };
+    }
+    try {
+      const upscaledImage = await upscaler.upscale(input, {
+        output: 'buffer',
+        imageFormat: getOutputFormat(input, format),
+        patchSize,
+        padding,
+        // without a patch size, an image's progress is only known once it finishes
+        progress: patchSize === undefined ? undefined : (amount: number) => report(index, amount),
+      });
+      await fs.promises.mkdir(path.dirname(outputPath), { recursive: true, });
+      await fs.promises.writeFile(outputPath, upscaledImage);
+      return { input, output: outputPath, status: 'upscaled', };
+    } catch (err) {
+      return { input, output: outputPath, status: 'failed', error: err instanceof Error ? err : new Error(String(err)), };
+    }
+  };
+
+  try {
+    return await Promise.all(files.map(async (file, index) => {
+      const result = await upscaleFile(file, index);
+      report(index, 1);
+      onFile?.(result);
+      return result;
+    }));
+  } finally {
+    await upscaler.dispose();
+  }
+};
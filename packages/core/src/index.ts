@@ -16,9 +16,30 @@ type CustomLayer = Parameters<typeof serialization.registerClass>[0];
 type MetaValue = string | number | Meta | null | undefined | boolean;
 export type Meta = { [key: string]: MetaValue };
 
+export type ModelType = 'layers' | 'graph';
+
 export type PreProcess = ProcessFn<Tensor4D>;
 export type PostProcess = ProcessFn<Tensor4D>;
 
+export interface ModelInput {
+  /**
+   * The name used to provide a value for the input when upscaling.
+   */
+  name: string;
+  /**
+   * Whether the input is a map with the same height and width as the image, like a per-pixel noise level. Spatial inputs are tiled alongside the image. Defaults to false.
+   */
+  spatial?: boolean;
+  /**
+   * The number of channels of a spatial input. Defaults to 1.
+   */
+  channels?: number;
+  /**
+   * The value to use when none is provided.
+   */
+  defaultValue?: number;
+}
+
 export interface ModelDefinition {
   /**
    * Path to a model.json file.
@@ -29,11 +50,19 @@ export interface ModelDefinition {
    */
   scale: number;
   /**
-   * @hidden
-   * 
-   * Future option for specifying the number of channels; will enable grayscale and alpha transparency models. Current models only support 3 channels.
+   * The type of model at `path`, either a layers model or a graph model (for instance, one converted from a SavedModel). Defaults to `layers`.
+   */
+  modelType?: ModelType;
+  /**
+   * The number of channels the model expects, either 1 (grayscale) or 3 (RGB). Defaults to 3.
+   *
+   * Images with a differing number of channels are converted before inference and converted back afterwards. Alpha channels are always upscaled separately.
+   */
+  channels?: 1 | 3;
+  /**
+   * Additional inputs the model accepts after the image, in the order the model expects them, such as a noise level or a denoise strength.
    */
-  channels?: 3;
+  inputs?: ModelInput[];
   /**
    * @hidden
    * 
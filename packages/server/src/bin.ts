@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+import yargs from 'yargs';
+import { createServer, } from './server';
+
+const args = yargs(process.argv.slice(2))
+  .scriptName('upscaler-server')
+  .options({
+    port: {
+      alias: 'p',
+      type: 'number',
+      default: 3000,
+      description: 'The port to listen on',
+    },
+    host: {
+      type: 'string',
+      default: 'localhost',
+      description: 'The host to listen on',
+    },
+    model: {
+      alias: 'm',
+      type: 'string',
+      description: 'The model used when a request does not name one, like esrgan-slim/4x',
+    },
+    'max-body-size': {
+      type: 'number',
+      default: 10 * 1024 * 1024,
+      description: 'The largest request body accepted, in bytes',
+    },
+    concurrency: {
+      alias: 'c',
+      type: 'number',
+      default: 1,
+      description: 'The number of images each model upscales at the same time',
+    },
+  })
+  .strict()
+  .parseSync();
+
+const server = createServer({
+  defaultModel: args.model,
+  maxBodySize: args.maxBodySize,
+  concurrency: args.concurrency,
+});
+
+server.listen(args.port, args.host, () => {
+  console.log(`Listening on http://${args.host}:${args.port}`);
+});
+
+const close = () => {
+  server.close();
+};
+process.on('SIGINT', close);
+process.on('SIGTERM', close);
@@ -0,0 +1,71 @@
+import type { IncomingMessage, } from 'http';
+import busboy from 'busboy';
+import * as tf from '@tensorflow/tfjs-node';
+import { getInvalidImageError, getMissingImageError, getPayloadTooLargeError, } from './errors';
+
+const isMultipart = (req: IncomingMessage): boolean => (req.headers['content-type'] || '').startsWith('multipart/form-data');
+
+// rejects up front if the client declares a body larger than the limit
+const checkContentLength = (req: IncomingMessage, maxBodySize: number): void => {
+  const contentLength = Number(req.headers['content-length']);
+  if (!Number.isNaN(contentLength) && contentLength > maxBodySize) {
+    throw getPayloadTooLargeError(maxBodySize);
+  }
+};
+
+const readRawBody = (req: IncomingMessage, maxBodySize: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBodySize) {
+      req.off('data', onData);
+      reject(getPayloadTooLargeError(maxBodySize));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// reads the first file in a multipart form, ignoring any other fields
+const readMultipartBody = (req: IncomingMessage, maxBodySize: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const form = busboy({ headers: req.headers, limits: { files: 1, fileSize: maxBodySize, }, });
+  let image: Buffer | undefined;
+  form.on('file', (_name, file) => {
+    const chunks: Buffer[] = [];
+    file.on('data', (chunk: Buffer) => chunks.push(chunk));
+    file.on('limit', () => reject(getPayloadTooLargeError(maxBodySize)));
+    file.on('end', () => {
+      image = Buffer.concat(chunks);
+    });
+  });
+  form.on('close', () => resolve(image || Buffer.alloc(0)));
+  form.on('error', reject);
+  req.pipe(form);
+});
+
+/**
+ * Reads an image from the request, sent either as the raw body or as a file in a multipart form.
+ */
+export const readImage = async (req: IncomingMessage, maxBodySize: number): Promise<Buffer> => {
+  checkContentLength(req, maxBodySize);
+  const image = isMultipart(req) ? await readMultipartBody(req, maxBodySize) : await readRawBody(req, maxBodySize);
+  if (image.length === 0) {
+    throw getMissingImageError();
+  }
+  return image;
+};
+
+/**
+ * Decodes an image read from a request into a tensor, which the caller is responsible for disposing of.
+ */
+export const decodeImage = (image: Buffer): tf.Tensor3D | tf.Tensor4D => {
+  try {
+    return tf.node.decodeImage(image);
+  } catch {
+    throw getInvalidImageError();
+  }
+};
@@ -0,0 +1,49 @@
+// an error that is sent to the client with the given status code
+export class HTTPError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HTTPError';
+    this.status = status;
+  }
+}
+
+export const getNotFoundError = (pathname: string): HTTPError => new HTTPError(404, `No route found for ${pathname}`);
+
+export const getMethodNotAllowedError = (method = ''): HTTPError => new HTTPError(405, `Method ${method} is not allowed`);
+
+export const getPayloadTooLargeError = (maxBodySize: number): HTTPError => new HTTPError(
+  413,
+  `Request body exceeds the maximum size of ${maxBodySize} bytes`,
+);
+
+export const getMissingImageError = (): HTTPError => new HTTPError(
+  400,
+  'No image was provided. Send an image as the request body, or as a file in a multipart form.',
+);
+
+export const getInvalidImageError = (): HTTPError => new HTTPError(
+  400,
+  'The image could not be decoded. Send a PNG, JPEG, GIF or BMP image.',
+);
+
+export const getInvalidQueryParamError = (key: string, value: string, expected: string): HTTPError => new HTTPError(
+  400,
+  `Invalid ${key} provided, expected ${expected}: ${value}`,
+);
+
+export const getInvalidModelNameError = (name: string): HTTPError => new HTTPError(
+  400,
+  `Invalid model name "${name}", expected a package name like "esrgan-slim" or "esrgan-slim/4x"`,
+);
+
+export const getModelNotInstalledError = (packageName: string): HTTPError => new HTTPError(
+  400,
+  `The model "${packageName}" is not installed`,
+);
+
+export const getInvalidModelError = (packageName: string): HTTPError => new HTTPError(
+  400,
+  `The module "${packageName}" does not export a model definition`,
+);
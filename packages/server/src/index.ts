@@ -0,0 +1,8 @@
+export { createServer, } from './server';
+export type { ServerOptions, } from './server';
+export { Models, getModelPackageName, loadModel, } from './models';
+export type { ModelsOptions, } from './models';
+export { parseUpscaleQuery, } from './query';
+export type { OutputFormat, UpscaleQuery, } from './query';
+export { decodeImage, readImage, } from './body';
+export { HTTPError, } from './errors';
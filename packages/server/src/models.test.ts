@@ -0,0 +1,136 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getInvalidModelError,
+  getInvalidModelNameError,
+  getModelNotInstalledError,
+} from './errors';
+import { getModelPackageName, loadModel, Models, } from './models';
+
+jest.mock('upscaler/node', () => jest.fn(), { virtual: true, });
+
+const Upscaler: jest.Mock = jest.requireMock('upscaler/node');
+
+describe('models', () => {
+  let cwd: string;
+
+  const writePackage = (name: string, source: string) => {
+    const packagePath = path.resolve(cwd, 'node_modules', '@upscalerjs', name);
+    fs.mkdirSync(packagePath, { recursive: true, });
+    fs.writeFileSync(path.resolve(packagePath, 'package.json'), JSON.stringify({ name: `@upscalerjs/${name}`, main: 'index.js', }));
+    fs.writeFileSync(path.resolve(packagePath, 'index.js'), source);
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-server-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true, });
+    Upscaler.mockReset();
+  });
+
+  describe('getModelPackageName', () => {
+    it('scopes a model name', () => {
+      expect(getModelPackageName('esrgan-slim')).toEqual('@upscalerjs/esrgan-slim');
+      expect(getModelPackageName('esrgan-slim/4x')).toEqual('@upscalerjs/esrgan-slim/4x');
+    });
+
+    it.each([
+      '../foo',
+      '@upscalerjs/esrgan-slim',
+      'esrgan-slim/4x/foo',
+      'Esrgan',
+      '',
+    ])('throws for an invalid name of %p', (name) => {
+      expect(() => getModelPackageName(name)).toThrow(getInvalidModelNameError(name));
+    });
+  });
+
+  describe('loadModel', () => {
+    it('loads a model definition from the working directory', () => {
+      writePackage('foo', 'module.exports = { scale: 2, path: "foo", };');
+      expect(loadModel('foo', cwd)).toEqual({ scale: 2, path: 'foo', });
+    });
+
+    it('loads a default export', () => {
+      writePackage('bar', 'exports.default = { scale: 4, path: "bar", };');
+      expect(loadModel('bar', cwd)).toEqual({ scale: 4, path: 'bar', });
+    });
+
+    it('throws if the model is not installed', () => {
+      expect(() => loadModel('missing', cwd)).toThrow(getModelNotInstalledError('@upscalerjs/missing'));
+    });
+
+    it('throws if the module does not export a model definition', () => {
+      writePackage('baz', 'module.exports = "baz";');
+      expect(() => loadModel('baz', cwd)).toThrow(getInvalidModelError('@upscalerjs/baz'));
+    });
+  });
+
+  describe('Models', () => {
+    const getUpscaler = (getModel: () => Promise<unknown> = () => Promise.resolve({})) => ({
+      getModel: jest.fn(getModel),
+      dispose: jest.fn(() => Promise.resolve()),
+    });
+
+    it('creates one upscaler per model', async () => {
+      writePackage('foo', 'module.exports = { scale: 2, path: "foo", };');
+      const upscalers = [getUpscaler(), getUpscaler(),];
+      Upscaler.mockImplementationOnce(() => upscalers[0]).mockImplementationOnce(() => upscalers[1]);
+      const models = new Models({ cwd, concurrency: 2, });
+      expect(await models.get()).toBe(upscalers[0]);
+      expect(await models.get('foo')).toBe(upscalers[1]);
+      expect(await models.get()).toBe(upscalers[0]);
+      expect(Upscaler).toHaveBeenCalledTimes(2);
+      expect(Upscaler).toHaveBeenCalledWith({ model: undefined, concurrency: 2, });
+      expect(Upscaler).toHaveBeenCalledWith({ model: { scale: 2, path: 'foo', }, concurrency: 2, });
+      expect(models.loaded).toEqual(['default-model', 'foo',]);
+    });
+
+    it('uses the default model if no model is named', async () => {
+      writePackage('foo', 'module.exports = { scale: 2, path: "foo", };');
+      Upscaler.mockImplementation(() => getUpscaler());
+      const models = new Models({ cwd, defaultModel: 'foo', });
+      await models.get();
+      expect(Upscaler).toHaveBeenCalledWith({ model: { scale: 2, path: 'foo', }, concurrency: undefined, });
+      expect(models.loaded).toEqual(['foo',]);
+    });
+
+    it('forgets an upscaler whose model fails to load', async () => {
+      const failingUpscaler = getUpscaler(() => Promise.reject(new Error('foo')));
+      const upscaler = getUpscaler();
+      Upscaler.mockImplementationOnce(() => failingUpscaler).mockImplementationOnce(() => upscaler);
+      const models = new Models();
+      await Promise.all([
+        expect(models.get()).rejects.toEqual(new Error('foo')),
+        expect(models.get()).rejects.toEqual(new Error('foo')),
+      ]);
+      expect(models.loaded).toEqual([]);
+      expect(failingUpscaler.dispose).toHaveBeenCalledTimes(1);
+      expect(await models.get()).toBe(upscaler);
+      expect(Upscaler).toHaveBeenCalledTimes(2);
+      expect(upscaler.dispose).not.toHaveBeenCalled();
+    });
+
+    it('does not create an upscaler for a model that is not installed', async () => {
+      const models = new Models({ cwd, });
+      await expect(models.get('missing')).rejects.toEqual(getModelNotInstalledError('@upscalerjs/missing'));
+      expect(Upscaler).not.toHaveBeenCalled();
+      expect(models.loaded).toEqual([]);
+    });
+
+    it('disposes of every upscaler', async () => {
+      writePackage('foo', 'module.exports = { scale: 2, path: "foo", };');
+      const upscalers = [getUpscaler(), getUpscaler(),];
+      Upscaler.mockImplementationOnce(() => upscalers[0]).mockImplementationOnce(() => upscalers[1]);
+      const models = new Models({ cwd, });
+      await models.get();
+      await models.get('foo');
+      await models.dispose();
+      upscalers.forEach(upscaler => expect(upscaler.dispose).toHaveBeenCalled());
+      expect(models.loaded).toEqual([]);
+    });
+  });
+});
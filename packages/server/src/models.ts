@@ -0,0 +1,105 @@
+import type _Upscaler from 'upscaler';
+import type { UpscalerOptions, } from 'upscaler';
+import { getInvalidModelError, getInvalidModelNameError, getModelNotInstalledError, } from './errors';
+
+// the Node entry point is CommonJS, and typed by the package's main entry point
+const Upscaler: typeof _Upscaler = require('upscaler/node'); // eslint-disable-line
+
+type ModelDefinitionObjectOrFn = NonNullable<UpscalerOptions['model']>;
+
+const MODEL_SCOPE = '@upscalerjs';
+
+// a package, and optionally a subpath, within the @upscalerjs scope
+const MODEL_NAME = /^[a-z0-9][a-z0-9-]*(\/[a-z0-9][a-z0-9-]*)?$/;
+
+/**
+ * Converts a model name, like `esrgan-slim/4x`, to its package name, like `@upscalerjs/esrgan-slim/4x`.
+ */
+export const getModelPackageName = (name: string): string => {
+  if (!MODEL_NAME.test(name)) {
+    throw getInvalidModelNameError(name);
+  }
+  return `${MODEL_SCOPE}/${name}`;
+};
+
+const hasDefaultExport = (module: unknown): module is { default: unknown; } => module !== null && typeof module === 'object' && 'default' in module;
+
+// model packages are resolved from the working directory, where they are installed alongside the server
+export const loadModel = (name: string, cwd = process.cwd()): ModelDefinitionObjectOrFn => {
+  const packageName = getModelPackageName(name);
+  let modelPath: string;
+  try {
+    modelPath = require.resolve(packageName, { paths: [cwd,], });
+  } catch {
+    throw getModelNotInstalledError(packageName);
+  }
+  const modelModule: unknown = require(modelPath); // eslint-disable-line
+  const modelDefinition = hasDefaultExport(modelModule) ? modelModule.default : modelModule;
+  if (typeof modelDefinition !== 'function' && (modelDefinition === null || typeof modelDefinition !== 'object')) {
+    throw getInvalidModelError(packageName);
+  }
+  return modelDefinition as ModelDefinitionObjectOrFn;
+};
+
+export interface ModelsOptions {
+  /**
+   * The model used when a request does not name one. Defaults to `@upscalerjs/default-model`.
+   */
+  defaultModel?: string;
+  concurrency?: number;
+  cwd?: string;
+}
+
+// keeps one upscaler per model, created the first time the model is requested
+export class Models {
+  /**
+   * @hidden
+   */
+  _upscalers = new Map<string, _Upscaler>();
+
+  /**
+   * @hidden
+   */
+  _opts: ModelsOptions;
+
+  constructor(opts: ModelsOptions = {}) {
+    this._opts = opts;
+  }
+
+  /**
+   * The names of the models that have been loaded so far.
+   */
+  get loaded(): string[] {
+    return Array.from(this._upscalers.keys());
+  }
+
+  // resolves once the model has loaded. a model that fails to load is disposed of and forgotten, so that it is loaded again next time
+  get = async (name = this._opts.defaultModel): Promise<_Upscaler> => {
+    const key = name === undefined ? 'default-model' : name;
+    let upscaler = this._upscalers.get(key);
+    if (!upscaler) {
+      upscaler = new Upscaler({
+        // the default model is a dependency of upscaler itself, and need not be installed alongside the server
+        model: name === undefined ? undefined : loadModel(name, this._opts.cwd),
+        concurrency: this._opts.concurrency,
+      });
+      this._upscalers.set(key, upscaler);
+    }
+    try {
+      await upscaler.getModel();
+    } catch (err) {
+      if (this._upscalers.get(key) === upscaler) {
+        this._upscalers.delete(key);
+        upscaler.dispose().catch(() => undefined);
+      }
+      throw err;
+    }
+    return upscaler;
+  };
+
+  dispose = async (): Promise<void> => {
+    const upscalers = Array.from(this._upscalers.values());
+    this._upscalers.clear();
+    await Promise.all(upscalers.map(upscaler => upscaler.dispose()));
+  };
+}
@@ -0,0 +1,39 @@
+import { getInvalidQueryParamError, } from './errors';
+import { parseUpscaleQuery, } from './query';
+
+describe('parseUpscaleQuery', () => {
+  it('returns defaults for an empty query', () => {
+    expect(parseUpscaleQuery(new URLSearchParams())).toEqual({
+      model: undefined,
+      patchSize: undefined,
+      padding: undefined,
+      format: 'png',
+    });
+  });
+
+  it('parses each option', () => {
+    expect(parseUpscaleQuery(new URLSearchParams('model=esrgan-slim/4x&patchSize=64&padding=0&format=jpeg'))).toEqual({
+      model: 'esrgan-slim/4x',
+      patchSize: 64,
+      padding: 0,
+      format: 'jpeg',
+    });
+  });
+
+  it('throws for an unsupported format', () => {
+    expect(() => parseUpscaleQuery(new URLSearchParams('format=gif'))).toThrow(getInvalidQueryParamError('format', 'gif', 'png or jpeg'));
+  });
+
+  it.each([
+    ['patchSize', '0', 'a positive integer',],
+    ['patchSize', '1.5', 'a positive integer',],
+    ['patchSize', 'foo', 'a positive integer',],
+    ['patchSize', '', 'a positive integer',],
+    ['padding', '-1', 'a non-negative integer',],
+    ['padding', ' ', 'a non-negative integer',],
+  ])('throws for an invalid %s of %p', (key, value, expected) => {
+    const params = new URLSearchParams([[key, value,],]);
+    expect(() => parseUpscaleQuery(params)).toThrow(getInvalidQueryParamError(key, value, expected));
+    expect(() => parseUpscaleQuery(params)).toThrow(expect.objectContaining({ status: 400, }));
+  });
+});
@@ -0,0 +1,42 @@
+import { getInvalidQueryParamError, } from './errors';
+
+export type OutputFormat = 'png' | 'jpeg';
+
+export interface UpscaleQuery {
+  model?: string;
+  patchSize?: number;
+  padding?: number;
+  format: OutputFormat;
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['png', 'jpeg',];
+
+const isOutputFormat = (format: string): format is OutputFormat => OUTPUT_FORMATS.some(f => f === format);
+
+const getInteger = (params: URLSearchParams, key: string, min: number): number | undefined => {
+  const value = params.get(key);
+  if (value === null) {
+    return undefined;
+  }
+  const integer = Number(value);
+  if (value.trim() === '' || !Number.isInteger(integer) || integer < min) {
+    throw getInvalidQueryParamError(key, value, min === 0 ? 'a non-negative integer' : 'a positive integer');
+  }
+  return integer;
+};
+
+/**
+ * Parses the upscale options from a request's query string, like `?model=esrgan-slim/4x&patchSize=64&padding=4`.
+ */
+export const parseUpscaleQuery = (params: URLSearchParams): UpscaleQuery => {
+  const format = params.get('format') || 'png';
+  if (!isOutputFormat(format)) {
+    throw getInvalidQueryParamError('format', format, OUTPUT_FORMATS.join(' or '));
+  }
+  return {
+    model: params.get('model') || undefined,
+    patchSize: getInteger(params, 'patchSize', 1),
+    padding: getInteger(params, 'padding', 0),
+    format,
+  };
+};
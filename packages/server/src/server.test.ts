@@ -0,0 +1,314 @@
+import http from 'http';
+import type { AddressInfo, } from 'net';
+import * as tf from '@tensorflow/tfjs-node';
+import { createServer, } from './server';
+import { mockFn, } from '../../../test/lib/shared/mockers';
+
+jest.mock('upscaler/node', () => jest.fn(), { virtual: true, });
+jest.mock('@tensorflow/tfjs-node', () => ({
+  node: {
+    decodeImage: jest.fn(),
+  },
+}));
+
+const Upscaler: jest.Mock = jest.requireMock('upscaler/node');
+const decodeImage = mockFn(tf.node.decodeImage);
+
+interface Response {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+interface RequestOptions {
+  method?: string;
+  headers?: http.OutgoingHttpHeaders;
+  // each chunk is written separately, and without a Content-Length header unless one is given
+  body?: Buffer[];
+}
+
+describe('createServer', () => {
+  let server: http.Server;
+  let upscaler: {
+    getModel: jest.Mock;
+    upscale: jest.Mock;
+    dispose: jest.Mock;
+  };
+  let pixels: { dispose: jest.Mock; };
+
+  const start = (opts: Parameters<typeof createServer>[0] = {}) => new Promise<void>(resolve => {
+    server = createServer(opts);
+    server.listen(0, 'localhost', resolve);
+  });
+
+  const request = (path: string, { method = 'GET', headers = {}, body = [], }: RequestOptions = {}, onRequest?: (req: http.ClientRequest) => void) => new Promise<Response>((resolve, reject) => {
+    const { port, } = server.address() as AddressInfo;
+    const req = http.request({ host: 'localhost', port, path, method, headers, }, res => {
+      let data = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => {
+        data += chunk;
+      });
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: data, }));
+      res.on('error', reject);
+    });
+    // the server may stop reading a body that is too large, and close the connection after responding
+    req.on('error', reject);
+    onRequest?.(req);
+    body.forEach(chunk => req.write(chunk));
+    req.end();
+  });
+
+  const getMultipartBody = (boundary: string, image: Buffer) => Buffer.concat([
+    Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="image"; filename="image.png"\r\nContent-Type: image/png\r\n\r\n`),
+    image,
+    Buffer.from(`\r\n--${boundary}--\r\n`),
+  ]);
+
+  beforeEach(() => {
+    upscaler = {
+      getModel: jest.fn(() => Promise.resolve({})),
+      upscale: jest.fn(() => Promise.resolve(Buffer.from('upscaled'))),
+      dispose: jest.fn(() => Promise.resolve()),
+    };
+    Upscaler.mockImplementation(() => upscaler);
+    pixels = { dispose: jest.fn(), };
+    decodeImage.mockImplementation(() => pixels as unknown as tf.Tensor3D);
+  });
+
+  const close = () => new Promise(resolve => server.close(resolve));
+
+  afterEach(async () => {
+    if (server.listening) {
+      await close();
+    }
+    Upscaler.mockReset();
+    decodeImage.mockReset();
+    jest.restoreAllMocks();
+  });
+
+  describe('routing', () => {
+    it('reports health and the loaded models', async () => {
+      await start();
+      expect(await request('/health')).toEqual(expect.objectContaining({
+        status: 200,
+        body: JSON.stringify({ status: 'ok', models: [], }),
+      }));
+      await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], });
+      expect(JSON.parse((await request('/health')).body)).toEqual({ status: 'ok', models: ['default-model',], });
+    });
+
+    it('responds with a 404 for an unknown route', async () => {
+      await start();
+      const response = await request('/foo');
+      expect(response.status).toEqual(404);
+      expect(JSON.parse(response.body)).toEqual({ error: 'No route found for /foo', });
+    });
+
+    it.each([
+      ['/health', 'POST', 'GET',],
+      ['/upscale', 'GET', 'POST',],
+      ['/upscale', 'PUT', 'POST',],
+    ])('responds to %s with a 405 for %s', async (path, method, allow) => {
+      await start();
+      const response = await request(path, { method, });
+      expect(response.status).toEqual(405);
+      expect(response.headers.allow).toEqual(allow);
+      expect(JSON.parse(response.body)).toEqual({ error: `Method ${method} is not allowed`, });
+    });
+  });
+
+  describe('upscale', () => {
+    it('upscales an image sent as the body', async () => {
+      await start();
+      const response = await request('/upscale?patchSize=64&padding=2&format=jpeg', { method: 'POST', body: [Buffer.from('ima'), Buffer.from('ge'),], });
+      expect(response.status).toEqual(200);
+      expect(response.headers['content-type']).toEqual('image/jpeg');
+      expect(response.body).toEqual('upscaled');
+      expect(decodeImage).toHaveBeenCalledWith(Buffer.from('image'));
+      expect(upscaler.upscale).toHaveBeenCalledWith(pixels, expect.objectContaining({
+        output: 'buffer',
+        imageFormat: 'jpeg',
+        patchSize: 64,
+        padding: 2,
+      }));
+      expect(pixels.dispose).toHaveBeenCalled();
+    });
+
+    it('upscales an image sent as a file in a multipart form', async () => {
+      await start();
+      const boundary = 'foo';
+      const response = await request('/upscale', {
+        method: 'POST',
+        headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}`, },
+        body: [getMultipartBody(boundary, Buffer.from('image')),],
+      });
+      expect(response.status).toEqual(200);
+      expect(response.headers['content-type']).toEqual('image/png');
+      expect(decodeImage).toHaveBeenCalledWith(Buffer.from('image'));
+    });
+
+    it('responds with a 400 for an invalid query', async () => {
+      await start();
+      const response = await request('/upscale?patchSize=0', { method: 'POST', body: [Buffer.from('image'),], });
+      expect(response.status).toEqual(400);
+      expect(JSON.parse(response.body)).toEqual({ error: 'Invalid patchSize provided, expected a positive integer: 0', });
+      expect(upscaler.upscale).not.toHaveBeenCalled();
+    });
+
+    it('responds with a 400 if no image is sent', async () => {
+      await start();
+      const response = await request('/upscale', { method: 'POST', });
+      expect(response.status).toEqual(400);
+      expect(decodeImage).not.toHaveBeenCalled();
+    });
+
+    it('responds with a 400 if the image cannot be decoded', async () => {
+      decodeImage.mockImplementation(() => {
+        throw new Error('Expected image (BMP, JPEG, PNG, or GIF), but got unsupported image type');
+      });
+      await start();
+      const response = await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], });
+      expect(response.status).toEqual(400);
+      expect(upscaler.upscale).not.toHaveBeenCalled();
+    });
+
+    it('responds with a 500 if upscaling fails, without exposing the error', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      upscaler.upscale.mockImplementation(() => Promise.reject(new Error('foo')));
+      await start();
+      const response = await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], });
+      expect(response.status).toEqual(500);
+      expect(JSON.parse(response.body)).toEqual({ error: 'Failed to upscale image', });
+      expect(error).toHaveBeenCalledWith(new Error('foo'));
+      expect(pixels.dispose).toHaveBeenCalled();
+    });
+
+    it('responds with a 500 if the model fails to load, and loads it again for the next request', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      upscaler.getModel.mockImplementationOnce(() => Promise.reject(new Error('foo')));
+      await start();
+      expect((await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], })).status).toEqual(500);
+      expect((await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], })).status).toEqual(200);
+      expect(Upscaler).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('maximum body size', () => {
+    const maxBodySize = 8;
+    const image = Buffer.alloc(maxBodySize + 1);
+    const boundary = 'foo';
+    const multipartHeaders = { 'Content-Type': `multipart/form-data; boundary=${boundary}`, };
+
+    it('accepts a body of the maximum size', async () => {
+      await start({ maxBodySize, });
+      const response = await request('/upscale', { method: 'POST', body: [Buffer.alloc(maxBodySize),], });
+      expect(response.status).toEqual(200);
+    });
+
+    it.each([
+      ['raw', {}, [image,],],
+      ['multipart', multipartHeaders, [getMultipartBody(boundary, image),],],
+    ])('rejects a %s body declared larger than the maximum', async (_type, headers, body) => {
+      await start({ maxBodySize, });
+      const response = await request('/upscale', {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': body[0].length, },
+        body,
+      });
+      expect(response.status).toEqual(413);
+      expect(response.headers.connection).toEqual('close');
+      expect(JSON.parse(response.body)).toEqual({ error: `Request body exceeds the maximum size of ${maxBodySize} bytes`, });
+      expect(decodeImage).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['raw', {}, [image.subarray(0, 4), image.subarray(4),],],
+      ['multipart', multipartHeaders, [getMultipartBody(boundary, image),],],
+    ])('rejects a streamed %s body larger than the maximum', async (_type, headers, body) => {
+      await start({ maxBodySize, });
+      const response = await request('/upscale', { method: 'POST', headers, body, });
+      expect(response.status).toEqual(413);
+      expect(JSON.parse(response.body)).toEqual({ error: `Request body exceeds the maximum size of ${maxBodySize} bytes`, });
+      expect(decodeImage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('event streams', () => {
+    const headers = { Accept: 'text/event-stream', };
+
+    it('sends progress for each tile, followed by the upscaled image', async () => {
+      upscaler.upscale.mockImplementation(async (_pixels: unknown, { progress, }: { progress: (...args: unknown[]) => void; }) => {
+        progress(0.5, 'data:image/png;base64,foo', 0, 0);
+        progress(1, 'data:image/png;base64,bar', 0, 1);
+        return 'data:image/png;base64,baz';
+      });
+      await start();
+      const response = await request('/upscale?patchSize=2', { method: 'POST', headers, body: [Buffer.from('image'),], });
+      expect(response.status).toEqual(200);
+      expect(response.headers['content-type']).toEqual('text/event-stream');
+      expect(response.body).toEqual([
+        `event: progress\ndata: ${JSON.stringify({ progress: 0.5, row: 0, col: 0, tile: 'data:image/png;base64,foo', })}\n\n`,
+        `event: progress\ndata: ${JSON.stringify({ progress: 1, row: 0, col: 1, tile: 'data:image/png;base64,bar', })}\n\n`,
+        `event: result\ndata: ${JSON.stringify({ image: 'data:image/png;base64,baz', })}\n\n`,
+      ].join(''));
+      expect(upscaler.upscale).toHaveBeenCalledWith(pixels, expect.objectContaining({
+        output: 'base64',
+        progressOutput: 'base64',
+        patchSize: 2,
+      }));
+      expect(pixels.dispose).toHaveBeenCalled();
+    });
+
+    it('sends an error event if upscaling fails after the stream has started', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      upscaler.upscale.mockImplementation(async (_pixels: unknown, { progress, }: { progress: (...args: unknown[]) => void; }) => {
+        progress(0.5, 'data:image/png;base64,foo', 0, 0);
+        throw new Error('foo');
+      });
+      await start();
+      const response = await request('/upscale', { method: 'POST', headers, body: [Buffer.from('image'),], });
+      expect(response.status).toEqual(200);
+      expect(response.body).toEqual([
+        `event: progress\ndata: ${JSON.stringify({ progress: 0.5, row: 0, col: 0, tile: 'data:image/png;base64,foo', })}\n\n`,
+        `event: error\ndata: ${JSON.stringify({ status: 500, message: 'Failed to upscale image', })}\n\n`,
+      ].join(''));
+    });
+  });
+
+  it('stops upscaling if the client disconnects', async () => {
+    let signal: AbortSignal | undefined;
+    const upscaling = new Promise<void>(resolve => {
+      upscaler.upscale.mockImplementation((_pixels: unknown, opts: { signal: AbortSignal; }) => new Promise((_resolve, reject) => {
+        signal = opts.signal;
+        signal.addEventListener('abort', () => reject(new Error('aborted')));
+        resolve();
+      }));
+    });
+    await start();
+    let clientRequest: http.ClientRequest | undefined;
+    const response = request('/upscale', { method: 'POST', body: [Buffer.from('image'),], }, req => {
+      clientRequest = req;
+    });
+    await upscaling;
+    expect(signal?.aborted).toEqual(false);
+    clientRequest?.destroy();
+    await expect(response).rejects.toThrow('socket hang up');
+    await new Promise<void>(resolve => {
+      if (signal?.aborted) {
+        resolve();
+      }
+      signal?.addEventListener('abort', () => resolve());
+    });
+    expect(signal?.aborted).toEqual(true);
+    expect(pixels.dispose).toHaveBeenCalled();
+  });
+
+  it('disposes of its models when closed', async () => {
+    await start();
+    await request('/upscale', { method: 'POST', body: [Buffer.from('image'),], });
+    await close();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(upscaler.dispose).toHaveBeenCalled();
+  });
+});
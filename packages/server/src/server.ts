@@ -0,0 +1,154 @@
+import http from 'http';
+import type { IncomingMessage, ServerResponse, } from 'http';
+import { decodeImage, readImage, } from './body';
+import { getMethodNotAllowedError, getNotFoundError, HTTPError, } from './errors';
+import { Models, ModelsOptions, } from './models';
+import { parseUpscaleQuery, } from './query';
+
+const DEFAULT_MAX_BODY_SIZE = 10 * 1024 * 1024;
+
+export interface ServerOptions extends ModelsOptions {
+  /**
+   * The largest request body accepted, in bytes. Defaults to 10MB.
+   */
+  maxBodySize?: number;
+}
+
+interface Context {
+  models: Models;
+  maxBodySize: number;
+}
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown): void => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+};
+
+const wantsEventStream = (req: IncomingMessage): boolean => (req.headers.accept || '').includes('text/event-stream');
+
+// server-sent events are written as an event name followed by a line of JSON
+const sendEvent = (res: ServerResponse, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const handleHealth = (res: ServerResponse, { models, }: Context): void => {
+  sendJSON(res, 200, { status: 'ok', models: models.loaded, });
+};
+
+// responds with the upscaled image, or, if the client accepts an event stream, with progress for each
+// upscaled tile followed by the upscaled image as a data URL
+const handleUpscale = async (req: IncomingMessage, res: ServerResponse, url: URL, { models, maxBodySize, }: Context): Promise<void> => {
+  const { model, patchSize, padding, format, } = parseUpscaleQuery(url.searchParams);
+  const upscaler = await models.get(model);
+  const pixels = decodeImage(await readImage(req, maxBodySize));
+
+  // stop upscaling if the client goes away before the response is finished
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  try {
+    if (wantsEventStream(req)) {
+      res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      const upscaledImage = await upscaler.upscale(pixels, {
+        output: 'base64',
+        progressOutput: 'base64',
+        imageFormat: format,
+        patchSize,
+        padding,
+        signal: controller.signal,
+        progress: (progress: number, tile: string, row: number, col: number) => {
+          sendEvent(res, 'progress', { progress, row, col, tile, });
+        },
+      });
+      sendEvent(res, 'result', { image: upscaledImage, });
+      res.end();
+      return;
+    }
+
+    const upscaledImage = await upscaler.upscale(pixels, {
+      output: 'buffer',
+      imageFormat: format,
+      patchSize,
+      padding,
+      signal: controller.signal,
+    });
+    res.writeHead(200, {
+      'Content-Type': `image/${format}`,
+      'Content-Length': upscaledImage.length,
+    });
+    res.end(upscaledImage);
+  } finally {
+    pixels.dispose();
+  }
+};
+
+const route = async (req: IncomingMessage, res: ServerResponse, context: Context): Promise<void> => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (url.pathname === '/health') {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      throw getMethodNotAllowedError(req.method);
+    }
+    return handleHealth(res, context);
+  }
+  if (url.pathname === '/upscale') {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      throw getMethodNotAllowedError(req.method);
+    }
+    return handleUpscale(req, res, url, context);
+  }
+  throw getNotFoundError(url.pathname);
+};
+
+const handleError = (req: IncomingMessage, res: ServerResponse, err: unknown): void => {
+  if (res.destroyed || res.writableEnded) {
+    return;
+  }
+  const status = err instanceof HTTPError ? err.status : 500;
+  const message = err instanceof HTTPError ? err.message : 'Failed to upscale image';
+  if (!(err instanceof HTTPError)) {
+    console.error(err);
+  }
+  if (res.headersSent) {
+    // an event stream has already started, so the error is sent as an event
+    sendEvent(res, 'error', { status, message, });
+    res.end();
+    return;
+  }
+  if (status === 413) {
+    // the rest of the body is not read, so the connection cannot be reused
+    res.setHeader('Connection', 'close');
+    res.on('finish', () => req.destroy());
+  }
+  sendJSON(res, status, { error: message, });
+};
+
+/**
+ * Creates an HTTP server that upscales images posted to `/upscale`. Models are disposed when the server closes.
+ */
+export const createServer = ({ maxBodySize = DEFAULT_MAX_BODY_SIZE, ...opts }: ServerOptions = {}): http.Server => {
+  const context: Context = {
+    models: new Models(opts),
+    maxBodySize,
+  };
+  const server = http.createServer((req, res) => {
+    route(req, res, context).catch((err: unknown) => handleError(req, res, err));
+  });
+  server.on('close', () => {
+    context.models.dispose().catch((err: unknown) => console.error(err));
+  });
+  return server;
+};
@@ -0,0 +1,12 @@
+import Upscaler from './upscaler';
+import { clearModelCache, } from './loadModel.generated';
+
+describe('cjs', () => {
+  it('exports the upscaler along with its named exports', () => {
+    const cjs = require('./cjs'); // eslint-disable-line
+    expect(cjs).toBe(Upscaler);
+    expect(typeof cjs.clearModelCache).toEqual('function');
+    expect(cjs.clearModelCache).toBe(clearModelCache);
+    expect(typeof cjs.AbortError).toEqual('function');
+  });
+});
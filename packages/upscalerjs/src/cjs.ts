@@ -2,3 +2,7 @@ module.exports = require('./index').default; // eslint-disable-line
 module.exports.AbortError = require('./index').AbortError; // eslint-disable-line
 module.exports.getRowsAndColumns = require('./index').getRowsAndColumns; // eslint-disable-line
 module.exports.getTensorDimensions = require('./index').getTensorDimensions; // eslint-disable-line
+module.exports.WorkerUpscaler = require('./index').WorkerUpscaler; // eslint-disable-line
+module.exports.exposeUpscaler = require('./index').exposeUpscaler; // eslint-disable-line
+module.exports.UpscalerPool = require('./index').UpscalerPool; // eslint-disable-line
+module.exports.clearModelCache = require('./index').clearModelCache; // eslint-disable-line
@@ -0,0 +1,90 @@
+import * as tf from '@tensorflow/tfjs-node';
+import {
+  applyEnsembleTransform,
+  getEnsemblePrediction,
+  getEnsembleTransforms,
+  getInvalidEnsembleError,
+  invertEnsembleTransform,
+} from './ensemble';
+import { Ensemble, } from './types';
+
+describe('ensemble', () => {
+  const getModel = () => ({
+    predict: jest.fn((pixels: tf.Tensor4D) => tf.image.resizeNearestNeighbor(pixels, [
+      pixels.shape[1] * 2,
+      pixels.shape[2] * 2,
+    ])),
+  } as unknown as tf.LayersModel);
+
+  describe('getEnsembleTransforms', () => {
+    it('returns the transforms for each ensemble', () => {
+      expect(getEnsembleTransforms()).toHaveLength(1);
+      expect(getEnsembleTransforms('none')).toHaveLength(1);
+      expect(getEnsembleTransforms('flip')).toHaveLength(2);
+      const transforms = getEnsembleTransforms('x8');
+      expect(transforms).toHaveLength(8);
+      expect(new Set(transforms.map(transform => JSON.stringify(transform))).size).toEqual(8);
+    });
+
+    it('throws if given an invalid ensemble', () => {
+      expect(() => getEnsembleTransforms('foo' as Ensemble)).toThrow(getInvalidEnsembleError('foo'));
+    });
+  });
+
+  it('inverts every transform', () => {
+    const pixels = tf.range(0, 6).reshape([1, 2, 3, 1,]) as tf.Tensor4D;
+    getEnsembleTransforms('x8').forEach(transform => {
+      const result = tf.tidy(() => invertEnsembleTransform(applyEnsembleTransform(pixels, transform), transform));
+      expect(result.shape).toEqual([1, 2, 3, 1,]);
+      expect(Array.from(result.dataSync())).toEqual([0, 1, 2, 3, 4, 5,]);
+      result.dispose();
+    });
+    pixels.dispose();
+  });
+
+  describe('getEnsemblePrediction', () => {
+    it('runs the model once without an ensemble', () => {
+      const model = getModel();
+      const pixels = tf.ones([1, 2, 2, 3,]) as tf.Tensor4D;
+      const result = getEnsemblePrediction(model, pixels);
+      expect(model.predict).toHaveBeenCalledTimes(1);
+      expect(result.shape).toEqual([1, 4, 4, 3,]);
+      tf.dispose([pixels, result,]);
+    });
+
+    it('averages the predictions of each transform', () => {
+      const model = getModel();
+      const pixels = tf.range(0, 6).reshape([1, 2, 3, 1,]) as tf.Tensor4D;
+      const startingTensors = tf.memory().numTensors;
+      const result = getEnsemblePrediction(model, pixels, [], 'x8');
+      expect(tf.memory().numTensors).toEqual(startingTensors + 1);
+      expect(model.predict).toHaveBeenCalledTimes(8);
+      const expected = tf.image.resizeNearestNeighbor(pixels, [4, 6,]);
+      expect(result.shape).toEqual([1, 4, 6, 1,]);
+      Array.from(result.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(expected.dataSync()[i], 5));
+      tf.dispose([pixels, result, expected,]);
+    });
+
+    it('smooths the predictions of a model that is not symmetric', () => {
+      const model = {
+        predict: jest.fn((pixels: tf.Tensor4D) => tf.concat([tf.onesLike(pixels), tf.zerosLike(pixels),], 2)),
+      } as unknown as tf.LayersModel;
+      const pixels = tf.ones([1, 2, 1, 1,]) as tf.Tensor4D;
+      const result = getEnsemblePrediction(model, pixels, [], 'flip');
+      expect(Array.from(result.dataSync())).toEqual([0.5, 0.5, 0.5, 0.5,]);
+      tf.dispose([pixels, result,]);
+    });
+
+    it('transforms spatial model inputs along with the pixels', () => {
+      const model = {
+        predict: jest.fn(([pixels, spatial, scalar,]: tf.Tensor[]) => tf.tidy(() => tf.add(spatial, tf.mul(pixels, scalar.reshape([1, 1, 1, 1,]))))),
+      } as unknown as tf.LayersModel;
+      const pixels = tf.zeros([1, 2, 3, 1,]) as tf.Tensor4D;
+      const spatial = tf.range(0, 6).reshape([1, 2, 3, 1,]);
+      const scalar = tf.ones([1, 1,]);
+      const result = getEnsemblePrediction(model, pixels, [spatial, scalar,], 'x8');
+      expect(Array.from(result.dataSync())).toEqual([0, 1, 2, 3, 4, 5,]);
+      tf.dispose([pixels, spatial, scalar, result,]);
+    });
+  });
+});
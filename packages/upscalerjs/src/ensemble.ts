@@ -0,0 +1,75 @@
+import { tf, } from './dependencies.generated';
+import type { Ensemble, Model, } from './types';
+import { getPrediction, } from './utils';
+
+export const getInvalidEnsembleError = (ensemble: string): Error => new Error(
+  `Invalid ensemble provided, expected one of "none", "flip" or "x8": ${ensemble}`,
+);
+
+export interface EnsembleTransform {
+  transpose: boolean;
+  flipVertical: boolean;
+  flipHorizontal: boolean;
+}
+
+const IDENTITY: EnsembleTransform = { transpose: false, flipVertical: false, flipHorizontal: false, };
+
+// returns the geometric transforms a patch is predicted with. `x8` covers every rotation and mirroring of the patch
+export const getEnsembleTransforms = (ensemble: Ensemble = 'none'): EnsembleTransform[] => {
+  if (ensemble === 'none') {
+    return [IDENTITY,];
+  }
+  if (ensemble === 'flip') {
+    return [IDENTITY, { ...IDENTITY, flipHorizontal: true, },];
+  }
+  if (ensemble === 'x8') {
+    return [false, true,].reduce<EnsembleTransform[]>((transforms, transpose) => transforms.concat(
+      [false, true,].reduce<EnsembleTransform[]>((rowTransforms, flipVertical) => rowTransforms.concat(
+        [false, true,].map(flipHorizontal => ({ transpose, flipVertical, flipHorizontal, })),
+      ), []),
+    ), []);
+  }
+  throw getInvalidEnsembleError(ensemble);
+};
+
+const flip = <T extends tf.Tensor>(tensor: T, { flipVertical, flipHorizontal, }: EnsembleTransform): T => {
+  const axes = [flipVertical ? 1 : undefined, flipHorizontal ? 2 : undefined,].filter((axis): axis is number => axis !== undefined);
+  return axes.length ? tf.reverse(tensor, axes) : tensor;
+};
+
+const transpose = <T extends tf.Tensor>(tensor: T, transform: EnsembleTransform): T => transform.transpose ? tf.transpose(tensor, [0, 2, 1, 3,]) : tensor;
+
+export const applyEnsembleTransform = <T extends tf.Tensor>(tensor: T, transform: EnsembleTransform): T => flip(transpose(tensor, transform), transform);
+
+export const invertEnsembleTransform = <T extends tf.Tensor>(tensor: T, transform: EnsembleTransform): T => transpose(flip(tensor, transform), transform);
+
+// runs pixels through the model once per transform of the ensemble, inverting each transform on the
+// prediction and averaging the results. Spatial model inputs are transformed along with the pixels
+export const getEnsemblePrediction = (
+  model: Model,
+  pixels: tf.Tensor4D,
+  inputs: tf.Tensor[] = [],
+  ensemble: Ensemble = 'none',
+): tf.Tensor4D => {
+  const transforms = getEnsembleTransforms(ensemble);
+  if (transforms.length === 1) {
+    return getPrediction(model, pixels, inputs);
+  }
+  const getTransformedPrediction = (transform: EnsembleTransform): tf.Tensor4D => tf.tidy(() => invertEnsembleTransform(getPrediction(
+    model,
+    applyEnsembleTransform(pixels, transform),
+    inputs.map(input => input.rank === 4 ? applyEnsembleTransform(input, transform) : input),
+  ), transform));
+  // predictions are accumulated one at a time so that only a single prediction is held in memory
+  const [firstTransform, ...otherTransforms] = transforms;
+  let sum = getTransformedPrediction(firstTransform);
+  for (const transform of otherTransforms) {
+    const prediction = getTransformedPrediction(transform);
+    const nextSum: tf.Tensor4D = tf.add(sum, prediction);
+    tf.dispose([sum, prediction,]);
+    sum = nextSum;
+  }
+  const averaged: tf.Tensor4D = tf.div(sum, transforms.length);
+  sum.dispose();
+  return averaged;
+};
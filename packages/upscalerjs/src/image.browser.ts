@@ -1,5 +1,6 @@
 import { tf, } from './dependencies.generated';
-import { isFourDimensionalTensor, isThreeDimensionalTensor, isTensor, isString, tensorAsClampedArray, } from './utils';
+import type { ImageEncodingOptions, ImageFormat, } from './types';
+import { isFourDimensionalTensor, isThreeDimensionalTensor, isTensor, isString, tensorAsClampedArray, hasValidChannels, } from './utils';
 
 export const getInvalidTensorError = (input: tf.Tensor): Error => new Error(
     [
@@ -20,6 +21,16 @@ export const loadImage = (src: string): Promise<HTMLImageElement> => new Promise
   img.onerror = () => reject(getInvalidImageError());
 });
 
+// reads pixels with an alpha channel, and discards the alpha channel if the image is fully opaque
+const getTensorFromPixels = (input: FromPixelsInputs): tf.Tensor3D => tf.tidy(() => {
+  const pixels = tf.browser.fromPixels(input, 4);
+  const [rgb, alpha,] = tf.split<tf.Tensor3D>(pixels, [3, 1,], 2);
+  if (alpha.min().dataSync()[0] === 255) {
+    return rgb;
+  }
+  return pixels;
+});
+
 const getTensorFromInput = async (input: GetImageAsTensorInput): Promise<tf.Tensor3D | tf.Tensor4D> => {
   if (isTensor(input)) {
     return input;
@@ -27,20 +38,29 @@ const getTensorFromInput = async (input: GetImageAsTensorInput): Promise<tf.Tens
 
   if (isString(input)) {
     const imgHTMLElement = await loadImage(input);
-    return tf.browser.fromPixels(imgHTMLElement);
+    return getTensorFromPixels(imgHTMLElement);
   }
 
-  return tf.browser.fromPixels(input);
+  return getTensorFromPixels(input);
 };
 
 // TODO: Bug with TFJS, ImageBitmap's types differ between browser.fromPixels and the exported type
 type FromPixelsInputs = Exclude<tf.FromPixelsInputs['pixels'], 'ImageBitmap'> | ImageBitmap;
 export type GetImageAsTensorInput = tf.Tensor3D | tf.Tensor4D | string | FromPixelsInputs;
+export const getInvalidChannelsOfTensor = (input: tf.Tensor): Error => new Error([
+  `Invalid channels, only 1, 3, or 4 channels are supported at this time. You provided: "${input.shape.slice(-1)[0]}".`,
+  `Full tensor shape: ${JSON.stringify(input.shape)}`,
+].join(' '));
+
 export const getImageAsTensor = async (
   input: GetImageAsTensorInput,
 ): Promise<tf.Tensor4D> => {
   const tensor = await getTensorFromInput(input);
 
+  if (!hasValidChannels(tensor)) {
+    throw getInvalidChannelsOfTensor(tensor);
+  }
+
   if (isThreeDimensionalTensor(tensor)) {
     // https://github.com/tensorflow/tfjs/issues/1125
     /* eslint-disable @typescript-eslint/no-unnecessary-type-assertion */
@@ -64,18 +84,55 @@ export const isHTMLImageElement = (pixels: GetImageAsTensorInput): pixels is HTM
   }
 };
 
-export const tensorAsBase64 = (tensor: tf.Tensor3D): string => {
+export const getFailedToEncodeImageError = (): Error => new Error([
+  'Failed to encode image',
+].join(' '));
+
+export const tensorAsImageData = (tensor: tf.Tensor3D): ImageData => {
   const arr = tensorAsClampedArray(tensor);
   const [height, width, ] = tensor.shape;
   const imageData = new ImageData(width, height);
   imageData.data.set(arr);
+  return imageData;
+};
+
+export const tensorAsCanvas = (tensor: tf.Tensor3D): HTMLCanvasElement => {
+  const imageData = tensorAsImageData(tensor);
   const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
+  canvas.width = imageData.width;
+  canvas.height = imageData.height;
   const ctx = canvas.getContext('2d');
   if (!ctx) {
     throw new Error('No context found');
   }
   ctx.putImageData(imageData, 0, 0);
-  return canvas.toDataURL();
+  return canvas;
+};
+
+export type PlatformImageEncodingOptions = ImageEncodingOptions;
+
+// every image format can be encoded by the browser's canvas
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const checkImageFormat = (_imageFormat?: ImageFormat): void => undefined;
+
+// eslint-disable-next-line @typescript-eslint/require-await
+export const tensorAsBase64 = async (tensor: tf.Tensor3D, { imageFormat = 'png', imageQuality, }: ImageEncodingOptions = {}): Promise<string> => {
+  const canvas = tensorAsCanvas(tensor);
+  return canvas.toDataURL(`image/${imageFormat}`, imageQuality);
+};
+
+export const tensorAsBlob = (tensor: tf.Tensor3D, { imageFormat = 'png', imageQuality, }: ImageEncodingOptions = {}): Promise<Blob> => new Promise((resolve, reject) => {
+  const canvas = tensorAsCanvas(tensor);
+  canvas.toBlob(blob => {
+    if (blob) {
+      resolve(blob);
+    } else {
+      reject(getFailedToEncodeImageError());
+    }
+  }, `image/${imageFormat}`, imageQuality);
+});
+
+export const tensorAsBuffer = async (tensor: tf.Tensor3D, encodingOptions?: ImageEncodingOptions): Promise<Uint8Array> => {
+  const blob = await tensorAsBlob(tensor, encodingOptions);
+  return new Uint8Array(await blob.arrayBuffer());
 };
@@ -5,8 +5,15 @@ import {
   getImageAsTensor, 
   getInvalidInput,
   tensorAsBase64,
+  tensorAsBuffer,
+  tensorAsBlob,
+  tensorAsImageData,
   getInvalidTensorError,
   getInvalidImageSrcInput,
+  getUnsupportedImageFormatError,
+  getInvalidChannelsOfTensor,
+  checkImageFormat,
+  PlatformImageEncodingOptions,
 } from './image.node';
 import { mockFn } from '../../../test/lib/shared/mockers';
 import { tf } from './dependencies.generated';
@@ -101,7 +108,7 @@ describe('Image', () => {
     });
 
     it('handles an invalid (too small) tensor input', async () => {
-      hasValidChannels.mockReturnValue(true);
+      hasValidChannels.mockReturnValueOnce(true);
       const input = tf.tensor([[1,],]);
       await expect(() => getImageAsTensor(input as any))
         .rejects
@@ -109,13 +116,26 @@ describe('Image', () => {
     });
 
     it('handles an invalid (too large) tensor input', async () => {
-      hasValidChannels.mockReturnValue(true);
+      hasValidChannels.mockReturnValueOnce(true);
       const input = tf.tensor([[[[[1,],],],],]);
       await expect(() => getImageAsTensor(input as tf.Tensor3D))
         .rejects
         .toThrow(getInvalidTensorError(input));
     });
 
+    it('reads a tensor with an alpha channel', async () => {
+      const input = tf.ones([2, 2, 4]);
+      const result = await getImageAsTensor(input as tf.Tensor3D);
+      expect(result.shape).toEqual([1, 2, 2, 4,]);
+    });
+
+    it('handles a tensor with invalid channels', async () => {
+      const input = tf.ones([2, 2, 2]);
+      await expect(() => getImageAsTensor(input as tf.Tensor3D))
+        .rejects
+        .toThrow(getInvalidChannelsOfTensor(input));
+    });
+
     it('handles invalid input', async () => {
       await expect(() => getImageAsTensor(123 as any))
         .rejects
@@ -135,8 +155,81 @@ describe('Image', () => {
 });
 
 describe('tensorAsBase64', () => {
-  it('returns a tensor as base64', () => {
+  it('returns a tensor as a base64 encoded PNG', async () => {
+    const t: tf.Tensor3D = tf.ones([2,2,3]);
+    const result = await tensorAsBase64(t);
+    expect(result.startsWith('data:image/png;base64,')).toEqual(true);
+    const decoded = tf.node.decodePng(Buffer.from(result.split('base64,').pop()!, 'base64'));
+    expect(decoded.shape).toEqual([2,2,3]);
+    expect(Array.from(decoded.dataSync())).toEqual(Array.from(t.dataSync()));
+  });
+
+  it('returns a tensor as a base64 encoded JPEG', async () => {
+    const t: tf.Tensor3D = tf.ones([2,2,3]);
+    const result = await tensorAsBase64(t, { imageFormat: 'jpeg', imageQuality: 0.8, });
+    expect(result.startsWith('data:image/jpeg;base64,')).toEqual(true);
+    const decoded = tf.node.decodeJpeg(Buffer.from(result.split('base64,').pop()!, 'base64'));
+    expect(decoded.shape).toEqual([2,2,3]);
+  });
+
+  it('clips out-of-bounds pixels before encoding', async () => {
+    const t: tf.Tensor3D = tf.fill([2,2,3], 300);
+    const result = await tensorAsBase64(t);
+    const decoded = tf.node.decodePng(Buffer.from(result.split('base64,').pop()!, 'base64'));
+    expect(Array.from(decoded.dataSync())).toEqual(Array(12).fill(255));
+  });
+
+  it('throws if given an unsupported image format', async () => {
+    const t: tf.Tensor3D = tf.ones([2,2,3]);
+    await expect(() => tensorAsBase64(t, { imageFormat: 'webp', }))
+      .rejects
+      .toThrow(getUnsupportedImageFormatError('webp'));
+  });
+});
+
+describe('checkImageFormat', () => {
+  it('accepts png, jpeg and an undefined format', () => {
+    expect(() => checkImageFormat('png')).not.toThrow();
+    expect(() => checkImageFormat('jpeg')).not.toThrow();
+    expect(() => checkImageFormat()).not.toThrow();
+  });
+
+  it('throws if given an unsupported image format', () => {
+    expect(() => checkImageFormat('webp')).toThrow(getUnsupportedImageFormatError('webp'));
+  });
+
+  it('only accepts the supported image formats as a type', () => {
+    // @ts-expect-error webp cannot be encoded in Node
+    const options: PlatformImageEncodingOptions = { imageFormat: 'webp', };
+    expect(() => checkImageFormat(options.imageFormat)).toThrow(getUnsupportedImageFormatError('webp'));
+  });
+});
+
+describe('tensorAsBuffer', () => {
+  it('returns a tensor as an encoded PNG buffer', async () => {
+    const t: tf.Tensor3D = tf.ones([2,2,3]);
+    const result = await tensorAsBuffer(t);
+    const decoded = tf.node.decodePng(result);
+    expect(decoded.shape).toEqual([2,2,3]);
+    expect(Array.from(decoded.dataSync())).toEqual(Array.from(t.dataSync()));
+  });
+});
+
+describe('tensorAsBlob', () => {
+  it('returns a tensor as a blob', async () => {
     const t: tf.Tensor3D = tf.ones([2,2,3]);
-    expect(tensorAsBase64(t)).toEqual('AQEB/wEBAf8BAQH/AQEB/w==');
+    const result = await tensorAsBlob(t, { imageFormat: 'jpeg', });
+    expect(result.type).toEqual('image/jpeg');
+    expect(result.size).toBeGreaterThan(0);
+  });
+});
+
+describe('tensorAsImageData', () => {
+  it('returns a tensor as image data', () => {
+    const t: tf.Tensor3D = tf.ones([1,2,3]);
+    const result = tensorAsImageData(t);
+    expect(result.width).toEqual(2);
+    expect(result.height).toEqual(1);
+    expect(Array.from(result.data)).toEqual([1,1,1,255,1,1,1,255]);
   });
 });
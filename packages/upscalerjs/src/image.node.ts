@@ -1,6 +1,8 @@
 import fs from 'fs';
+import { Blob as NodeBlob, } from 'buffer';
 import { tf, } from './dependencies.generated';
-import { isFourDimensionalTensor, isThreeDimensionalTensor, isTensor, isString, tensorAsClampedArray, hasValidChannels, } from './utils';
+import type { ImageEncodingOptions, ImageFormat, } from './types';
+import { isFourDimensionalTensor, isThreeDimensionalTensor, isTensor, isString, hasValidChannels, tensorAsClampedArray, getChannels, } from './utils';
 
 export const getInvalidTensorError = (input: tf.Tensor): Error => new Error(
   [
@@ -20,7 +22,7 @@ export const getInvalidImageSrcInput = (input: string): Error => new Error([
 ].join(' '));
 
 export const getInvalidChannelsOfTensor = (input: tf.Tensor): Error => new Error([
-  `Invalid channels, only 3 channels are supported at this time. You provided: "${input.shape.slice(-1)[0]}".`,
+  `Invalid channels, only 1, 3, or 4 channels are supported at this time. You provided: "${input.shape.slice(-1)[0]}".`,
   `Full tensor shape: ${JSON.stringify(input.shape)}`,
 ].join(' '));
 
@@ -81,7 +83,67 @@ export const getImageAsTensor = async (
   throw getInvalidTensorError(tensor);
 };
 
-export const tensorAsBase64 = (tensor: tf.Tensor3D): string => {
-  const arr = tensorAsClampedArray(tensor);
-  return Buffer.from(arr).toString('base64');
+export const getUnsupportedImageFormatError = (imageFormat: ImageFormat): Error => new Error([
+  `Unsupported image format "${imageFormat}".`,
+  'Only "png" and "jpeg" are supported in Node.',
+].join(' '));
+
+// tfjs-node cannot encode webp images
+export type EncodableImageFormat = Exclude<ImageFormat, 'webp'>;
+export type PlatformImageEncodingOptions = ImageEncodingOptions & { imageFormat?: EncodableImageFormat; };
+
+const SUPPORTED_IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg',];
+
+// called before upscaling, so that an unsupported format passed from JavaScript does not only fail once the image has been upscaled
+export const checkImageFormat = (imageFormat?: ImageFormat): void => {
+  if (imageFormat !== undefined && !SUPPORTED_IMAGE_FORMATS.includes(imageFormat)) {
+    throw getUnsupportedImageFormatError(imageFormat);
+  }
+};
+
+const encodeTensor = async (tensor: tf.Tensor3D, imageFormat: ImageFormat, imageQuality?: number): Promise<Uint8Array> => {
+  checkImageFormat(imageFormat);
+  const pixels = tf.tidy(() => {
+    const clippedPixels = tf.cast(tf.clipByValue(tensor, 0, 255), 'int32');
+    // JPEGs do not support an alpha channel
+    if (imageFormat === 'jpeg' && getChannels(clippedPixels) === 4) {
+      return tf.slice(clippedPixels, [0, 0, 0,], [-1, -1, 3,]);
+    }
+    return clippedPixels;
+  });
+  try {
+    if (imageFormat === 'jpeg') {
+      return await tf.node.encodeJpeg(pixels, '', imageQuality === undefined ? undefined : Math.round(imageQuality * 100));
+    }
+    return await tf.node.encodePng(pixels);
+  } finally {
+    pixels.dispose();
+  }
+};
+
+export const tensorAsBuffer = async (tensor: tf.Tensor3D, { imageFormat = 'png', imageQuality, }: ImageEncodingOptions = {}): Promise<Uint8Array> => {
+  const encodedImage = await encodeTensor(tensor, imageFormat, imageQuality);
+  return Buffer.from(encodedImage);
+};
+
+export const tensorAsBase64 = async (tensor: tf.Tensor3D, { imageFormat = 'png', imageQuality, }: ImageEncodingOptions = {}): Promise<string> => {
+  const encodedImage = await encodeTensor(tensor, imageFormat, imageQuality);
+  return `data:image/${imageFormat};base64,${Buffer.from(encodedImage).toString('base64')}`;
+};
+
+// Node's Blob implementation is structurally compatible with the browser's Blob
+export const tensorAsBlob = async (tensor: tf.Tensor3D, { imageFormat = 'png', imageQuality, }: ImageEncodingOptions = {}): Promise<Blob> => {
+  const buffer = await tensorAsBuffer(tensor, { imageFormat, imageQuality, });
+  return new NodeBlob([buffer,], { type: `image/${imageFormat}`, }) as unknown as Blob;
+};
+
+// Node has no ImageData class, so we return an object of the same shape
+export const tensorAsImageData = (tensor: tf.Tensor3D): ImageData => {
+  const [height, width, ] = tensor.shape;
+  return {
+    data: new Uint8ClampedArray(tensorAsClampedArray(tensor)),
+    width,
+    height,
+    colorSpace: 'srgb',
+  };
 };
@@ -1,5 +1,13 @@
 export { default, } from './upscaler';
+export { WorkerUpscaler, } from './workerUpscaler';
+export { exposeUpscaler, } from './worker.generated';
+export { UpscalerPool, } from './upscalerPool';
+export type { UpscalerPoolOptions, UpscalePoolArgs, UpscaleAllArgs, } from './upscalerPool';
+export type { WorkerModel, WorkerUpscalerOptions, } from './worker';
+export type { UpscaleVideoArgs, UpscaledVideoFrame, } from './upscaleVideo';
+export type { VideoFrameFormat, VideoInput, } from './video.generated';
 export { getRowsAndColumns, getTensorDimensions, } from './upscale';
 export { AbortError, } from './utils';
+export { clearModelCache, } from './loadModel.generated';
 export type { ModelDefinition, } from '@upscalerjs/core';
 export * from './types';
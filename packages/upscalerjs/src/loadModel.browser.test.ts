@@ -3,8 +3,12 @@ import { ModelDefinition } from '@upscalerjs/core';
 import { tf as _tf, } from './dependencies.generated';
 import { mock, mockFn } from '../../../test/lib/shared/mockers';
 import {
+  CACHE_PREFIX,
   CDNS,
+  clearModelCache,
   fetchModel,
+  getCDN,
+  getCDNTimeoutError,
   getLoadModelErrorMessage,
   loadModel,
 } from './loadModel.browser';
@@ -38,11 +42,18 @@ jest.mock('./dependencies.generated', () => {
     tf: {
       ...tf,
       loadLayersModel: jest.fn(),
+      loadGraphModel: jest.fn(),
+      io: {
+        ...tf.io,
+        listModels: jest.fn(),
+        removeModel: jest.fn(),
+      },
     }
   }
 });
 
 const tf = mock(_tf);
+const tfIO = mock(_tf.io);
 const getModelDefinitionError = mockFn(_getModelDefinitionError);
 const isValidModelDefinition = mockFn(_isValidModelDefinition);
 const registerCustomLayers = mockFn(_registerCustomLayers);
@@ -53,24 +64,44 @@ describe('loadModel browser tests', () => {
     getModelDefinitionError.mockClear();
     isValidModelDefinition.mockClear();
     tf.loadLayersModel.mockClear();
+    tf.loadGraphModel.mockClear();
+    tfIO.listModels.mockClear();
+    tfIO.removeModel.mockClear();
   });
 
   describe('fetchModel', () => {
     it('loads the given model path if there is no package info', async () => {
       expect(tf.loadLayersModel).toBeCalledTimes(0);
-      await fetchModel('foo');
+      await fetchModel({
+        path: 'foo',
+        scale: 2,
+      });
       expect(tf.loadLayersModel).toBeCalledTimes(1);
       expect(tf.loadLayersModel).toBeCalledWith('foo');
     });
 
+    it('loads a graph model', async () => {
+      await fetchModel({
+        path: 'foo',
+        scale: 2,
+        modelType: 'graph',
+      });
+      expect(tf.loadLayersModel).toBeCalledTimes(0);
+      expect(tf.loadGraphModel).toBeCalledWith('foo');
+    });
+
     it('attempts to load a model from a CDN if given package information', async () => {
       const packageName = 'packageName';
       const version = 'version';
       const modelPath = 'modelPath';
       expect(tf.loadLayersModel).toBeCalledTimes(0);
-      await fetchModel(modelPath, {
-        name: packageName,
-        version,
+      await fetchModel({
+        path: modelPath,
+        scale: 2,
+        packageInformation: {
+          name: packageName,
+          version,
+        },
       });
       expect(tf.loadLayersModel).toBeCalledTimes(1);
       expect(tf.loadLayersModel).toBeCalledWith(CDNS[0].fn(packageName, version, modelPath));
@@ -87,9 +118,13 @@ describe('loadModel browser tests', () => {
         return 'foo' as unknown as LayersModel;
       });
       expect(tf.loadLayersModel).toBeCalledTimes(0);
-      await fetchModel(modelPath, {
-        name: packageName,
-        version,
+      await fetchModel({
+        path: modelPath,
+        scale: 2,
+        packageInformation: {
+          name: packageName,
+          version,
+        },
       });
       expect(tf.loadLayersModel).toBeCalledTimes(2);
       expect(tf.loadLayersModel).toBeCalledWith(CDNS[1].fn(packageName, version, modelPath));
@@ -102,12 +137,126 @@ describe('loadModel browser tests', () => {
       tf.loadLayersModel.mockImplementation(async () => {
         throw new Error('next');
       });
-      await expect(() => fetchModel(modelPath, {
-        name: packageName,
-        version,
+      await expect(() => fetchModel({
+        path: modelPath,
+        scale: 2,
+        packageInformation: {
+          name: packageName,
+          version,
+        },
       }))
         .rejects
-        .toThrowError(getLoadModelErrorMessage(modelPath));
+        .toThrowError(getLoadModelErrorMessage(modelPath, CDNS.map(({ fn, }) => ({
+          url: fn(packageName, version, modelPath),
+          error: new Error('next'),
+        }))));
+    });
+
+    it('loads a model from a custom list of CDNs', async () => {
+      tf.loadLayersModel.mockImplementation(async (url: string | io.IOHandler) => {
+        if (url === 'https://foo.com/packageName/modelPath') {
+          throw new Error('next');
+        }
+        return 'foo' as unknown as LayersModel;
+      });
+      await fetchModel({
+        path: 'modelPath',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: 'version',
+        },
+      }, [
+        {
+          name: 'foo',
+          fn: (packageName, _version, path) => `https://foo.com/${packageName}/${path}`,
+        },
+        'https://bar.com/{name}@{version}/{path}',
+      ]);
+      expect(tf.loadLayersModel).toBeCalledTimes(2);
+      expect(tf.loadLayersModel).toBeCalledWith('https://bar.com/packageName@version/modelPath');
+    });
+
+    it('moves on to the next CDN if one times out', async () => {
+      jest.useFakeTimers();
+      tf.loadLayersModel.mockImplementation((url: string | io.IOHandler) => new Promise((resolve, reject) => {
+        if (url === 'https://slow.com/modelPath') {
+          // simulates a request that is aborted on a timeout
+          setTimeout(() => reject(new Error('aborted')), 1000);
+        } else {
+          resolve('foo' as unknown as LayersModel);
+        }
+      }));
+      const result = fetchModel({
+        path: 'modelPath',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: 'version',
+        },
+      }, [
+        {
+          name: 'slow',
+          fn: (_packageName, _version, path) => `https://slow.com/${path}`,
+          timeout: 500,
+        },
+        'https://fast.com/{path}',
+      ]);
+      jest.advanceTimersByTime(500);
+      jest.advanceTimersByTime(500);
+      jest.useRealTimers();
+      expect(await result).toEqual('foo');
+      expect(tf.loadLayersModel).toBeCalledTimes(2);
+      expect(tf.loadLayersModel).toBeCalledWith('https://slow.com/modelPath', {
+        fetchFunc: expect.any(Function),
+      });
+    });
+
+    it('reports a timed out CDN in the error', async () => {
+      tf.loadLayersModel.mockImplementation((_url: string | io.IOHandler, options?: io.LoadOptions) => new Promise((_resolve, reject) => {
+        options?.fetchFunc?.('foo', {}).catch(reject);
+      }));
+      const fetch = jest.fn((_input: RequestInfo, { signal, }: RequestInit) => new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+      const originalFetch = global.fetch;
+      global.fetch = fetch as unknown as typeof global.fetch;
+      await expect(() => fetchModel({
+        path: 'modelPath',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: 'version',
+        },
+      }, [
+        {
+          name: 'slow',
+          fn: (_packageName, _version, path) => `https://slow.com/${path}`,
+          timeout: 1,
+        },
+      ])).rejects.toThrowError(getLoadModelErrorMessage('modelPath', [{
+        url: 'https://slow.com/modelPath',
+        error: getCDNTimeoutError(1),
+      },]));
+      expect(fetch).toHaveBeenCalledTimes(1);
+      global.fetch = originalFetch;
+    });
+  });
+
+  describe('getCDN', () => {
+    it('returns a CDN definition as is', () => {
+      expect(getCDN(CDNS[0])).toEqual(CDNS[0]);
+    });
+
+    it('builds a CDN from a URL template', () => {
+      const { name, fn, } = getCDN('https://foo.com/{name}@{version}/{path}');
+      expect(name).toEqual('https://foo.com/{name}@{version}/{path}');
+      expect(fn('@upscalerjs/foo', '1.0.0', 'models/model.json')).toEqual('https://foo.com/@upscalerjs/foo@1.0.0/models/model.json');
+    });
+
+    it('replaces every occurrence of a placeholder', () => {
+      const { fn, } = getCDN('https://foo.com/{name}/{version}/{name}@{version}/{path}?path={path}');
+      expect(fn('foo', '1.0.0', 'model.json')).toEqual('https://foo.com/foo/1.0.0/foo@1.0.0/model.json?path=model.json');
     });
   });
 
@@ -147,5 +296,122 @@ describe('loadModel browser tests', () => {
         model,
       });
     });
+
+    it('reports progress while loading a model', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      tf.loadLayersModel.mockImplementation(async (_url: string | io.IOHandler, options?: io.LoadOptions) => {
+        options?.onProgress?.(0.5);
+        options?.onProgress?.(1);
+        return 'foo' as unknown as LayersModel;
+      });
+      const onProgress = jest.fn();
+      await loadModel({
+        path: 'foo',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: 'version',
+        },
+      }, { onProgress, });
+      expect(onProgress.mock.calls).toEqual([[0.5,], [1,],]);
+    });
+
+    it('does not use the cache by default', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      tf.loadLayersModel.mockImplementation(async () => 'foo' as unknown as LayersModel);
+      await loadModel({
+        path: 'foo',
+        scale: 2,
+      });
+      expect(tfIO.listModels).not.toHaveBeenCalled();
+    });
+
+    it('loads a cached model', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      const model = 'foo' as unknown as LayersModel;
+      tf.loadLayersModel.mockImplementation(async () => model);
+      tfIO.listModels.mockImplementation(async () => ({
+        [`${CACHE_PREFIX}packageName@1.0.0/foo`]: {} as io.ModelArtifactsInfo,
+      }));
+      const result = await loadModel({
+        path: 'foo',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: '1.0.0',
+        },
+      }, { cache: true, });
+      expect(tf.loadLayersModel).toHaveBeenCalledTimes(1);
+      expect(tf.loadLayersModel).toHaveBeenCalledWith(`${CACHE_PREFIX}packageName@1.0.0/foo`);
+      expect(result.model).toEqual(model);
+    });
+
+    it('reports completion when loading a cached model', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      tf.loadLayersModel.mockImplementation(async () => 'foo' as unknown as LayersModel);
+      tfIO.listModels.mockImplementation(async () => ({
+        [`${CACHE_PREFIX}packageName@1.0.0/foo`]: {} as io.ModelArtifactsInfo,
+      }));
+      const onProgress = jest.fn();
+      await loadModel({
+        path: 'foo',
+        scale: 2,
+        packageInformation: {
+          name: 'packageName',
+          version: '1.0.0',
+        },
+      }, { cache: true, onProgress, });
+      expect(onProgress.mock.calls).toEqual([[1,],]);
+    });
+
+    it('caches a fetched model and removes stale versions', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      const save = jest.fn();
+      tf.loadLayersModel.mockImplementation(async () => ({ save, }) as unknown as LayersModel);
+      tfIO.listModels.mockImplementation(async () => ({
+        [`${CACHE_PREFIX}packageName@0.1.0/foo`]: {} as io.ModelArtifactsInfo,
+        [`${CACHE_PREFIX}packageName-other@0.1.0/foo`]: {} as io.ModelArtifactsInfo,
+      }));
+      const packageInformation = {
+        name: 'packageName',
+        version: '1.0.0',
+      };
+      await loadModel({
+        path: 'foo',
+        scale: 2,
+        packageInformation,
+      }, { cache: true, });
+      expect(tf.loadLayersModel).toHaveBeenCalledWith(CDNS[0].fn(packageInformation.name, packageInformation.version, 'foo'));
+      expect(tfIO.removeModel).toHaveBeenCalledTimes(1);
+      expect(tfIO.removeModel).toHaveBeenCalledWith(`${CACHE_PREFIX}packageName@0.1.0/foo`);
+      expect(save).toHaveBeenCalledWith(`${CACHE_PREFIX}packageName@1.0.0/foo`);
+    });
+
+    it('fetches the model if the cache is unavailable', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      const model = { save: jest.fn(async () => { throw new Error('quota'); }), } as unknown as LayersModel;
+      tf.loadLayersModel.mockImplementation(async () => model);
+      tfIO.listModels.mockImplementation(async () => { throw new Error('no indexeddb'); });
+      const result = await loadModel({
+        path: 'foo',
+        scale: 2,
+      }, { cache: true, });
+      expect(tf.loadLayersModel).toHaveBeenCalledWith('foo');
+      expect(result.model).toEqual(model);
+    });
+  });
+
+  describe('clearModelCache', () => {
+    it('removes all cached models', async () => {
+      tfIO.listModels.mockImplementation(async () => ({
+        [`${CACHE_PREFIX}foo`]: {} as io.ModelArtifactsInfo,
+        [`${CACHE_PREFIX}bar`]: {} as io.ModelArtifactsInfo,
+        'indexeddb://some-other-model': {} as io.ModelArtifactsInfo,
+      }));
+      await clearModelCache();
+      expect(tfIO.removeModel).toHaveBeenCalledTimes(2);
+      expect(tfIO.removeModel).toHaveBeenCalledWith(`${CACHE_PREFIX}foo`);
+      expect(tfIO.removeModel).toHaveBeenCalledWith(`${CACHE_PREFIX}bar`);
+    });
   });
 });
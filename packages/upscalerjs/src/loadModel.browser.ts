@@ -1,13 +1,17 @@
 import { tf, } from './dependencies.generated';
-import type { ModelDefinition, } from '@upscalerjs/core';
-import type { ModelPackage, PackageInformation, } from './types';
+import type { ModelDefinition, ModelType, } from '@upscalerjs/core';
+import type { CDN, LoadModelOptions, Model, ModelCacheOptions, ModelLoadProgress, ModelPackage, } from './types';
 import {
+  getModelCacheKey,
   getModelDefinitionError,
+  isStaleModelCacheKey,
   isValidModelDefinition,
+  loadTFModel,
+  loadWithProgress,
   registerCustomLayers,
 } from './utils';
 
-export const CDNS = [
+export const CDNS: CDN[] = [
   {
     name: 'jsdelivr',
     fn: (packageName: string, version: string, path: string) => `https://cdn.jsdelivr.net/npm/${packageName}@${version}/${path}`,
@@ -19,31 +23,152 @@ export const CDNS = [
   // 'cdnjs',
 ];
 
-export const getLoadModelErrorMessage = (modelPath: string): Error => new Error(`Could not resolve URL ${modelPath}`);
+export interface CDNAttempt {
+  url: string;
+  error: Error;
+}
 
-export const fetchModel = async (modelPath: string, packageInformation?: PackageInformation): Promise<tf.LayersModel> => {
+export const getLoadModelErrorMessage = (modelPath: string, attempts: CDNAttempt[] = []): Error => new Error([
+  `Could not resolve URL ${modelPath}`,
+  ...attempts.map(({ url, error, }) => `- ${url}: ${error.message}`),
+].join('\n'));
+
+export const getCDNTimeoutError = (timeout: number): Error => new Error(`Timed out after ${timeout}ms`);
+
+const CDN_TEMPLATE_PLACEHOLDER = /\{(name|version|path)\}/g;
+
+// a CDN can be provided as a URL template, like "https://example.com/{name}@{version}/{path}";
+// every occurrence of each placeholder is replaced
+export const getCDN = (cdn: CDN | string): CDN => typeof cdn === 'string' ? {
+  name: cdn,
+  fn: (packageName, version, path) => {
+    const values: Record<string, string> = { name: packageName, version, path, };
+    return cdn.replace(CDN_TEMPLATE_PLACEHOLDER, (_match, key: string) => values[key]);
+  },
+} : cdn;
+
+export const loadModelFromCDN = async (
+  url: string,
+  modelType?: ModelType,
+  timeout?: number,
+  onProgress?: ModelLoadProgress,
+): Promise<Model> => {
+  if (timeout === undefined) {
+    return await loadTFModel(url, modelType, onProgress ? { onProgress, } : undefined);
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  try {
+    return await loadTFModel(url, modelType, {
+      onProgress,
+      fetchFunc: (input: RequestInfo, init?: RequestInit) => fetch(input, {
+        ...init,
+        signal: controller.signal,
+      }),
+    });
+  } catch (err) {
+    if (controller.signal.aborted) {
+      throw getCDNTimeoutError(timeout);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const fetchModel = async (
+  { path: modelPath, packageInformation, modelType, }: ModelDefinition,
+  cdns: Array<CDN | string> = CDNS,
+  onProgress?: ModelLoadProgress,
+): Promise<Model> => {
   if (packageInformation) {
-    for (let i = 0; i < CDNS.length; i++) {
-      const { fn: getCDNFn, } = CDNS[i];
+    const attempts: CDNAttempt[] = [];
+    for (let i = 0; i < cdns.length; i++) {
+      const { fn: getCDNFn, timeout, } = getCDN(cdns[i]);
+      const url = getCDNFn(packageInformation.name, packageInformation.version, modelPath);
       try {
-        const url = getCDNFn(packageInformation.name, packageInformation.version, modelPath);
-        return await tf.loadLayersModel(url);
+        return await loadModelFromCDN(url, modelType, timeout, onProgress);
       } catch (err) {
         // there was an issue with the CDN, try another
+        attempts.push({
+          url,
+          error: err instanceof Error ? err : new Error(String(err)),
+        });
       }
     }
-    throw getLoadModelErrorMessage(modelPath);
+    throw getLoadModelErrorMessage(modelPath, attempts);
+  }
+  return await loadTFModel(modelPath, modelType, onProgress ? { onProgress, } : undefined);
+};
+
+export const CACHE_PREFIX = 'indexeddb://upscalerjs/';
+
+const listCachedModels = async (): Promise<string[]> => {
+  try {
+    const models = await tf.io.listModels();
+    return Object.keys(models).filter(url => url.startsWith(CACHE_PREFIX));
+  } catch (err) {
+    // IndexedDB is not available
+    return [];
+  }
+};
+
+export const getCachedModel = async (modelDefinition: ModelDefinition): Promise<Model | undefined> => {
+  const url = `${CACHE_PREFIX}${getModelCacheKey(modelDefinition)}`;
+  if ((await listCachedModels()).includes(url)) {
+    try {
+      return await loadTFModel(url, modelDefinition.modelType);
+    } catch (err) {
+      // the cached model is corrupt; remove it and fetch the model again
+      await tf.io.removeModel(url);
+    }
   }
-  return await tf.loadLayersModel(modelPath);
+  return undefined;
+};
+
+export const cacheModel = async (model: Model, modelDefinition: ModelDefinition): Promise<void> => {
+  const staleModels = (await listCachedModels()).filter(url => isStaleModelCacheKey(url.slice(CACHE_PREFIX.length), modelDefinition));
+  try {
+    await Promise.all(staleModels.map(url => tf.io.removeModel(url)));
+    await model.save(`${CACHE_PREFIX}${getModelCacheKey(modelDefinition)}`);
+  } catch (err) {
+    // caching is best effort; the model has already been loaded
+  }
+};
+
+const fetchCachedModel = async (
+  modelDefinition: ModelDefinition,
+  cdns?: Array<CDN | string>,
+  onProgress?: ModelLoadProgress,
+): Promise<Model> => {
+  const cachedModel = await getCachedModel(modelDefinition);
+  if (cachedModel) {
+    return cachedModel;
+  }
+  const model = await fetchModel(modelDefinition, cdns, onProgress);
+  await cacheModel(model, modelDefinition);
+  return model;
+};
+
+/**
+ * Removes all models cached by UpscalerJS from IndexedDB. The `directory` option only applies in Node.
+ */
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const clearModelCache = async (_options: ModelCacheOptions = {}): Promise<void> => {
+  const models = await listCachedModels();
+  await Promise.all(models.map(url => tf.io.removeModel(url)));
 };
 
 export const loadModel = async (
   modelDefinition: ModelDefinition | undefined,
+  { cache = false, cdns, onProgress, }: LoadModelOptions = {},
 ): Promise<ModelPackage> => {
   if (isValidModelDefinition(modelDefinition)) {
     registerCustomLayers(modelDefinition);
 
-    const model = await fetchModel(modelDefinition.path, modelDefinition.packageInformation);
+    const model = await loadWithProgress(reportProgress => cache ?
+      fetchCachedModel(modelDefinition, cdns, reportProgress) :
+      fetchModel(modelDefinition, cdns, reportProgress), onProgress);
 
     return {
       model,
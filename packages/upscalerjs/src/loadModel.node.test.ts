@@ -1,4 +1,8 @@
+import fs from 'fs';
+import os from 'os';
 import { 
+  clearModelCache,
+  getCachedModelFolder,
   loadModel,
   getModelPath,
   getModuleFolder,
@@ -127,5 +131,109 @@ describe('loadModel.node', () => {
         modelDefinition,
       })
     });
+
+    it('reports progress while loading a model', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      registerCustomLayers.mockImplementation(() => { });
+      tf.loadLayersModel.mockImplementation(async () => 'layers model' as any);
+      tf.loadLayersModel.mockImplementation(async (_url, options) => {
+        options?.onProgress?.(0.5);
+        return 'layers model' as any;
+      });
+      const onProgress = jest.fn();
+      await loadModel({ path: 'foo', scale: 2 }, { onProgress, });
+      expect(tf.loadLayersModel).toHaveBeenCalledWith('foo', { onProgress: expect.any(Function), });
+      expect(onProgress.mock.calls).toEqual([[0.5,], [1,],]);
+    });
+
+    it('reports completion if the model is loaded without reporting progress', async () => {
+      isValidModelDefinition.mockImplementation(() => true);
+      registerCustomLayers.mockImplementation(() => { });
+      tf.loadLayersModel.mockImplementation(async () => 'layers model' as any);
+      const onProgress = jest.fn();
+      await loadModel({ path: 'foo', scale: 2 }, { onProgress, });
+      expect(onProgress.mock.calls).toEqual([[1,],]);
+    });
+
+    describe('cache', () => {
+      let directory: string;
+
+      beforeEach(() => {
+        isValidModelDefinition.mockImplementation(() => true);
+        registerCustomLayers.mockImplementation(() => { });
+        directory = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-cache-'));
+      });
+
+      afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true, });
+      });
+
+      it('caches a remote model after loading it', async () => {
+        const save = jest.fn();
+        tf.loadLayersModel.mockImplementation(async () => ({ save, }) as any);
+        const modelDefinition: ModelDefinition = { path: 'https://foo.com/model.json', scale: 2 };
+        await loadModel(modelDefinition, { cache: { directory, }, });
+        expect(tf.loadLayersModel).toHaveBeenCalledWith(modelDefinition.path);
+        expect(save).toHaveBeenCalledWith(`file://${getCachedModelFolder(directory, modelDefinition)}`);
+      });
+
+      it('loads a cached model', async () => {
+        tf.loadLayersModel.mockImplementation(async () => 'layers model' as any);
+        const modelDefinition: ModelDefinition = { path: 'https://foo.com/model.json', scale: 2 };
+        const folder = getCachedModelFolder(directory, modelDefinition);
+        fs.mkdirSync(folder);
+        fs.writeFileSync(path.resolve(folder, 'model.json'), '{}');
+        const response = await loadModel(modelDefinition, { cache: { directory, }, });
+        expect(tf.loadLayersModel).toHaveBeenCalledTimes(1);
+        expect(tf.loadLayersModel).toHaveBeenCalledWith(`file://${path.resolve(folder, 'model.json')}`);
+        expect(response.model).toEqual('layers model');
+      });
+
+      it('reports completion when loading a cached model', async () => {
+        tf.loadLayersModel.mockImplementation(async () => 'layers model' as any);
+        const modelDefinition: ModelDefinition = { path: 'https://foo.com/model.json', scale: 2 };
+        const folder = getCachedModelFolder(directory, modelDefinition);
+        fs.mkdirSync(folder);
+        fs.writeFileSync(path.resolve(folder, 'model.json'), '{}');
+        const onProgress = jest.fn();
+        await loadModel(modelDefinition, { cache: { directory, }, onProgress, });
+        expect(onProgress.mock.calls).toEqual([[1,],]);
+      });
+
+      it('does not cache models installed locally', async () => {
+        resolver.mockImplementation(getResolver(() => './node_modules/foo/dist/cjs/index.js'));
+        const save = jest.fn();
+        tf.loadLayersModel.mockImplementation(async () => ({ save, }) as any);
+        await loadModel({
+          path: 'model.json',
+          scale: 2,
+          packageInformation: {
+            name: 'foo',
+            version: '1.0.0',
+          },
+        }, { cache: { directory, }, });
+        expect(save).not.toHaveBeenCalled();
+      });
+
+      it('clears the cache', async () => {
+        const folder = path.resolve(directory, encodeURIComponent('foo@1.0.0/model.json'));
+        fs.mkdirSync(folder);
+        fs.writeFileSync(path.resolve(folder, 'model.json'), '{}');
+        await clearModelCache({ directory, });
+        expect(fs.existsSync(folder)).toEqual(false);
+      });
+
+      it('leaves files it did not cache in the cache directory', async () => {
+        fs.mkdirSync(path.resolve(directory, 'foo'));
+        fs.writeFileSync(path.resolve(directory, 'bar.txt'), 'bar');
+        await clearModelCache({ directory, });
+        expect(fs.existsSync(path.resolve(directory, 'foo'))).toEqual(true);
+        expect(fs.existsSync(path.resolve(directory, 'bar.txt'))).toEqual(true);
+      });
+
+      it('does nothing if the cache directory does not exist', async () => {
+        await expect(clearModelCache({ directory: path.resolve(directory, 'missing'), })).resolves.toEqual(undefined);
+      });
+    });
   });
 });
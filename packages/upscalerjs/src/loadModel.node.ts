@@ -1,9 +1,18 @@
-import { tf, } from './dependencies.generated';
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import type { ModelDefinition, } from "@upscalerjs/core";
-import { getModelDefinitionError, isValidModelDefinition, registerCustomLayers, } from './utils';
+import {
+  getModelCacheKey,
+  getModelDefinitionError,
+  isStaleModelCacheKey,
+  isValidModelDefinition,
+  loadTFModel,
+  loadWithProgress,
+  registerCustomLayers,
+} from './utils';
 import { resolver, } from './resolver';
-import { ModelPackage, } from 'types';
+import type { LoadModelOptions, Model, ModelCacheOptions, ModelPackage, } from './types';
 
 // const ERROR_URL_EXPLICIT_SCALE_REQUIRED =
 //   'https://thekevinscott.github.io/UpscalerJS/#/?id=you-must-provide-an-explicit-scale';
@@ -32,14 +41,84 @@ export const getModelPath = ({ packageInformation, path: modelPath, }: ModelDefi
   return modelPath;
 };
 
+export const DEFAULT_CACHE_DIRECTORY = path.resolve(os.homedir(), '.cache', 'upscalerjs');
+
+const getCacheDirectory = (cache: boolean | ModelCacheOptions): string => typeof cache === 'object' && cache.directory ? cache.directory : DEFAULT_CACHE_DIRECTORY;
+
+// each model is stored in its own folder, named after its encoded cache key
+export const getCachedModelFolder = (directory: string, modelDefinition: ModelDefinition): string => path.resolve(
+  directory,
+  encodeURIComponent(getModelCacheKey(modelDefinition)),
+);
+
+export const getCachedModel = async (directory: string, modelDefinition: ModelDefinition): Promise<Model | undefined> => {
+  const folder = getCachedModelFolder(directory, modelDefinition);
+  if (fs.existsSync(path.resolve(folder, 'model.json'))) {
+    try {
+      return await loadTFModel(`file://${path.resolve(folder, 'model.json')}`, modelDefinition.modelType);
+    } catch (err) {
+      // the cached model is corrupt; remove it and fetch the model again
+      await fs.promises.rm(folder, { recursive: true, force: true, });
+    }
+  }
+  return undefined;
+};
+
+export const cacheModel = async (directory: string, model: Model, modelDefinition: ModelDefinition): Promise<void> => {
+  try {
+    await fs.promises.mkdir(directory, { recursive: true, });
+    const staleFolders = (await fs.promises.readdir(directory)).filter(folder => isStaleModelCacheKey(decodeURIComponent(folder), modelDefinition));
+    await Promise.all(staleFolders.map(folder => fs.promises.rm(path.resolve(directory, folder), { recursive: true, force: true, })));
+    await model.save(`file://${getCachedModelFolder(directory, modelDefinition)}`);
+  } catch (err) {
+    // caching is best effort; the model has already been loaded
+  }
+};
+
+// folders written by cacheModel are named after an encoded cache key, and contain a saved model
+const isCachedModelFolder = (directory: string, folder: string): boolean => {
+  try {
+    return encodeURIComponent(decodeURIComponent(folder)) === folder && fs.existsSync(path.resolve(directory, folder, 'model.json'));
+  } catch (err) {
+    // the folder name is not a valid encoded cache key
+    return false;
+  }
+};
+
+/**
+ * Removes all models cached by UpscalerJS from the given cache directory. Anything else in the directory is left in place.
+ */
+export const clearModelCache = async ({ directory = DEFAULT_CACHE_DIRECTORY, }: ModelCacheOptions = {}): Promise<void> => {
+  if (!fs.existsSync(directory)) {
+    return;
+  }
+  const folders = (await fs.promises.readdir(directory)).filter(folder => isCachedModelFolder(directory, folder));
+  await Promise.all(folders.map(folder => fs.promises.rm(path.resolve(directory, folder), { recursive: true, force: true, })));
+};
+
+const isRemotePath = (modelPath: string): boolean => /^https?:\/\//.test(modelPath);
+
 export const loadModel = async (
   modelDefinition: ModelDefinition | undefined,
+  { cache = false, onProgress, }: LoadModelOptions = {},
 ): Promise<ModelPackage> => {
   if (isValidModelDefinition(modelDefinition)) {
     registerCustomLayers(modelDefinition);
 
     const modelPath = getModelPath(modelDefinition);
-    const model = await tf.loadLayersModel(modelPath);
+    // models installed as packages are already read from disk, so only remote models are cached
+    const cacheDirectory = cache && isRemotePath(modelPath) ? getCacheDirectory(cache) : undefined;
+    const model = await loadWithProgress(async (reportProgress) => {
+      const cachedModel = cacheDirectory ? await getCachedModel(cacheDirectory, modelDefinition) : undefined;
+      if (cachedModel) {
+        return cachedModel;
+      }
+      const loadedModel = await loadTFModel(modelPath, modelDefinition.modelType, reportProgress ? { onProgress: reportProgress, } : undefined);
+      if (cacheDirectory) {
+        await cacheModel(cacheDirectory, loadedModel, modelDefinition);
+      }
+      return loadedModel;
+    }, onProgress);
 
     return {
       model,
@@ -56,6 +56,20 @@ describe('makeTick', () => {
     abortController.abort();
   }, 100);
 
+  it('attaches the id to the abort error', (done) => {
+    isTensor.mockImplementation(() => false);
+    const abortController = new AbortController();
+    const tick = makeTick(abortController.signal, true, 'foo');
+    tick(undefined).then(() => {
+      throw new Error('Should have thrown.');
+    }).catch(err => {
+      expect(err instanceof AbortError).toBe(true);
+      expect(err.id).toEqual('foo');
+      done();
+    });
+    abortController.abort();
+  }, 100);
+
   it('ignores any non-tensor results', (done) => {
     isTensor.mockImplementation(() => false);
     const abortController = new AbortController();
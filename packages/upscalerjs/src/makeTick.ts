@@ -3,7 +3,7 @@ import { AbortError, isAborted, isTensor, } from './utils';
 import { tf, } from './dependencies.generated';
 
 type TickFunction = (result?: YieldedIntermediaryValue) => Promise<void>;
-export const makeTick = (signal: AbortSignal, awaitNextFrame?: boolean): TickFunction => async result => {
+export const makeTick = (signal: AbortSignal, awaitNextFrame?: boolean, id?: string): TickFunction => async result => {
   if (awaitNextFrame) {
     await tf.nextFrame();
   }
@@ -15,6 +15,6 @@ export const makeTick = (signal: AbortSignal, awaitNextFrame?: boolean): TickFun
     } else if (isTensor(result)) {
       result.dispose();
     }
-    throw new AbortError();
+    throw new AbortError(id);
   }
 };
@@ -0,0 +1,91 @@
+import * as tf from '@tensorflow/tfjs-node';
+import type { ModelDefinition, } from '@upscalerjs/core';
+import {
+  getDefaultModelInputValues,
+  getInvalidSpatialModelInputError,
+  getMissingModelInputError,
+  getModelInputs,
+  getNonSpatialModelInputError,
+  resizeModelInputs,
+  validateModelInputs,
+} from './modelInputs';
+
+describe('modelInputs', () => {
+  const modelDefinition: ModelDefinition = {
+    path: 'foo',
+    scale: 2,
+    inputs: [
+      { name: 'strength', defaultValue: 0.5, },
+      { name: 'noise', spatial: true, channels: 2, },
+    ],
+  };
+
+  describe('validateModelInputs', () => {
+    it('does nothing if the model has no inputs', () => {
+      expect(() => validateModelInputs({ path: 'foo', scale: 2, }, undefined, [2, 2,])).not.toThrow();
+    });
+
+    it('throws if an input without a default value is missing', () => {
+      expect(() => validateModelInputs(modelDefinition, {}, [2, 2,])).toThrow(getMissingModelInputError('noise'));
+    });
+
+    it('throws if a non-spatial input is given a tensor', () => {
+      const strength = tf.zeros([2, 2, 1,]) as tf.Tensor3D;
+      expect(() => validateModelInputs(modelDefinition, { strength, noise: 1, }, [2, 2,])).toThrow(getNonSpatialModelInputError('strength'));
+      strength.dispose();
+    });
+
+    it('throws if a spatial input does not match the size of the image', () => {
+      const noise = tf.zeros([2, 3, 2,]) as tf.Tensor3D;
+      expect(() => validateModelInputs(modelDefinition, { noise, }, [2, 2,])).toThrow(getInvalidSpatialModelInputError('noise', [2, 3, 2,], [2, 2,]));
+      noise.dispose();
+    });
+  });
+
+  describe('getDefaultModelInputValues', () => {
+    it('returns the default value of each input, or zero', () => {
+      expect(getDefaultModelInputValues(modelDefinition)).toEqual({ strength: 0.5, noise: 0, });
+    });
+  });
+
+  describe('getModelInputs', () => {
+    it('returns no inputs for a model without inputs', () => {
+      const pixels = tf.zeros([1, 2, 2, 3,]) as tf.Tensor4D;
+      expect(getModelInputs({ path: 'foo', scale: 2, }, {}, pixels)).toEqual([]);
+      pixels.dispose();
+    });
+
+    it('fills inputs given numbers for each item in the batch', () => {
+      const pixels = tf.zeros([3, 2, 4, 3,]) as tf.Tensor4D;
+      const startingTensors = tf.memory().numTensors;
+      const [strength, noise,] = getModelInputs(modelDefinition, { noise: 2, }, pixels);
+      expect(tf.memory().numTensors).toEqual(startingTensors + 2);
+      expect(strength.shape).toEqual([3, 1,]);
+      expect(Array.from(strength.dataSync())).toEqual([0.5, 0.5, 0.5,]);
+      expect(noise.shape).toEqual([3, 2, 4, 2,]);
+      expect(Array.from(noise.dataSync())).toEqual(Array(3 * 2 * 4 * 2).fill(2));
+      [pixels, strength, noise,].forEach(t => t.dispose());
+    });
+
+    it('extracts patches of spatial inputs', () => {
+      const pixels = tf.zeros([1, 1, 1, 3,]) as tf.Tensor4D;
+      const value = tf.tensor3d([[[1, 2,], [3, 4,],], [[5, 6,], [7, 8,],],]);
+      const startingTensors = tf.memory().numTensors;
+      const [, noise,] = getModelInputs(modelDefinition, { noise: value, }, pixels, input => input.slice([0, 1, 1,], [-1, 1, 1,]));
+      expect(tf.memory().numTensors).toEqual(startingTensors + 2);
+      expect(noise.shape).toEqual([1, 1, 1, 2,]);
+      expect(Array.from(noise.dataSync())).toEqual([7, 8,]);
+      tf.dispose([pixels, value,]);
+    });
+  });
+
+  describe('resizeModelInputs', () => {
+    it('resizes spatial values and keeps numbers', () => {
+      const value = tf.ones([2, 3, 2,]) as tf.Tensor3D;
+      const { strength, noise, } = resizeModelInputs({ strength: 0.5, noise: value, }, [4, 6,]);
+      expect(strength).toEqual(0.5);
+      expect((noise as tf.Tensor3D).shape).toEqual([4, 6, 2,]);
+      tf.dispose([value, noise as tf.Tensor3D,]);
+    });
+  });
+});
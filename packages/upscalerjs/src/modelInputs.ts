@@ -0,0 +1,71 @@
+import { tf, } from './dependencies.generated';
+import type { ModelDefinition, ModelInput, } from '@upscalerjs/core';
+import type { ModelInputValues, } from './types';
+
+export const getMissingModelInputError = (name: string): Error => new Error(
+  `No value was provided for the model input "${name}", and it does not have a default value.`,
+);
+
+export const getNonSpatialModelInputError = (name: string): Error => new Error(
+  `The model input "${name}" is not spatial, and must be given a number.`,
+);
+
+export const getInvalidSpatialModelInputError = (name: string, shape: number[], [height, width,]: [number, number]): Error => new Error([
+  `The spatial model input "${name}" has a shape of [${shape.join(', ')}],`,
+  `but must match the height and width of the image, [${height}, ${width}].`,
+].join(' '));
+
+const getModelInputValue = ({ name, defaultValue, }: ModelInput, values: ModelInputValues): number | tf.Tensor3D => {
+  const value = values[name] ?? defaultValue;
+  if (value === undefined) {
+    throw getMissingModelInputError(name);
+  }
+  return value;
+};
+
+// checks that every input of the model has a value, and that spatial values match the size of the image
+export const validateModelInputs = (
+  { inputs = [], }: ModelDefinition,
+  values: ModelInputValues = {},
+  [height, width,]: [number, number],
+): void => {
+  inputs.forEach(input => {
+    const value = getModelInputValue(input, values);
+    if (typeof value !== 'number') {
+      if (!input.spatial) {
+        throw getNonSpatialModelInputError(input.name);
+      }
+      if (value.shape[0] !== height || value.shape[1] !== width) {
+        throw getInvalidSpatialModelInputError(input.name, value.shape, [height, width,]);
+      }
+    }
+  });
+};
+
+// warming up a model feeds each input its default value
+export const getDefaultModelInputValues = ({ inputs = [], }: ModelDefinition): ModelInputValues => inputs.reduce((values, { name, defaultValue = 0, }) => ({
+  ...values,
+  [name]: defaultValue,
+}), {});
+
+// builds the additional inputs of the model for a batch of pixels. `getPatch` extracts the same
+// region from a spatial input as the batch of pixels was extracted from the image
+export const getModelInputs = (
+  { inputs = [], }: ModelDefinition,
+  values: ModelInputValues = {},
+  pixels: tf.Tensor4D,
+  getPatch: (input: tf.Tensor4D) => tf.Tensor4D = input => input,
+): tf.Tensor[] => inputs.map(input => tf.tidy(() => {
+  const value = getModelInputValue(input, values);
+  if (typeof value !== 'number') {
+    return getPatch(value.expandDims(0));
+  }
+  const [batch, height, width,] = pixels.shape;
+  return input.spatial ? tf.fill([batch, height, width, input.channels || 1,], value) : tf.fill([batch, 1,], value);
+}));
+
+// resizes spatial values to the size of an image upscaled by a previous pass of the model
+export const resizeModelInputs = (values: ModelInputValues = {}, [height, width,]: [number, number]): ModelInputValues => Object.entries(values).reduce((resizedValues, [name, value,]) => ({
+  ...resizedValues,
+  [name]: typeof value === 'number' ? value : tf.tidy(() => tf.image.resizeBilinear(value, [height, width,])),
+}), {});
@@ -0,0 +1,104 @@
+import * as tf from '@tensorflow/tfjs-node';
+import type { ModelDefinition, } from '@upscalerjs/core';
+import { tf as _tf, } from './dependencies.generated';
+import { mock, } from '../../../test/lib/shared/mockers';
+import {
+  getAutoPatchSize,
+  getBytesPerPixel,
+  getMaxTextureSize,
+} from './patchSize';
+
+jest.mock('./dependencies.generated', () => {
+  const { tf, ...rest } = jest.requireActual('./dependencies.generated');
+  return {
+    ...rest,
+    tf: {
+      ...tf,
+      getBackend: jest.fn(tf.getBackend),
+      memory: jest.fn(tf.memory),
+      env: jest.fn(tf.env),
+    },
+  };
+});
+
+const mockedTf = mock(_tf);
+
+const MB = 1024 * 1024;
+
+const getMemoryInfo = (numBytes: number) => ({
+  numBytes,
+  numTensors: 0,
+  numDataBuffers: 0,
+  unreliable: false,
+}) as ReturnType<typeof tf.memory>;
+
+describe('patchSize', () => {
+  const modelDefinition = { scale: 4, } as ModelDefinition;
+  let pixels: tf.Tensor4D;
+
+  beforeEach(() => {
+    mockedTf.getBackend.mockImplementation(() => 'cpu');
+    mockedTf.memory.mockImplementation(() => getMemoryInfo(0));
+  });
+
+  afterEach(() => {
+    pixels?.dispose();
+  });
+
+  describe('getMaxTextureSize', () => {
+    it('returns Infinity for non-WebGL backends', () => {
+      expect(getMaxTextureSize('cpu')).toEqual(Infinity);
+    });
+
+    it('returns the max texture size for WebGL backends', () => {
+      mockedTf.env.mockImplementationOnce(() => ({ getNumber: () => 4096, }) as unknown as tf.Environment);
+      expect(getMaxTextureSize('webgl')).toEqual(4096);
+    });
+
+    it('returns Infinity if the max texture size flag is not registered', () => {
+      mockedTf.env.mockImplementationOnce(() => ({ getNumber: () => { throw new Error('Cannot evaluate flag'); }, }) as unknown as tf.Environment);
+      expect(getMaxTextureSize('webgl')).toEqual(Infinity);
+    });
+  });
+
+  describe('getAutoPatchSize', () => {
+    it('returns a single patch covering the image if the whole image fits', () => {
+      pixels = tf.zeros([1, 24, 32, 3,]);
+      expect(getAutoPatchSize(pixels, modelDefinition)).toEqual({
+        patchSize: 32,
+        padding: 0,
+      });
+    });
+
+    it('returns a patch size and padding that fits within the memory budget', () => {
+      pixels = tf.zeros([1, 1000, 1000, 3,]);
+      const { patchSize, padding, } = getAutoPatchSize(pixels, modelDefinition);
+      expect(patchSize % 16).toEqual(0);
+      expect(padding).toBeGreaterThanOrEqual(2);
+      expect(patchSize).toBeLessThan(1000);
+      const paddedPatchSize = patchSize + padding * 2;
+      expect(paddedPatchSize * paddedPatchSize * getBytesPerPixel(3, 4)).toBeLessThanOrEqual(512 * MB);
+    });
+
+    it('respects an explicit padding', () => {
+      pixels = tf.zeros([1, 1000, 1000, 3,]);
+      expect(getAutoPatchSize(pixels, modelDefinition, 7).padding).toEqual(7);
+    });
+
+    it('picks a smaller patch size when memory is already allocated', () => {
+      pixels = tf.zeros([1, 1000, 1000, 3,]);
+      const { patchSize, } = getAutoPatchSize(pixels, modelDefinition);
+      mockedTf.memory.mockImplementation(() => getMemoryInfo(400 * MB));
+      expect(getAutoPatchSize(pixels, modelDefinition).patchSize).toBeLessThan(patchSize);
+    });
+
+    it('respects the WebGL max texture size', () => {
+      mockedTf.getBackend.mockImplementation(() => 'webgl');
+      mockedTf.env.mockImplementation(() => ({ getNumber: () => 1024, }) as unknown as tf.Environment);
+      pixels = tf.zeros([1, 1000, 1000, 3,]);
+      const { patchSize, padding, } = getAutoPatchSize(pixels, modelDefinition);
+      expect((patchSize + padding * 2) * 4).toBeLessThanOrEqual(1024);
+      mockedTf.env.mockImplementation(jest.requireActual('./dependencies.generated').tf.env);
+    });
+  });
+});
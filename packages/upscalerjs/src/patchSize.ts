@@ -0,0 +1,91 @@
+import { tf, } from './dependencies.generated';
+import type { ModelDefinition, } from '@upscalerjs/core';
+
+const MB = 1024 * 1024;
+
+// approximate memory we are willing to allocate for a single inference call, per backend
+const MEMORY_BUDGETS: Record<string, number> = {
+  webgl: 256 * MB,
+  webgpu: 256 * MB,
+  wasm: 256 * MB,
+  cpu: 512 * MB,
+  tensorflow: 1024 * MB,
+};
+const DEFAULT_MEMORY_BUDGET = 256 * MB;
+
+// even if memory is already heavily allocated, always leave a portion of the budget available
+const MIN_BUDGET_FRACTION = 0.25;
+
+// a rough estimate of the intermediary activations a model holds in memory per input pixel
+const BYTES_PER_FLOAT = 4;
+const ESTIMATED_FEATURE_CHANNELS = 64;
+const ESTIMATED_LIVE_ACTIVATIONS = 4;
+
+const PATCH_SIZE_STEP = 16;
+const MIN_PATCH_SIZE = 16;
+const MIN_PADDING = 2;
+const PADDING_RATIO = 1 / 16;
+
+export interface AutoPatchSize {
+  patchSize: number;
+  padding: number;
+}
+
+const getMemoryBudget = (backend: string): number => {
+  const budget = MEMORY_BUDGETS[backend] || DEFAULT_MEMORY_BUDGET;
+  const { numBytes, } = tf.memory();
+  return Math.max(budget - numBytes, budget * MIN_BUDGET_FRACTION);
+};
+
+// WebGL backends cannot allocate textures larger than the device's max texture size
+export const getMaxTextureSize = (backend: string): number => {
+  if (backend === 'webgl') {
+    try {
+      return tf.env().getNumber('WEBGL_MAX_TEXTURE_SIZE');
+    } catch (err) {
+      return Infinity;
+    }
+  }
+  return Infinity;
+};
+
+export const getBytesPerPixel = (channels: number, scale: number): number => BYTES_PER_FLOAT * (
+  ESTIMATED_FEATURE_CHANNELS * ESTIMATED_LIVE_ACTIVATIONS + channels * scale * scale
+);
+
+// estimates a patch size and padding that should comfortably fit in memory
+// for the current backend, given the model's scale and the size of the input
+export const getAutoPatchSize = (
+  pixels: tf.Tensor4D,
+  { scale, }: ModelDefinition,
+  padding?: number,
+): AutoPatchSize => {
+  const [height, width, channels,] = pixels.shape.slice(1);
+  const backend = tf.getBackend();
+
+  const maxPixels = getMemoryBudget(backend) / getBytesPerPixel(channels, scale);
+  const paddedPatchSize = Math.min(
+    Math.floor(Math.sqrt(maxPixels)),
+    Math.floor(getMaxTextureSize(backend) / scale),
+  );
+
+  const longestSide = Math.max(height, width);
+  if (longestSide <= paddedPatchSize) {
+    // the whole image fits into a single patch
+    return {
+      patchSize: longestSide,
+      padding: padding || 0,
+    };
+  }
+
+  const autoPadding = padding === undefined ? Math.max(MIN_PADDING, Math.round(paddedPatchSize * PADDING_RATIO)) : padding;
+  const patchSize = Math.max(
+    MIN_PATCH_SIZE,
+    Math.floor((paddedPatchSize - autoPadding * 2) / PATCH_SIZE_STEP) * PATCH_SIZE_STEP,
+  );
+
+  return {
+    patchSize,
+    padding: autoPadding,
+  };
+};
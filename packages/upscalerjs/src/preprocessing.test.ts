@@ -0,0 +1,154 @@
+import * as tf from '@tensorflow/tfjs-node';
+import {
+  applyPreprocessing,
+  blur,
+  getBlockBoundaries,
+  getGaussianKernel,
+  getInvalidPreprocessingOptionError,
+  getInvalidPreprocessingStageError,
+  validatePreprocessing,
+} from './preprocessing';
+import { PreprocessingStage, } from './types';
+
+describe('preprocessing', () => {
+  describe('validatePreprocessing', () => {
+    it('accepts valid stages', () => {
+      expect(() => validatePreprocessing([
+        { type: 'deblock', },
+        { type: 'denoise', strength: 1, sigma: 0.5, },
+        { type: 'gamma', gamma: 2.2, },
+        { type: 'colorspace', from: 'srgb', to: 'linear', },
+        { type: 'downscale', scale: 0.5, },
+        (pixels: tf.Tensor4D) => pixels,
+      ])).not.toThrow();
+    });
+
+    it('throws if given an unsupported stage', () => {
+      expect(() => validatePreprocessing([{ type: 'foo', } as unknown as PreprocessingStage,])).toThrow(getInvalidPreprocessingStageError('foo'));
+    });
+
+    it('throws if given invalid options', () => {
+      expect(() => validatePreprocessing([{ type: 'deblock', strength: 2, },])).toThrow(getInvalidPreprocessingOptionError('deblock', 'strength', 2));
+      expect(() => validatePreprocessing([{ type: 'deblock', blockSize: 1, },])).toThrow(getInvalidPreprocessingOptionError('deblock', 'blockSize', 1));
+      expect(() => validatePreprocessing([{ type: 'denoise', sigma: 0, },])).toThrow(getInvalidPreprocessingOptionError('denoise', 'sigma', 0));
+      expect(() => validatePreprocessing([{ type: 'gamma', gamma: -1, },])).toThrow(getInvalidPreprocessingOptionError('gamma', 'gamma', -1));
+      expect(() => validatePreprocessing([{ type: 'colorspace', from: 'srgb', to: 'foo' as 'linear', },])).toThrow(getInvalidPreprocessingOptionError('colorspace', 'to', 'foo'));
+      expect(() => validatePreprocessing([{ type: 'downscale', scale: 2, },])).toThrow(getInvalidPreprocessingOptionError('downscale', 'scale', 2));
+    });
+  });
+
+  it('returns a normalized gaussian kernel', () => {
+    const kernel = getGaussianKernel(1, 2);
+    expect(kernel).toHaveLength(5);
+    expect(kernel.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1);
+    expect(kernel[0]).toEqual(kernel[4]);
+    expect(kernel[2]).toBeGreaterThan(kernel[1]);
+  });
+
+  it('blurs an image without darkening its edges', () => {
+    const pixels = tf.fill([1, 4, 5, 3,], 10) as tf.Tensor4D;
+    const result = blur(pixels, 1);
+    expect(result.shape).toEqual([1, 4, 5, 3,]);
+    Array.from(result.dataSync()).forEach(value => expect(value).toBeCloseTo(10, 4));
+    tf.dispose([pixels, result,]);
+  });
+
+  it('marks the pixels on either side of block boundaries', () => {
+    expect(getBlockBoundaries(10, 4)).toEqual([0, 0, 0, 1, 1, 0, 0, 1, 1, 0,]);
+  });
+
+  describe('applyPreprocessing', () => {
+    it('returns the pixels untouched without any stages', () => {
+      const pixels = tf.ones([1, 2, 2, 3,]) as tf.Tensor4D;
+      expect(applyPreprocessing(pixels)).toBe(pixels);
+      expect(applyPreprocessing(pixels, [])).toBe(pixels);
+      pixels.dispose();
+    });
+
+    it('disposes of the given pixels', () => {
+      const pixels = tf.ones([1, 2, 2, 3,]) as tf.Tensor4D;
+      const startingTensors = tf.memory().numTensors;
+      const result = applyPreprocessing(pixels, [{ type: 'gamma', gamma: 2, }, { type: 'denoise', },]);
+      expect(pixels.isDisposed).toEqual(true);
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+      result.dispose();
+    });
+
+    it('applies a gamma', () => {
+      const pixels = tf.tensor4d([0, 51, 255,], [1, 1, 1, 3,]);
+      const result = applyPreprocessing(pixels, [{ type: 'gamma', gamma: 2, },]);
+      const [black, gray, white,] = Array.from(result.dataSync());
+      expect(black).toEqual(0);
+      expect(gray).toBeCloseTo(255 * 0.04, 3);
+      expect(white).toBeCloseTo(255, 3);
+      result.dispose();
+    });
+
+    it('converts between color spaces', () => {
+      const pixels = tf.tensor4d([0, 128, 255,], [1, 1, 1, 3,]);
+      const linear = applyPreprocessing(pixels.clone(), [{ type: 'colorspace', from: 'srgb', to: 'linear', },]);
+      expect(linear.dataSync()[1]).toBeCloseTo(255 * 0.2158605, 2);
+      const srgb = applyPreprocessing(linear, [{ type: 'colorspace', from: 'linear', to: 'srgb', },]);
+      const expected = pixels.dataSync();
+      Array.from(srgb.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(expected[i], 2));
+      tf.dispose([pixels, srgb,]);
+    });
+
+    it('reduces noise', () => {
+      const pixels = tf.tensor4d([0, 255, 0, 255, 0, 255, 0, 255, 0,], [1, 3, 3, 1,]);
+      const result = applyPreprocessing(pixels, [{ type: 'denoise', strength: 1, },]);
+      const values = Array.from(result.dataSync());
+      expect(Math.max(...values) - Math.min(...values)).toBeLessThan(255);
+      result.dispose();
+    });
+
+    it('only smooths pixels along block boundaries', () => {
+      const pixels = tf.tidy(() => tf.concat([tf.zeros([1, 4, 4, 1,]), tf.fill([1, 4, 4, 1,], 255),], 2)) as tf.Tensor4D;
+      const result = applyPreprocessing(pixels, [{ type: 'deblock', strength: 1, blockSize: 4, },]);
+      const [row,] = (result.squeeze() as tf.Tensor2D).arraySync();
+      expect(row[0]).toEqual(0);
+      expect(row[1]).toEqual(0);
+      expect(row[3]).toBeGreaterThan(0);
+      expect(row[4]).toBeLessThan(255);
+      expect(row[6]).toEqual(255);
+      result.dispose();
+    });
+
+    it('leaves the alpha channel untouched', () => {
+      const pixels = tf.tensor4d([51, 51, 51, 51,], [1, 1, 1, 4,]);
+      const result = applyPreprocessing(pixels, [{ type: 'gamma', gamma: 2, },]);
+      const values = Array.from(result.dataSync());
+      expect(values[0]).toBeCloseTo(255 * 0.04, 3);
+      expect(values[3]).toEqual(51);
+      result.dispose();
+    });
+
+    it('downscales the image', () => {
+      const pixels = tf.ones([1, 4, 6, 4,]) as tf.Tensor4D;
+      const result = applyPreprocessing(pixels, [{ type: 'downscale', scale: 0.5, },]);
+      expect(result.shape).toEqual([1, 2, 3, 4,]);
+      result.dispose();
+    });
+
+    it('runs custom stages in order', () => {
+      const pixels = tf.ones([1, 2, 2, 3,]) as tf.Tensor4D;
+      const result = applyPreprocessing(pixels, [
+        (t: tf.Tensor4D) => tf.mul(t, 3),
+        { type: 'downscale', scale: 0.5, },
+        (t: tf.Tensor4D) => tf.add(t, 1),
+      ]);
+      expect(result.shape).toEqual([1, 1, 1, 3,]);
+      Array.from(result.dataSync()).forEach(value => expect(value).toBeCloseTo(4, 4));
+      result.dispose();
+    });
+
+    it('throws before processing if given an invalid stage', () => {
+      const pixels = tf.ones([1, 2, 2, 3,]) as tf.Tensor4D;
+      const stage = jest.fn((t: tf.Tensor4D) => t);
+      expect(() => applyPreprocessing(pixels, [stage, { type: 'gamma', gamma: 0, },])).toThrow(getInvalidPreprocessingOptionError('gamma', 'gamma', 0));
+      expect(stage).not.toHaveBeenCalled();
+      expect(pixels.isDisposed).toEqual(false);
+      pixels.dispose();
+    });
+  });
+});
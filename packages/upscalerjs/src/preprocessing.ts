@@ -0,0 +1,157 @@
+import { tf, } from './dependencies.generated';
+import type {
+  ColorSpace,
+  ColorSpaceStage,
+  DeblockStage,
+  DenoiseStage,
+  PreprocessingStage,
+} from './types';
+import { resize, } from './resize';
+
+const COLOR_SPACES: ColorSpace[] = ['srgb', 'linear',];
+const DEFAULT_STRENGTH = 0.5;
+const DEFAULT_BLOCK_SIZE = 8;
+const DEFAULT_SIGMA = 1;
+
+export const getInvalidPreprocessingStageError = (type: string): Error => new Error(
+  `Unsupported preprocessing stage provided: ${type}`,
+);
+
+export const getInvalidPreprocessingOptionError = (type: string, key: string, value: number | string): Error => new Error(
+  `Invalid value provided for "${key}" of the ${type} preprocessing stage: ${value}`,
+);
+
+const isStrength = (value: number) => value >= 0 && value <= 1;
+
+// checks the options of every stage, so that invalid stages throw before any pixels are processed
+export const validatePreprocessing = (stages: PreprocessingStage[] = []): void => {
+  stages.forEach(stage => {
+    if (typeof stage === 'function') {
+      return;
+    }
+    const validate = (key: string, value: number | string, isValid: boolean) => {
+      if (!isValid) {
+        throw getInvalidPreprocessingOptionError(stage.type, key, value);
+      }
+    };
+    if (stage.type === 'deblock') {
+      const { strength = DEFAULT_STRENGTH, blockSize = DEFAULT_BLOCK_SIZE, } = stage;
+      validate('strength', strength, isStrength(strength));
+      validate('blockSize', blockSize, Number.isInteger(blockSize) && blockSize >= 2);
+    } else if (stage.type === 'denoise') {
+      const { strength = DEFAULT_STRENGTH, sigma = DEFAULT_SIGMA, } = stage;
+      validate('strength', strength, isStrength(strength));
+      validate('sigma', sigma, sigma > 0);
+    } else if (stage.type === 'gamma') {
+      validate('gamma', stage.gamma, stage.gamma > 0);
+    } else if (stage.type === 'colorspace') {
+      validate('from', stage.from, COLOR_SPACES.includes(stage.from));
+      validate('to', stage.to, COLOR_SPACES.includes(stage.to));
+    } else if (stage.type === 'downscale') {
+      validate('scale', stage.scale, stage.scale > 0 && stage.scale <= 1);
+    } else {
+      throw getInvalidPreprocessingStageError((stage as { type: string; }).type);
+    }
+  });
+};
+
+// applies a function to the color channels of an image, leaving an alpha channel untouched
+const mapColorChannels = (pixels: tf.Tensor4D, fn: (colors: tf.Tensor4D) => tf.Tensor4D): tf.Tensor4D => {
+  if (pixels.shape[3] !== 4) {
+    return fn(pixels);
+  }
+  const [colors, alpha,] = tf.split<tf.Tensor4D>(pixels, [3, 1,], 3);
+  return tf.concat([fn(colors), alpha,], 3);
+};
+
+const mix = (pixels: tf.Tensor4D, other: tf.Tensor4D, amount: number | tf.Tensor): tf.Tensor4D => tf.add(pixels, tf.mul(tf.sub(other, pixels), amount));
+
+export const getGaussianKernel = (sigma: number, radius: number): number[] => {
+  const kernel = Array.from({ length: radius * 2 + 1, }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const total = kernel.reduce((sum, weight) => sum + weight, 0);
+  return kernel.map(weight => weight / total);
+};
+
+// blurs an image with a separable gaussian kernel, mirroring the image at its edges
+export const blur = (pixels: tf.Tensor4D, sigma: number): tf.Tensor4D => {
+  const [, height, width, channels,] = pixels.shape;
+  const radius = Math.min(Math.ceil(sigma * 2), height - 1, width - 1);
+  if (radius < 1) {
+    return pixels;
+  }
+  const kernel = getGaussianKernel(sigma, radius);
+  const verticalKernel = tf.tile(tf.tensor4d(kernel, [kernel.length, 1, 1, 1,]), [1, 1, channels, 1,]);
+  const horizontalKernel = verticalKernel.reshape<tf.Tensor4D>([1, kernel.length, channels, 1,]);
+  const padded = tf.mirrorPad(pixels, [[0, 0,], [radius, radius,], [radius, radius,], [0, 0,],], 'reflect');
+  return tf.depthwiseConv2d(tf.depthwiseConv2d(padded, verticalKernel, 1, 'valid'), horizontalKernel, 1, 'valid');
+};
+
+// marks the pixels on either side of each boundary between compression blocks
+export const getBlockBoundaries = (size: number, blockSize: number): number[] => Array.from({ length: size, }, (_, i) => (
+  (i > 0 && i % blockSize === 0) || (i < size - 1 && i % blockSize === blockSize - 1) ? 1 : 0
+));
+
+const deblock = (pixels: tf.Tensor4D, { strength = DEFAULT_STRENGTH, blockSize = DEFAULT_BLOCK_SIZE, }: DeblockStage): tf.Tensor4D => {
+  const [, height, width,] = pixels.shape;
+  const mask = tf.maximum(
+    tf.tensor4d(getBlockBoundaries(height, blockSize), [1, height, 1, 1,]),
+    tf.tensor4d(getBlockBoundaries(width, blockSize), [1, 1, width, 1,]),
+  );
+  return mix(pixels, blur(pixels, DEFAULT_SIGMA), tf.mul(mask, strength));
+};
+
+const denoise = (pixels: tf.Tensor4D, { strength = DEFAULT_STRENGTH, sigma = DEFAULT_SIGMA, }: DenoiseStage): tf.Tensor4D => mix(pixels, blur(pixels, sigma), strength);
+
+// applies a function to color values normalized to the range of 0 to 1
+const mapNormalized = (pixels: tf.Tensor4D, fn: (values: tf.Tensor4D) => tf.Tensor4D): tf.Tensor4D => tf.mul(fn(tf.div(tf.clipByValue(pixels, 0, 255), 255)), 255);
+
+const convertColorSpace = (pixels: tf.Tensor4D, { from, to, }: ColorSpaceStage): tf.Tensor4D => {
+  if (from === to) {
+    return pixels;
+  }
+  return mapNormalized(pixels, values => (from === 'srgb' ?
+    tf.where(tf.lessEqual(values, 0.04045), tf.div(values, 12.92), tf.pow(tf.div(tf.add(values, 0.055), 1.055), 2.4)) :
+    tf.where(tf.lessEqual(values, 0.0031308), tf.mul(values, 12.92), tf.sub(tf.mul(tf.pow(values, 1 / 2.4), 1.055), 0.055))
+  ) as tf.Tensor4D);
+};
+
+const downscale = (pixels: tf.Tensor4D, scale: number): tf.Tensor4D => {
+  const [, height, width,] = pixels.shape;
+  return resize(pixels.squeeze([0,]), [
+    Math.max(1, Math.round(height * scale)),
+    Math.max(1, Math.round(width * scale)),
+  ]).expandDims(0);
+};
+
+const applyStage = (pixels: tf.Tensor4D, stage: PreprocessingStage): tf.Tensor4D => {
+  if (typeof stage === 'function') {
+    return stage(pixels);
+  }
+  if (stage.type === 'downscale') {
+    return downscale(pixels, stage.scale);
+  }
+  return mapColorChannels(pixels, colors => {
+    if (stage.type === 'deblock') {
+      return deblock(colors, stage);
+    }
+    if (stage.type === 'denoise') {
+      return denoise(colors, stage);
+    }
+    if (stage.type === 'gamma') {
+      return mapNormalized(colors, values => tf.pow(values, stage.gamma));
+    }
+    return convertColorSpace(colors, stage);
+  });
+};
+
+// runs an image through each preprocessing stage in order. this function disposes of the given pixels
+// if any stages are provided
+export const applyPreprocessing = (pixels: tf.Tensor4D, stages: PreprocessingStage[] = []): tf.Tensor4D => {
+  validatePreprocessing(stages);
+  if (stages.length === 0) {
+    return pixels;
+  }
+  const processedPixels = tf.tidy(() => stages.reduce(applyStage, tf.cast(pixels, 'float32')));
+  pixels.dispose();
+  return processedPixels;
+};
@@ -0,0 +1,121 @@
+import { Queue, getInvalidConcurrencyError, } from './queue';
+import { AbortError, } from './utils';
+
+type Deferred = {
+  promise: Promise<string>;
+  resolve: (value: string) => void;
+  reject: (err: Error) => void;
+};
+
+const getDeferred = (): Deferred => {
+  let resolve: Deferred['resolve'] = () => {};
+  let reject: Deferred['reject'] = () => {};
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject, };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve));
+
+describe('Queue', () => {
+  it('throws if given an invalid concurrency', () => {
+    expect(() => new Queue(0)).toThrow(getInvalidConcurrencyError(0));
+    expect(() => new Queue(1.5)).toThrow(getInvalidConcurrencyError(1.5));
+    expect(() => new Queue(Infinity)).not.toThrow();
+  });
+
+  it('runs jobs up to the given concurrency', async () => {
+    const queue = new Queue(2);
+    const deferreds = [getDeferred(), getDeferred(), getDeferred(),];
+    const fns = deferreds.map(({ promise, }) => jest.fn(() => promise));
+    const results = fns.map(fn => queue.add(fn));
+    await flush();
+    expect(fns.map(fn => fn.mock.calls.length)).toEqual([1, 1, 0,]);
+    expect(queue.running).toEqual(2);
+    expect(queue.pending).toEqual(1);
+
+    deferreds[0].resolve('foo');
+    await flush();
+    expect(fns[2]).toHaveBeenCalled();
+    expect(queue.running).toEqual(2);
+    expect(queue.pending).toEqual(0);
+
+    deferreds[1].resolve('bar');
+    deferreds[2].resolve('baz');
+    expect(await Promise.all(results)).toEqual(['foo', 'bar', 'baz',]);
+    expect(queue.running).toEqual(0);
+  });
+
+  it('starts jobs with a higher priority first', async () => {
+    const queue = new Queue(1);
+    const blocker = getDeferred();
+    const order: string[] = [];
+    const run = (name: string) => async () => {
+      order.push(name);
+      return name;
+    };
+    const results = [
+      queue.add(() => blocker.promise),
+      queue.add(run('low')),
+      queue.add(run('high'), { priority: 10, }),
+      queue.add(run('medium'), { priority: 5, }),
+      queue.add(run('second medium'), { priority: 5, }),
+    ];
+    blocker.resolve('blocker');
+    await Promise.all(results);
+    expect(order).toEqual(['high', 'medium', 'second medium', 'low',]);
+  });
+
+  it('rejects a job if it fails, and continues with the next', async () => {
+    const queue = new Queue(1);
+    const err = new Error('foo');
+    const failing = queue.add(async () => { throw err; });
+    const succeeding = queue.add(async () => 'bar');
+    await expect(failing).rejects.toThrow(err);
+    expect(await succeeding).toEqual('bar');
+  });
+
+  it('cancels a pending job when its signal is aborted', async () => {
+    const queue = new Queue(1);
+    const blocker = getDeferred();
+    const controller = new AbortController();
+    const fn = jest.fn(async () => 'foo');
+    void queue.add(() => blocker.promise);
+    const result = queue.add(fn, { signal: controller.signal, });
+    expect(queue.pending).toEqual(1);
+    controller.abort();
+    await expect(result).rejects.toThrow(AbortError);
+    expect(queue.pending).toEqual(0);
+    blocker.resolve('blocker');
+    await flush();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('rejects immediately if the signal is already aborted', async () => {
+    const queue = new Queue(1);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(queue.add(async () => 'foo', { signal: controller.signal, })).rejects.toThrow(AbortError);
+  });
+
+  it('attaches the id of a cancelled job to the error', async () => {
+    const queue = new Queue(1);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(queue.add(async () => 'foo', { signal: controller.signal, id: 'foo', })).rejects.toEqual(expect.objectContaining({ id: 'foo', }));
+  });
+
+  it('clears all pending jobs', async () => {
+    const queue = new Queue(1);
+    const blocker = getDeferred();
+    const running = queue.add(() => blocker.promise);
+    const pending = [queue.add(async () => 'foo'), queue.add(async () => 'bar'),];
+    queue.clear();
+    expect(queue.pending).toEqual(0);
+    await Promise.all(pending.map(result => expect(result).rejects.toThrow(AbortError)));
+    blocker.resolve('blocker');
+    expect(await running).toEqual('blocker');
+  });
+});
@@ -0,0 +1,84 @@
+import { AbortError, isAborted, } from './utils';
+
+export const getInvalidConcurrencyError = (concurrency: number): Error => new Error(
+  `Invalid concurrency provided, expected a positive integer or Infinity: ${concurrency}`,
+);
+
+export interface QueueJobOptions {
+  priority?: number;
+  signal?: AbortSignal;
+  id?: string;
+}
+
+interface Job {
+  priority: number;
+  run: () => Promise<void>;
+  cancel: () => void;
+  signal?: AbortSignal;
+}
+
+// runs asynchronous jobs with a limited concurrency. Jobs with a higher priority are started first;
+// jobs of equal priority are started in the order they were added.
+export class Queue {
+  _concurrency: number;
+  _jobs: Job[] = [];
+  _running = 0;
+
+  constructor(concurrency = 1) {
+    if (concurrency !== Infinity && (!Number.isInteger(concurrency) || concurrency < 1)) {
+      throw getInvalidConcurrencyError(concurrency);
+    }
+    this._concurrency = concurrency;
+  }
+
+  get pending(): number {
+    return this._jobs.length;
+  }
+
+  get running(): number {
+    return this._running;
+  }
+
+  add = <T>(fn: () => Promise<T>, { priority = 0, signal, id, }: QueueJobOptions = {}): Promise<T> => new Promise<T>((resolve, reject) => {
+    if (isAborted(signal)) {
+      reject(new AbortError(id));
+      return;
+    }
+    const onAbort = () => {
+      this._remove(job);
+      reject(new AbortError(id));
+    };
+    const job: Job = {
+      priority,
+      signal,
+      run: () => Promise.resolve().then(fn).then(resolve, reject),
+      cancel: onAbort,
+    };
+    signal?.addEventListener('abort', onAbort);
+    const index = this._jobs.findIndex(queuedJob => queuedJob.priority < priority);
+    this._jobs.splice(index === -1 ? this._jobs.length : index, 0, job);
+    this._next();
+  });
+
+  // cancels all jobs that have not yet started
+  clear = (): void => {
+    [...this._jobs,].forEach(job => job.cancel());
+  };
+
+  _remove = (job: Job): void => {
+    job.signal?.removeEventListener('abort', job.cancel);
+    this._jobs = this._jobs.filter(queuedJob => queuedJob !== job);
+  };
+
+  _next = (): void => {
+    while (this._running < this._concurrency && this._jobs.length > 0) {
+      const job = this._jobs[0];
+      this._remove(job);
+      this._running += 1;
+      void job.run().finally(() => { // skipcq: js-0098
+        this._running -= 1;
+        this._next();
+      });
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { cubic, getResampleWeights, resize, } from './resize';
+
+describe('resize', () => {
+  describe('cubic', () => {
+    it('is one at the center and zero at whole pixel offsets', () => {
+      expect(cubic(0)).toEqual(1);
+      [1, -1, 2, 3,].forEach(x => expect(cubic(x)).toBeCloseTo(0, 10));
+    });
+  });
+
+  describe('getResampleWeights', () => {
+    // expands the weights of each tap into a matrix of shape [outSize, inSize]
+    const getDenseWeights = (inSize: number, outSize: number) => {
+      const { taps, indices, weights, } = getResampleWeights(inSize, outSize);
+      const dense = Array(outSize * inSize).fill(0);
+      for (let tap = 0; tap < taps; tap++) {
+        for (let i = 0; i < outSize; i++) {
+          dense[i * inSize + indices[tap * outSize + i]] += weights[tap * outSize + i];
+        }
+      }
+      return dense;
+    };
+
+    it('returns an identity matrix when the size does not change', () => {
+      const expected = [
+        1, 0, 0,
+        0, 1, 0,
+        0, 0, 1,
+      ];
+      getDenseWeights(3, 3).forEach((weight, i) => expect(weight).toBeCloseTo(expected[i], 10));
+    });
+
+    it('returns rows that sum to one', () => {
+      [[4, 7,], [7, 4,], [10, 3,],].forEach(([inSize, outSize,]) => {
+        const weights = getDenseWeights(inSize, outSize);
+        for (let i = 0; i < outSize; i++) {
+          expect(weights.slice(i * inSize, (i + 1) * inSize).reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 5);
+        }
+      });
+    });
+
+    it('averages over every input pixel when downscaling', () => {
+      // the first output pixel covers the first four input pixels
+      expect(getDenseWeights(8, 2).slice(0, 4).every(weight => weight > 0)).toEqual(true);
+    });
+
+    it('reads a fixed number of pixels for each output pixel, however large the output', () => {
+      expect(getResampleWeights(2000, 8000).taps).toEqual(5);
+      expect(getResampleWeights(8000, 6000).taps).toEqual(7);
+      const { indices, weights, } = getResampleWeights(2000, 8000);
+      expect(indices.length).toEqual(5 * 8000);
+      expect(weights.length).toEqual(5 * 8000);
+      expect(Math.min(...indices)).toEqual(0);
+      expect(Math.max(...indices)).toEqual(1999);
+    });
+  });
+
+  describe('resize', () => {
+    it('resizes an image to the given size', () => {
+      const pixels = tf.ones([3, 5, 4,]) as tf.Tensor3D;
+      const startingTensors = tf.memory().numTensors;
+      const resized = resize(pixels, [7, 2,]);
+      expect(tf.memory().numTensors).toEqual(startingTensors + 1);
+      expect(resized.shape).toEqual([7, 2, 4,]);
+      Array.from(resized.dataSync()).forEach(value => expect(value).toBeCloseTo(1, 5));
+      tf.dispose([pixels, resized,]);
+    });
+
+    it('keeps each channel separate', () => {
+      const pixels = tf.tensor3d([[[0, 100,], [0, 100,],], [[0, 100,], [0, 100,],],]);
+      const resized = resize(pixels, [3, 3,]);
+      const [first, second,] = tf.split(resized, 2, 2);
+      Array.from(first.dataSync()).forEach(value => expect(value).toBeCloseTo(0, 5));
+      Array.from(second.dataSync()).forEach(value => expect(value).toBeCloseTo(100, 5));
+      tf.dispose([pixels, resized, first, second,]);
+    });
+
+    it('holds only tensors the size of the output in memory', async () => {
+      const pixels = tf.ones([1000, 4, 3,]) as tf.Tensor3D;
+      const startingTensors = tf.memory().numTensors;
+      const { peakBytes, result, } = await tf.profile(() => resize(pixels, [4000, 6,]));
+      const resized = result as tf.Tensor3D;
+      expect(tf.memory().numTensors).toEqual(startingTensors + 1);
+      expect(resized.shape).toEqual([4000, 6, 3,]);
+      expect(tf.tidy(() => tf.abs(tf.sub(resized, 1)).max().dataSync()[0])).toBeCloseTo(0, 5);
+      // a dense matrix of weights for the rows alone would take 4000 * 1000 * 4 = 16MB
+      expect(peakBytes).toBeLessThan(2 * 1024 * 1024);
+      tf.dispose([pixels, resized,]);
+    });
+
+    it('returns the same image when the size does not change', () => {
+      const pixels = tf.tensor3d([[[1,], [2,],], [[3,], [4,],],]);
+      const resized = resize(pixels, [2, 2,]);
+      Array.from(resized.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(i + 1, 5));
+      tf.dispose([pixels, resized,]);
+    });
+  });
+});
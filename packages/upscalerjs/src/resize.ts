@@ -0,0 +1,88 @@
+import { tf, } from './dependencies.generated';
+
+// the bicubic kernel reaches two pixels to either side of its center
+const BICUBIC_SUPPORT = 2;
+const BICUBIC_A = -0.5;
+
+// the Keys cubic convolution kernel
+export const cubic = (x: number): number => {
+  const distance = Math.abs(x);
+  if (distance < 1) {
+    return ((BICUBIC_A + 2) * distance - (BICUBIC_A + 3)) * distance * distance + 1;
+  }
+  if (distance < 2) {
+    return (((distance - 5) * distance + 8) * distance - 4) * BICUBIC_A;
+  }
+  return 0;
+};
+
+export interface ResampleWeights {
+  /**
+   * The number of input pixels each output pixel is computed from.
+   */
+  taps: number;
+  /**
+   * For each tap, the index of the input pixel it reads for every output pixel, laid out as `[taps, outSize]`.
+   */
+  indices: Int32Array;
+  /**
+   * The weight of each index, laid out as `[taps, outSize]`. Unused taps have a weight of zero.
+   */
+  weights: Float32Array;
+}
+
+// gets the input pixels, and their weights, that each of `outSize` pixels is resampled from. When downscaling, the
+// kernel is widened so that every input pixel contributes to the output, which avoids aliasing
+export const getResampleWeights = (inSize: number, outSize: number): ResampleWeights => {
+  const ratio = inSize / outSize;
+  const filterScale = Math.max(ratio, 1);
+  const support = BICUBIC_SUPPORT * filterScale;
+  // a kernel centered anywhere covers at most this many pixels
+  const taps = Math.ceil(support) * 2 + 1;
+  const indices = new Int32Array(taps * outSize);
+  const weights = new Float32Array(taps * outSize);
+  for (let i = 0; i < outSize; i++) {
+    const center = (i + 0.5) * ratio;
+    const start = Math.max(Math.floor(center - support), 0);
+    const end = Math.min(Math.ceil(center + support), inSize);
+    let total = 0;
+    for (let j = start; j < end; j++) {
+      total += cubic((j + 0.5 - center) / filterScale);
+    }
+    for (let tap = 0; tap < taps; tap++) {
+      const j = start + tap;
+      indices[tap * outSize + i] = j < end ? j : start;
+      // pixels near the edges have fewer neighbors, so weights are normalized to preserve brightness
+      weights[tap * outSize + i] = j < end ? cubic((j + 0.5 - center) / filterScale) / total : 0;
+    }
+  }
+  return { taps, indices, weights, };
+};
+
+// resamples one axis of an image as a weighted sum of gathered pixels, a tap at a time, so that only
+// tensors the size of the output are held in memory
+const resampleAxis = (pixels: tf.Tensor3D, axis: 0 | 1, outSize: number): tf.Tensor3D => {
+  const { taps, indices, weights, } = getResampleWeights(pixels.shape[axis], outSize);
+  const shape = pixels.shape.map((size, i) => i === axis ? outSize : size) as [number, number, number];
+  const weightShape = shape.map((size, i) => i === axis ? size : 1) as [number, number, number];
+  let resampled: tf.Tensor3D = tf.zeros(shape);
+  for (let tap = 0; tap < taps; tap++) {
+    const next = tf.tidy(() => resampled.add<tf.Tensor3D>(tf.mul(
+      tf.gather(pixels, tf.tensor1d(indices.subarray(tap * outSize, (tap + 1) * outSize), 'int32'), axis),
+      tf.tensor3d(weights.subarray(tap * outSize, (tap + 1) * outSize), weightShape),
+    )));
+    resampled.dispose();
+    resampled = next;
+  }
+  return resampled;
+};
+
+// resizes an image with a separable bicubic filter, resampling rows and then columns
+export const resize = (pixels: tf.Tensor3D, [height, width,]: [number, number]): tf.Tensor3D => {
+  const floatPixels = tf.cast(pixels, 'float32');
+  const rows = resampleAxis(floatPixels, 0, height);
+  floatPixels.dispose();
+  const columns = resampleAxis(rows, 1, width);
+  rows.dispose();
+  return columns;
+};
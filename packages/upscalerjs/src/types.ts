@@ -1,5 +1,5 @@
 import { tf, } from './dependencies.generated';
-import type { ModelDefinitionObjectOrFn, ModelDefinition, } from '@upscalerjs/core';
+import type { ModelDefinitionObjectOrFn, ModelDefinition, PreProcess, } from '@upscalerjs/core';
 
 export type WarmupSizesByPatchSize = {
   patchSize: number;
@@ -13,20 +13,87 @@ export interface UpscalerOptions {
    */
   model?: ModelDefinitionObjectOrFn;
   warmupSizes?: WarmupSizes[];
+  /**
+   * The number of upscale requests that may run at the same time. Additional requests are queued. Defaults to 1.
+   * Streams and videos are not queued: they are paced by their consumer, which may itself wait on a queued request,
+   * so they run alongside queued requests and do not count towards the limit.
+   */
+  concurrency?: number;
+  /**
+   * Whether to cache the model between loads, in IndexedDB in the browser or in a local directory in Node. Defaults to false.
+   */
+  cache?: boolean | ModelCacheOptions;
+  /**
+   * An ordered list of CDNs to load models from, in the browser. Each entry is either a CDN definition or a URL template containing `{name}`, `{version}`, and `{path}`. Defaults to jsdelivr, followed by unpkg.
+   */
+  cdns?: Array<CDN | string>;
+  /**
+   * Called with a number between 0 and 1 as the model's weights are downloaded.
+   */
+  onModelLoadProgress?: ModelLoadProgress;
+}
+
+export type ModelLoadProgress = (progress: number) => void;
+
+export interface UpscalerEventMap {
+  modelLoadProgress: ModelLoadProgress;
+}
+export type UpscalerEvent = keyof UpscalerEventMap;
+
+export type LoadModelOptions = Pick<UpscalerOptions, 'cache' | 'cdns'> & {
+  onProgress?: ModelLoadProgress;
+};
+
+export interface CDN {
+  name: string;
+  fn: (packageName: string, version: string, path: string) => string;
+  /**
+   * The number of milliseconds to wait for a model to load before trying the next CDN.
+   */
+  timeout?: number;
+}
+
+export interface ModelCacheOptions {
+  /**
+   * The directory to store cached models in. Only applies in Node; defaults to `~/.cache/upscalerjs`.
+   */
+  directory?: string;
+}
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+export interface ImageEncodingOptions {
+  /**
+   * The image format to encode to when returning a `base64` string, a `buffer` or a `blob`. Defaults to `png`. `webp` is only supported in the browser, as tfjs-node cannot encode it.
+   */
+  imageFormat?: ImageFormat;
+  /**
+   * A number between 0 and 1 indicating the image quality to use for lossy formats (`jpeg` and `webp`).
+   */
+  imageQuality?: number;
 }
 
 export type BASE64 = 'base64';
 export type TENSOR = 'tensor';
-export type ResultFormat = BASE64 | TENSOR | undefined;
-export type UpscaleResponse<O extends ResultFormat> = O extends BASE64 ? string : tf.Tensor3D;
+export type BUFFER = 'buffer';
+export type BLOB = 'blob';
+export type IMAGE_DATA = 'imageData';
+export type ResultFormat = BASE64 | TENSOR | BUFFER | BLOB | IMAGE_DATA | undefined;
+export type UpscaleResponse<O extends ResultFormat> = 
+  O extends TENSOR ?
+    tf.Tensor3D :
+    O extends BUFFER ?
+      Uint8Array :
+      O extends BLOB ?
+        Blob :
+        O extends IMAGE_DATA ?
+          ImageData :
+          string;
 export type ProgressResponse<O extends ResultFormat = BASE64, PO extends ResultFormat = undefined> = 
-  PO extends BASE64 ? 
-    BASE64 : 
-    PO extends TENSOR ? 
-      TENSOR :
-      O extends TENSOR ?
-        TENSOR :
-        BASE64;
+  PO extends Exclude<ResultFormat, undefined> ? 
+    PO : 
+    O extends Exclude<ResultFormat, undefined> ?
+      O :
+      BASE64;
 
 export type MultiArgProgress<O extends ResultFormat = BASE64> = (amount: number, slice: UpscaleResponse<O>, row: number, col: number) => void;
 export type SingleArgProgress = (amount: number) => void;
@@ -43,20 +110,241 @@ interface SharedArgs {
   awaitNextFrame?: boolean;
 }
 
-export interface UpscaleArgs<P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined> extends SharedArgs {
-  output?: O;
+export type AlphaMode = 'resize' | 'model';
+export type BlendMode = 'linear' | 'gaussian';
+export type Ensemble = 'none' | 'flip' | 'x8';
+export type AUTO = 'auto';
+export type ColorSpace = 'srgb' | 'linear';
+
+/**
+ * Smooths the edges of the blocks left behind by JPEG compression.
+ */
+export interface DeblockStage {
+  type: 'deblock';
+  /**
+   * How strongly to smooth block edges, between 0 and 1. Defaults to 0.5.
+   */
+  strength?: number;
+  /**
+   * The size of the compression blocks, in pixels. Defaults to 8.
+   */
+  blockSize?: number;
+}
+
+/**
+ * Blends the image with a gaussian blurred copy of itself.
+ */
+export interface DenoiseStage {
+  type: 'denoise';
+  /**
+   * How much of the blurred copy to blend in, between 0 and 1. Defaults to 0.5.
+   */
+  strength?: number;
+  /**
+   * The standard deviation of the gaussian blur, in pixels. Defaults to 1.
+   */
+  sigma?: number;
+}
+
+/**
+ * Raises each normalized color value to the power of `gamma`.
+ */
+export interface GammaStage {
+  type: 'gamma';
+  gamma: number;
+}
+
+/**
+ * Converts colors between the sRGB and linear color spaces.
+ */
+export interface ColorSpaceStage {
+  type: 'colorspace';
+  from: ColorSpace;
+  to: ColorSpace;
+}
+
+/**
+ * Downscales the image before it is upscaled, which can hide noise and compression artifacts.
+ */
+export interface DownscaleStage {
+  type: 'downscale';
+  /**
+   * The factor to downscale the image by, greater than 0 and at most 1.
+   */
+  scale: number;
+}
+
+export type PreprocessingStage = DeblockStage | DenoiseStage | GammaStage | ColorSpaceStage | DownscaleStage | PreProcess;
+
+export interface UpscaleMetadata {
   patchSize?: number;
   padding?: number;
+}
+
+export interface UpscaleArgs<P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined> extends SharedArgs, ImageEncodingOptions {
+  output?: O;
+  /**
+   * The size of patches to split the image into. If `auto`, a patch size (and, if not provided, a padding) is picked based on available memory, the current backend, the model's scale and the size of the image.
+   */
+  patchSize?: number | AUTO;
+  padding?: number;
   progress?: P;
   progressOutput?: PO;
+  /**
+   * Values for the model's additional inputs, keyed by name. Spatial inputs may be given as a tensor with the same height and width as the image.
+   */
+  inputs?: ModelInputValues;
+  /**
+   * How to upscale the alpha channel of a transparent image. `resize` (the default) upscales the alpha channel with a bilinear resize, while `model` runs the alpha channel through the model.
+   */
+  alphaMode?: AlphaMode;
+  /**
+   * If provided, overlapping padded regions of neighboring patches are feathered together with either a `linear` or `gaussian` weight mask, instead of being cropped. Requires a `padding` greater than 0.
+   */
+  blend?: BlendMode;
+  /**
+   * The number of patches to run through the model in a single inference call. Larger batches can be faster on GPU backends at the cost of memory. Defaults to 1.
+   */
+  batchSize?: number;
+  /**
+   * Runs each patch through the model on transformed copies, inverting the transforms and averaging the predictions. `flip` adds a mirrored copy, while `x8` predicts every rotation and mirroring of a patch, at the cost of eight times the inference. Defaults to `none`.
+   */
+  ensemble?: Ensemble;
+  /**
+   * Stages to process the image with, in order, before it is handed to the model's own `preprocess` function. Color stages leave an alpha channel untouched, while custom functions receive every channel. `width`, `height` and `scale` refer to the size of the original image.
+   */
+  preprocessing?: PreprocessingStage[];
+  /**
+   * If provided, called with the patch size and padding used for the upscale. Useful for inspecting the values chosen by `patchSize: 'auto'`.
+   */
+  onMetadata?: (metadata: UpscaleMetadata) => void;
+  /**
+   * The width of the upscaled image, in pixels. If only a width is provided, the height is picked to preserve the aspect ratio.
+   */
+  width?: number;
+  /**
+   * The height of the upscaled image, in pixels. If only a height is provided, the width is picked to preserve the aspect ratio.
+   */
+  height?: number;
+  /**
+   * The factor to upscale the image by, which may differ from the model's scale, like `1.5`. If the factor is larger than the model's scale, the model is run repeatedly on its own output, like four passes of a 2x model for `16`. The model's output is resized to match. Cannot be combined with `width` or `height`.
+   */
+  scale?: number;
+  /**
+   * If the request is queued, requests with a higher priority are started first. Defaults to 0.
+   */
+  priority?: number;
+  /**
+   * An identifier for the request. It can be passed to `upscaler.cancel` to cancel this request alone, and is attached to the resulting `AbortError`.
+   */
+  id?: string;
+}
+
+export interface UpscaleHandle<O extends ResultFormat = BASE64> {
+  id: string;
+  promise: Promise<UpscaleResponse<O>>;
+  cancel: () => void;
+}
+
+export type UpscaleStreamArgs<O extends ResultFormat = BASE64> = Omit<UpscaleArgs<undefined, O>, 'progress' | 'progressOutput' | 'priority' | 'id' | 'width' | 'height' | 'scale'> & {
+  /**
+   * Called with the fraction of patches upscaled so far. The upscaled tiles themselves are yielded by the stream.
+   */
+  progress?: SingleArgProgress;
+};
+
+export type UpscaleTile<O extends ResultFormat = BASE64> = {
+  row: number;
+  col: number;
+  /**
+   * The position of the tile in the upscaled image, as `[y, x]`.
+   */
+  origin: [number, number];
+  /**
+   * The size of the tile in the upscaled image, as `[height, width]`.
+   */
+  size: [number, number];
+} & Record<O extends undefined ? BASE64 : O, UpscaleResponse<O>>;
+
+export type FileFormat = 'png' | 'raw';
+
+export type UpscaleToFileArgs = Omit<UpscaleStreamArgs<TENSOR>, 'output' | 'imageFormat' | 'imageQuality' | 'progress' | 'preprocessing'> & Pick<UpscaleArgs<undefined>, 'priority' | 'id'> & {
+  /**
+   * The format of the output file. `png` (the default) writes a PNG, while `raw` writes interleaved, unencoded 8-bit pixels.
+   */
+  format?: FileFormat;
+  progress?: SingleArgProgress;
+};
+
+// the frame formats differ between the browser and Node, so they are provided by the platform's video module
+export type VideoArgs<F extends string> = Omit<UpscaleArgs<undefined, TENSOR>, 'output' | 'progress' | 'progressOutput' | 'imageFormat' | 'imageQuality' | 'priority' | 'id'> & {
+  /**
+   * The format of each upscaled frame. In the browser, `canvas` (the default), `imageBitmap` or `tensor`. In Node, `tensor` (the default), `buffer` for a PNG, or `file` to write a numbered sequence of frames to `outputDirectory`.
+   */
+  output?: F;
+  /**
+   * The rate frames are taken at. Frames of a video element are captured every `1 / fps` seconds of video, while frames of a sequence are timestamped by it. Defaults to 30.
+   */
+  fps?: number;
+  /**
+   * If true, frames are skipped whenever upscaling falls behind real time, keeping the output in step with the source. Otherwise, every frame is upscaled. Live streams, like a webcam, always drop frames. Defaults to false.
+   */
+  dropFrames?: boolean;
+  /**
+   * How much of the previous upscaled frame to blend into each frame, between 0 and 1, which reduces flickering between frames. Defaults to 0.
+   */
+  temporalSmoothing?: number;
+  /**
+   * The directory to write frames to when outputting to files. Only supported in Node.
+   */
+  outputDirectory?: string;
+  /**
+   * The format of frames written to files.
+   */
+  format?: FileFormat;
+};
+
+export interface VideoSourceFrame<I> {
+  input: I;
+  index: number;
+  /**
+   * The time of the frame in the source video, in milliseconds.
+   */
+  timestamp: number;
+}
+
+export interface VideoFrame<R> {
+  index: number;
+  /**
+   * The time of the frame in the source video, in milliseconds.
+   */
+  timestamp: number;
+  frame: R;
+}
+
+export interface ImageWriterOptions {
+  width: number;
+  height: number;
+  channels: number;
+  format?: FileFormat;
+}
+
+export interface ImageWriter {
+  write: (pixels: Uint8Array) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => void;
 }
 
 export type Layer = tf.layers.Layer;
 
 export type { PackageInformation, ProcessFn, } from '@upscalerjs/core';
 
+export type Model = tf.LayersModel | tf.GraphModel;
+
+export type ModelInputValues = Record<string, number | tf.Tensor3D>;
+
 export interface ModelPackage {
-  model: tf.LayersModel;
+  model: Model;
   modelDefinition: ModelDefinition;
 }
 
@@ -0,0 +1,10 @@
+import Upscaler from './umd';
+import { clearModelCache, } from './loadModel.generated';
+
+describe('umd', () => {
+  it('attaches clearModelCache to the upscaler', () => {
+    const umd = Upscaler as typeof Upscaler & { clearModelCache: typeof clearModelCache; };
+    expect(typeof umd.clearModelCache).toEqual('function');
+    expect(umd.clearModelCache).toBe(clearModelCache);
+  });
+});
@@ -1,6 +1,7 @@
 import { Upscaler, } from './upscaler';
 import { getRowsAndColumns, getTensorDimensions, } from './upscale';
 import { AbortError, } from './utils';
+import { clearModelCache, } from './loadModel.generated';
 
 (
   Upscaler as typeof Upscaler & {
@@ -17,5 +18,10 @@ import { AbortError, } from './utils';
     AbortError: typeof AbortError;
   }
 ).AbortError = AbortError;
+(
+  Upscaler as typeof Upscaler & {
+    clearModelCache: typeof clearModelCache;
+  }
+).clearModelCache = clearModelCache;
 
 export default Upscaler;
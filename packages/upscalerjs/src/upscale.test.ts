@@ -7,8 +7,15 @@ import {
   concatTensors,
   upscale,
   cancellableUpscale,
+  tensorAsOutput,
   WARNING_PROGRESS_WITHOUT_PATCH_SIZE,
   WARNING_UNDEFINED_PADDING,
+  WARNING_BLEND_WITHOUT_PADDING,
+  getBlendWeights,
+  blendTensors,
+  getBatchedPixels,
+  getPatchesFromBatchedPrediction,
+  GET_INVALID_BATCH_SIZE_ERROR,
   getWidthAndHeight,
   GET_INVALID_SHAPED_TENSOR,
   GetTensorDimensionsOpts,
@@ -18,18 +25,34 @@ import {
   GET_TENSOR_DIMENSION_ERROR_HEIGHT_IS_UNDEFINED,
   GET_TENSOR_DIMENSION_ERROR_WIDTH_IS_UNDEFINED,
   GET_UNDEFINED_TENSORS_ERROR,
+  GET_INVALID_OUTPUT_SIZE_ERROR,
+  GET_CONFLICTING_OUTPUT_SIZE_ERROR,
+  getOutputSize,
+  getPassCount,
 } from './upscale';
-import { tensorAsBase64 as _tensorAsBase64, getImageAsTensor as _getImageAsTensor, } from './image.generated';
+import { 
+  tensorAsBase64 as _tensorAsBase64, 
+  tensorAsBuffer as _tensorAsBuffer, 
+  tensorAsImageData as _tensorAsImageData,
+  getImageAsTensor as _getImageAsTensor, 
+  checkImageFormat as _checkImageFormat,
+} from './image.generated';
 import { wrapGenerator, isTensor as _isTensor, AbortError, } from './utils';
 import { ModelDefinition } from "@upscalerjs/core";
-import { BASE64, ModelPackage, Progress, TENSOR, } from './types';
+import { BASE64, Ensemble, ModelPackage, Progress, TENSOR, } from './types';
+import { getInvalidEnsembleError, } from './ensemble';
+import { getInvalidPreprocessingOptionError, } from './preprocessing';
 import { mockFn } from '../../../test/lib/shared/mockers';
+import { getInvalidSpatialModelInputError, getMissingModelInputError, } from './modelInputs';
 
 jest.mock('./image.generated', () => {
-  const { tensorAsBase64, getImageAsTensor, ...rest } = jest.requireActual('./image.generated');
+  const { tensorAsBase64, tensorAsBuffer, tensorAsImageData, getImageAsTensor, checkImageFormat, ...rest } = jest.requireActual('./image.generated');
   return {
     ...rest,
+    tensorAsImageData: jest.fn(tensorAsImageData),
+    checkImageFormat: jest.fn(checkImageFormat),
     tensorAsBase64: jest.fn(tensorAsBase64),
+    tensorAsBuffer: jest.fn(tensorAsBuffer),
     getImageAsTensor: jest.fn(getImageAsTensor),
   };
 });
@@ -42,7 +65,10 @@ jest.mock('./utils', () => {
 });
 
 const tensorAsBase64 = mockFn(_tensorAsBase64);
+const tensorAsBuffer = mockFn(_tensorAsBuffer);
+const tensorAsImageData = mockFn(_tensorAsImageData);
 const getImageAsTensor = mockFn(_getImageAsTensor);
+const checkImageFormat = mockFn(_checkImageFormat);
 const isTensor = mockFn(_isTensor);
 
 describe('concatTensors', () => {
@@ -74,6 +100,101 @@ describe('concatTensors', () => {
   });
 });
 
+describe('getBlendWeights', () => {
+  it('returns linear weights', () => {
+    expect(Array.from(getBlendWeights(4, 'linear').dataSync())).toEqual([0.125, 0.375, 0.625, 0.875,]);
+  });
+
+  it('returns symmetric, increasing gaussian weights', () => {
+    const weights = Array.from(getBlendWeights(4, 'gaussian').dataSync());
+    expect(weights[0]).toBeLessThan(0.125);
+    expect(weights[0] + weights[3]).toBeCloseTo(1);
+    expect(weights[1] + weights[2]).toBeCloseTo(1);
+    for (let i = 1; i < weights.length; i++) {
+      expect(weights[i]).toBeGreaterThan(weights[i - 1]);
+    }
+  });
+});
+
+describe('blendTensors', () => {
+  it('concats tensors if there is no overlap', () => {
+    const a: tf.Tensor4D = tf.ones([1, 2, 2, 1,]);
+    const b: tf.Tensor4D = tf.zeros([1, 2, 2, 1,]);
+    const result = blendTensors(a, b, 0, 2, 'linear');
+    expect(result.shape).toEqual([1, 2, 4, 1,]);
+    expect(a.isDisposed).toBe(true);
+    expect(b.isDisposed).toBe(true);
+  });
+
+  it('blends overlapping columns', () => {
+    const a: tf.Tensor4D = tf.fill([1, 1, 3, 1,], 4);
+    const b: tf.Tensor4D = tf.zeros([1, 1, 3, 1,]);
+    const result = blendTensors(a, b, 2, 2, 'linear');
+    expect(result.shape).toEqual([1, 1, 4, 1,]);
+    expect(Array.from(result.dataSync())).toEqual([4, 3, 1, 0,]);
+    expect(a.isDisposed).toBe(true);
+    expect(b.isDisposed).toBe(true);
+  });
+
+  it('blends overlapping rows', () => {
+    const a: tf.Tensor4D = tf.fill([1, 3, 1, 1,], 4);
+    const b: tf.Tensor4D = tf.zeros([1, 2, 1, 1,]);
+    const result = blendTensors(a, b, 2, 1, 'linear');
+    expect(result.shape).toEqual([1, 3, 1, 1,]);
+    expect(Array.from(result.dataSync())).toEqual([4, 3, 1,]);
+  });
+});
+
+describe('getBatchedPixels', () => {
+  const pixels = tf.range(0, 16).reshape([1, 4, 4, 1,]) as tf.Tensor4D;
+
+  it('slices a single patch', () => {
+    const result = getBatchedPixels(pixels, [{ origin: [1, 1,], size: [2, 3,], },]);
+    expect(result.shape).toEqual([1, 2, 3, 1,]);
+    expect(Array.from(result.dataSync())).toEqual([5, 6, 7, 9, 10, 11,]);
+  });
+
+  it('stacks equally sized patches into a batch', () => {
+    const result = getBatchedPixels(pixels, [
+      { origin: [0, 0,], size: [2, 2,], },
+      { origin: [2, 2,], size: [2, 2,], },
+    ]);
+    expect(result.shape).toEqual([2, 2, 2, 1,]);
+    expect(Array.from(result.dataSync())).toEqual([0, 1, 4, 5, 10, 11, 14, 15,]);
+  });
+
+  it('pads smaller patches to a common size by mirroring their edges', () => {
+    const result = getBatchedPixels(pixels, [
+      { origin: [0, 0,], size: [2, 2,], },
+      { origin: [0, 3,], size: [2, 1,], },
+    ]);
+    expect(result.shape).toEqual([2, 2, 2, 1,]);
+    expect(Array.from(result.dataSync())).toEqual([0, 1, 4, 5, 3, 3, 7, 7,]);
+  });
+});
+
+describe('getPatchesFromBatchedPrediction', () => {
+  it('returns the prediction itself for a single unpadded patch', () => {
+    const prediction = tf.ones([1, 4, 4, 3,]) as tf.Tensor4D;
+    const result = getPatchesFromBatchedPrediction(prediction, [{ origin: [0, 0,], size: [2, 2,], },], 2);
+    expect(result).toEqual([prediction,]);
+    expect(prediction.isDisposed).toBe(false);
+    prediction.dispose();
+  });
+
+  it('splits a batch and crops padding', () => {
+    const prediction = tf.range(0, 32).reshape([2, 4, 4, 1,]) as tf.Tensor4D;
+    const result = getPatchesFromBatchedPrediction(prediction, [
+      { origin: [0, 0,], size: [2, 2,], },
+      { origin: [0, 3,], size: [2, 1,], },
+    ], 2);
+    expect(result.map(t => t.shape)).toEqual([[1, 4, 4, 1,], [1, 4, 2, 1,],]);
+    expect(Array.from(result[1].dataSync())).toEqual([16, 17, 20, 21, 24, 25, 28, 29,]);
+    expect(prediction.isDisposed).toBe(true);
+    result.forEach(t => t.dispose());
+  });
+});
+
 describe('getCopyOfInput', () => {
   it('returns non-tensor input unadulterated', () => {
     const input = { foo: 'foo' } as any;
@@ -1200,7 +1321,7 @@ describe('predict', () => {
   it('should invoke progress callback with percent and slice', async () => {
     console.warn = jest.fn();
     const mockResponse = 'foobarbaz1';
-    tensorAsBase64.mockImplementation(() => mockResponse);
+    tensorAsBase64.mockImplementation(async () => mockResponse);
     const tensor = getTensor(4, 4).expandDims(0) as tf.Tensor4D;
     const patchSize = 2;
     const progress = jest.fn((_1: any, _2: any) => {});
@@ -1221,7 +1342,7 @@ describe('predict', () => {
   it('should invoke progress callback with percent, slice, row, and col', async () => {
     console.warn = jest.fn();
     const mockResponse = 'foobarbaz1';
-    tensorAsBase64.mockImplementation(() => mockResponse);
+    tensorAsBase64.mockImplementation(async () => mockResponse);
     const tensor = getTensor(4, 4).expandDims(0) as tf.Tensor4D;
     const patchSize = 2;
     const progress = jest.fn((_1: any, _2: any, _3: any, _4: any) => {});
@@ -1358,6 +1479,234 @@ describe('predict', () => {
     expect(console.warn).not.toHaveBeenCalled();
   });
 
+  it('should invoke progress callback with slice as a buffer, if progressOutput is buffer', async () => {
+    console.warn = jest.fn();
+    const mockResponse = new Uint8Array([1, 2, 3,]);
+    tensorAsBuffer.mockImplementation(async () => mockResponse);
+    tensor = getTensor(4, 2).expandDims(0) as tf.Tensor4D;
+    const patchSize = 2;
+    const progress = jest.fn((_1: any, _2: any) => {}) as Progress<BASE64, 'buffer'>;
+    await wrapGenerator(
+      predict(tensor, {
+        patchSize,
+        padding: 0,
+        progress,
+        output: 'base64',
+        progressOutput: 'buffer',
+      }, modelPackage)
+    );
+    expect(progress).toHaveBeenCalledWith(0.5, mockResponse, 0, 0);
+    expect(progress).toHaveBeenCalledWith(1, mockResponse, 1, 0);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  describe('blend', () => {
+    const getRandomTensor = (height: number, width: number) => tf.randomUniform([1, height, width, 3,], 0, 255) as tf.Tensor4D;
+
+    it('should produce the same result as whole image inference with linear blending', async () => {
+      tensor = getRandomTensor(7, 5);
+      const result = await wrapGenerator(
+        predict(tensor, {
+          patchSize: 2,
+          padding: 1,
+          blend: 'linear',
+        }, modelPackage)
+      );
+      const expected = (model.predict(tensor) as tf.Tensor4D).squeeze([0]);
+      expect(result.shape).toEqual(expected.shape);
+      Array.from(result.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(expected.dataSync()[i], 2));
+    });
+
+    it('should produce the same result as whole image inference with gaussian blending', async () => {
+      tensor = getRandomTensor(4, 9);
+      const result = await wrapGenerator(
+        predict(tensor, {
+          patchSize: 3,
+          padding: 2,
+          blend: 'gaussian',
+        }, modelPackage)
+      );
+      const expected = (model.predict(tensor) as tf.Tensor4D).squeeze([0]);
+      expect(result.shape).toEqual(expected.shape);
+      Array.from(result.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(expected.dataSync()[i], 2));
+    });
+
+    it('should invoke progress callback with cropped slices', async () => {
+      tensor = getRandomTensor(4, 4);
+      const progress = jest.fn((_1: any, _2: any) => {}) as Progress<TENSOR>;
+      await wrapGenerator(
+        predict(tensor, {
+          patchSize: 2,
+          padding: 1,
+          blend: 'linear',
+          output: 'tensor',
+          progress,
+        }, modelPackage)
+      );
+      expect(progress).toHaveBeenCalledTimes(4);
+      expect(progress).toHaveBeenCalledWith(0.25,
+        expect.objectContaining({
+          shape: [4, 4, 3,],
+        }),
+        0,
+        0,
+      );
+    });
+
+    it('should warn if provided blend without padding', async () => {
+      console.warn = jest.fn();
+      tensor = getRandomTensor(4, 4);
+      await wrapGenerator(
+        predict(tensor, {
+          patchSize: 2,
+          padding: 0,
+          blend: 'linear',
+        }, modelPackage)
+      );
+      expect(console.warn).toHaveBeenCalledWith(WARNING_BLEND_WITHOUT_PADDING);
+    });
+  });
+
+  describe('auto patch size', () => {
+    it('should pick a patch size and report it through onMetadata', async () => {
+      console.warn = jest.fn();
+      tensor = getTensor(4, 6).expandDims(0) as tf.Tensor4D;
+      const onMetadata = jest.fn();
+      const result = await wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          patchSize: 'auto',
+          onMetadata,
+        }, modelPackage)
+      );
+      expect(onMetadata).toHaveBeenCalledWith({
+        patchSize: 6,
+        padding: 0,
+      });
+      expect(console.warn).not.toHaveBeenCalled();
+      checkStartingTensorAgainstUpscaledTensor(tensor, result);
+    });
+
+    it('should report an explicit patch size and padding through onMetadata', async () => {
+      tensor = getTensor(4, 4).expandDims(0) as tf.Tensor4D;
+      const onMetadata = jest.fn();
+      await wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          patchSize: 2,
+          padding: 1,
+          onMetadata,
+        }, modelPackage)
+      );
+      expect(onMetadata).toHaveBeenCalledWith({
+        patchSize: 2,
+        padding: 1,
+      });
+    });
+  });
+
+  describe('batchSize', () => {
+    const getRandomTensor = (height: number, width: number) => tf.randomUniform([1, height, width, 3,], 0, 255) as tf.Tensor4D;
+
+    it('should group patches into batched inference calls', async () => {
+      const spy = jest.spyOn(model, 'predict');
+      spy.mockClear();
+      tensor = getTensor(4, 6).expandDims(0) as tf.Tensor4D;
+      const result = await wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          patchSize: 2,
+          padding: 0,
+          batchSize: 4,
+        }, modelPackage)
+      );
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shape: [4, 2, 2, 3,],
+        }),
+      );
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shape: [2, 2, 2, 3,],
+        }),
+      );
+      checkStartingTensorAgainstUpscaledTensor(tensor, result);
+      spy.mockRestore();
+    });
+
+    it('should produce the same result as unbatched inference with padding', async () => {
+      tensor = getRandomTensor(7, 5);
+      const args = { patchSize: 3, padding: 1, };
+      const expected = await wrapGenerator(predict(tensor as tf.Tensor4D, args, modelPackage));
+      const result = await wrapGenerator(predict(tensor as tf.Tensor4D, { ...args, batchSize: 3, }, modelPackage));
+      expect(Array.from(result.dataSync())).toEqual(Array.from(expected.dataSync()));
+    });
+
+    it('should produce the same result as unbatched inference when blending', async () => {
+      tensor = getRandomTensor(5, 7);
+      const args = { patchSize: 2, padding: 1, blend: 'linear' as const, };
+      const expected = await wrapGenerator(predict(tensor as tf.Tensor4D, args, modelPackage));
+      const result = await wrapGenerator(predict(tensor as tf.Tensor4D, { ...args, batchSize: 5, }, modelPackage));
+      expect(Array.from(result.dataSync())).toEqual(Array.from(expected.dataSync()));
+    });
+
+    it('should report progress for each patch', async () => {
+      tensor = getTensor(4, 4).expandDims(0) as tf.Tensor4D;
+      const progress = jest.fn((_1: any, _2: any, _3: any, _4: any) => {}) as Progress<TENSOR>;
+      await wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          patchSize: 2,
+          padding: 0,
+          batchSize: 3,
+          output: 'tensor',
+          progress,
+        }, modelPackage)
+      );
+      expect(progress).toHaveBeenCalledTimes(4);
+      [[0.25, 0, 0,], [0.5, 0, 1,], [0.75, 1, 0,], [1, 1, 1,],].forEach(([percent, row, col,]) => {
+        expect(progress).toHaveBeenCalledWith(percent, expect.objectContaining({ shape: [4, 4, 3,], }), row, col);
+      });
+    });
+
+    it('should throw if given an invalid batch size', async () => {
+      tensor = getTensor(2, 2).expandDims(0) as tf.Tensor4D;
+      await expect(() => wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          patchSize: 1,
+          padding: 0,
+          batchSize: 0,
+        }, modelPackage)
+      )).rejects.toThrow(GET_INVALID_BATCH_SIZE_ERROR(0));
+    });
+  });
+
+  describe('ensemble', () => {
+    it('should run each batch through the model once per transform', async () => {
+      const spy = jest.spyOn(model, 'predict');
+      spy.mockClear();
+      tensor = tf.randomUniform([1, 4, 6, 3,], 0, 255) as tf.Tensor4D;
+      const progress = jest.fn();
+      const args = { patchSize: 2, padding: 1, batchSize: 2, };
+      const expected = await wrapGenerator(predict(tensor as tf.Tensor4D, args, modelPackage));
+      spy.mockClear();
+      const result = await wrapGenerator(predict(tensor as tf.Tensor4D, { ...args, ensemble: 'x8', progress, }, modelPackage));
+      expect(spy).toHaveBeenCalledTimes(3 * 8);
+      expect(progress).toHaveBeenCalledTimes(6);
+      expect(progress).toHaveBeenLastCalledWith(1);
+      const expectedValues = expected.dataSync();
+      Array.from(result.dataSync()).forEach((value, i) => expect(value).toBeCloseTo(expectedValues[i], 4));
+      tf.dispose([expected, result,]);
+      spy.mockRestore();
+    });
+
+    it('should throw if given an invalid ensemble', async () => {
+      tensor = getTensor(2, 2).expandDims(0) as tf.Tensor4D;
+      await expect(() => wrapGenerator(
+        predict(tensor as tf.Tensor4D, {
+          ensemble: 'foo' as Ensemble,
+        }, modelPackage)
+      )).rejects.toThrow(getInvalidEnsembleError('foo'));
+    });
+  });
+
   it('should warn if provided a patchSize without padding', async () => {
     console.warn = jest.fn();
     tensor = getTensor(4, 4).expandDims(0) as tf.Tensor4D;
@@ -1381,6 +1730,71 @@ describe('predict', () => {
     expect(console.warn).toHaveBeenCalledWith(WARNING_PROGRESS_WITHOUT_PATCH_SIZE);
   });
 
+  describe('model inputs', () => {
+    // a model that adds a noise map to each channel of the image before upscaling it
+    const getNoiseModel = () => {
+      const image = tf.input({ shape: [null, null, 3,], });
+      const noise = tf.input({ shape: [null, null, 1,], });
+      const conv = tf.layers.conv2d({ filters: 3, kernelSize: 1, useBias: false, });
+      const output = tf.layers.upSampling2d({ size: [2, 2,], }).apply(
+        conv.apply(tf.layers.concatenate().apply([image, noise,])),
+      ) as tf.SymbolicTensor;
+      const noiseModel = tf.model({ inputs: [image, noise,], outputs: output, });
+      conv.setWeights([tf.tensor4d([
+        1, 0, 0,
+        0, 1, 0,
+        0, 0, 1,
+        1, 1, 1,
+      ], [1, 1, 4, 3,]),]);
+      return noiseModel;
+    };
+    const noiseModelDefinition: ModelDefinition = {
+      path: 'foo',
+      scale: 2,
+      inputs: [{ name: 'noise', spatial: true, },],
+    };
+
+    it('tiles a spatial input alongside the pixels', async () => {
+      const noiseModel = getNoiseModel();
+      const pixels = tf.randomUniform([1, 5, 7, 3,], 0, 255) as tf.Tensor4D;
+      tensor = pixels;
+      const noise = tf.randomUniform([5, 7, 1,], 0, 10) as tf.Tensor3D;
+      const expected = tf.tidy(() => tf.image.resizeNearestNeighbor(tf.add(pixels, noise.expandDims(0)) as tf.Tensor4D, [10, 14,]).squeeze([0,]));
+      const startingTensors = tf.memory().numTensors;
+      const result = await wrapGenerator(predict(pixels, {
+        patchSize: 3,
+        padding: 1,
+        batchSize: 2,
+        inputs: { noise, },
+      }, { model: noiseModel, modelDefinition: noiseModelDefinition, }));
+      expect(tf.memory().numTensors).toEqual(startingTensors + 1);
+      const difference = tf.tidy(() => tf.max(tf.abs(tf.sub(result, expected))).dataSync()[0]);
+      expect(difference).toBeLessThan(1e-3);
+      [noise, expected, result, noiseModel,].forEach(t => t.dispose());
+    });
+
+    it('fills a spatial input given a number', async () => {
+      const noiseModel = getNoiseModel();
+      const pixels = tf.zeros([1, 2, 2, 3,]) as tf.Tensor4D;
+      tensor = pixels;
+      const result = await wrapGenerator(predict(pixels, {
+        inputs: { noise: 5, },
+      }, { model: noiseModel, modelDefinition: noiseModelDefinition, }));
+      expect(Array.from(result.dataSync())).toEqual(Array(4 * 4 * 3).fill(5));
+      result.dispose();
+      noiseModel.dispose();
+    });
+
+    it('throws if an input is missing', async () => {
+      const pixels = tf.zeros([1, 2, 2, 3,]) as tf.Tensor4D;
+      tensor = pixels;
+      await expect(() => wrapGenerator(predict(pixels, {}, {
+        model,
+        modelDefinition: noiseModelDefinition,
+      }))).rejects.toThrow(getMissingModelInputError('noise'));
+    });
+  });
+
   describe('memory cleanup in predict', () => {
     it('should clear up all memory while running predict without patch size', async () => {
       const IMG_SIZE = 2;
@@ -1485,6 +1899,27 @@ describe('predict', () => {
       
       expect(tf.memory().numTensors).toEqual(startingTensors);
     });
+
+    it('should clear up all memory while running predict with a batch size', async () => {
+      const IMG_SIZE = 5;
+      tensor = getTensor(IMG_SIZE, IMG_SIZE).expandDims(0) as tf.Tensor4D;
+      const startingTensors = tf.memory().numTensors;
+      const gen = predict(tensor as tf.Tensor4D, {
+        patchSize: 2,
+        padding: 1,
+        batchSize: 4,
+      }, modelPackage);
+
+      let result = await gen.next();
+      while (!result.done) {
+        // every tensor allocated by predict is yielded, so that it can be disposed of on abort
+        const yieldedTensors = [result.value,].flat().filter(t => t !== undefined).length;
+        expect(tf.memory().numTensors - startingTensors).toEqual(yieldedTensors);
+        result = await gen.next();
+      }
+      result.value.dispose();
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+    });
   });
 });
 
@@ -1504,7 +1939,7 @@ describe('upscale', () => {
     const model = {
       predict: jest.fn(() => tf.ones([1, 2, 2, 3,])),
     } as unknown as tf.LayersModel;
-    tensorAsBase64.mockImplementation(() => 'foobarbaz4');
+    tensorAsBase64.mockImplementation(async () => 'foobarbaz4');
     const result = await wrapGenerator(upscale(img, {}, {
       model,
       modelDefinition: { scale: 2, } as ModelDefinition,
@@ -1538,6 +1973,374 @@ describe('upscale', () => {
     }
     expect(result.dataSync()).toEqual(upscaledTensor.dataSync());
   });
+
+  it('checks the image format before upscaling', async () => {
+    const error = new Error('Unsupported image format');
+    checkImageFormat.mockImplementationOnce(() => {
+      throw error;
+    });
+    getImageAsTensor.mockClear();
+    const model = {
+      predict: jest.fn(() => tf.ones([1, 2, 2, 3,])),
+    } as unknown as tf.LayersModel;
+    await expect(() => wrapGenerator(upscale(tf.ones([2, 2, 3,]) as tf.Tensor3D, { imageFormat: 'webp', }, {
+      model,
+      modelDefinition: { scale: 2, } as ModelDefinition,
+    }))).rejects.toThrow(error);
+    expect(checkImageFormat).toHaveBeenCalledWith('webp');
+    expect(getImageAsTensor).not.toHaveBeenCalled();
+    expect(model.predict).not.toHaveBeenCalled();
+  });
+
+  describe('output size', () => {
+    const getModel = () => ({
+      predict: jest.fn((pixels: tf.Tensor4D) => tf.image.resizeNearestNeighbor(pixels, [
+        pixels.shape[1] * 2,
+        pixels.shape[2] * 2,
+      ])),
+    } as unknown as tf.LayersModel);
+
+    it('resizes the upscaled image to a fractional scale', async () => {
+      const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', scale: 1.5, }, {
+        model: getModel(),
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([6, 9, 3,]);
+      Array.from(result.dataSync()).forEach(value => expect(value).toBeCloseTo(1, 5));
+      tf.dispose([img, result,]);
+    });
+
+    it('resizes the upscaled image to a given width and height', async () => {
+      const img = tf.ones([4, 6, 4,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', width: 10, height: 5, }, {
+        model: getModel(),
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([5, 10, 4,]);
+      tf.dispose([img, result,]);
+    });
+
+    it('throws before upscaling if given an invalid output size', async () => {
+      const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const startingTensors = tf.memory().numTensors;
+      await expect(() => wrapGenerator(upscale('foo', { scale: 2, width: 4, }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }))).rejects.toThrow(GET_CONFLICTING_OUTPUT_SIZE_ERROR());
+      expect(model.predict).not.toHaveBeenCalled();
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+      img.dispose();
+    });
+  });
+
+  describe('preprocessing', () => {
+    const getModel = () => ({
+      predict: jest.fn((pixels: tf.Tensor4D) => tf.image.resizeNearestNeighbor(pixels, [
+        pixels.shape[1] * 2,
+        pixels.shape[2] * 2,
+      ])),
+    } as unknown as tf.LayersModel);
+
+    it('processes the image before upscaling it', async () => {
+      const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const stage = jest.fn((pixels: tf.Tensor4D): tf.Tensor4D => tf.mul(pixels, 2));
+      const startingTensors = tf.memory().numTensors;
+      const result = await wrapGenerator(upscale('foo', {
+        output: 'tensor',
+        preprocessing: [{ type: 'downscale', scale: 0.5, }, stage,],
+      }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(stage).toHaveBeenCalledWith(expect.objectContaining({ shape: [1, 2, 3, 3,], }));
+      expect(model.predict).toHaveBeenCalledWith(expect.objectContaining({ shape: [1, 2, 3, 3,], }));
+      expect(result.shape).toEqual([4, 6, 3,]);
+      Array.from(result.dataSync()).forEach(value => expect(value).toBeCloseTo(2, 4));
+      result.dispose();
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+      img.dispose();
+    });
+
+    it('measures the output size against the original image', async () => {
+      const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const result = await wrapGenerator(upscale('foo', {
+        output: 'tensor',
+        scale: 2,
+        preprocessing: [{ type: 'downscale', scale: 0.5, },],
+      }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(model.predict).toHaveBeenCalledTimes(2);
+      expect(result.shape).toEqual([8, 12, 3,]);
+      tf.dispose([img, result,]);
+    });
+
+    describe('with spatial model inputs', () => {
+      const getModelWithInputs = () => ({
+        predict: jest.fn(([pixels,]: tf.Tensor4D[]) => tf.image.resizeNearestNeighbor(pixels, [
+          pixels.shape[1] * 2,
+          pixels.shape[2] * 2,
+        ])),
+      } as unknown as tf.LayersModel);
+      const modelDefinition: ModelDefinition = {
+        path: 'foo',
+        scale: 2,
+        inputs: [{ name: 'noise', spatial: true, },],
+      };
+
+      it('resizes inputs given at the size of the original image', async () => {
+        const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+        const noise = tf.ones([4, 6, 1,]) as tf.Tensor3D;
+        getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+        const model = getModelWithInputs();
+        const startingTensors = tf.memory().numTensors;
+        const result = await wrapGenerator(upscale('foo', {
+          output: 'tensor',
+          inputs: { noise, },
+          preprocessing: [{ type: 'downscale', scale: 0.5, },],
+        }, {
+          model,
+          modelDefinition,
+        }));
+        expect(model.predict).toHaveBeenCalledWith([
+          expect.objectContaining({ shape: [1, 2, 3, 3,], }),
+          expect.objectContaining({ shape: [1, 2, 3, 1,], }),
+        ]);
+        expect(result.shape).toEqual([4, 6, 3,]);
+        result.dispose();
+        expect(tf.memory().numTensors).toEqual(startingTensors);
+        tf.dispose([img, noise,]);
+      });
+
+      it('validates inputs against the original image', async () => {
+        const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+        const noise = tf.ones([2, 3, 1,]) as tf.Tensor3D;
+        getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+        const model = getModelWithInputs();
+        const startingTensors = tf.memory().numTensors;
+        await expect(() => wrapGenerator(upscale('foo', {
+          inputs: { noise, },
+          preprocessing: [{ type: 'downscale', scale: 0.5, },],
+        }, {
+          model,
+          modelDefinition,
+        }))).rejects.toThrow(getInvalidSpatialModelInputError('noise', [2, 3, 1,], [4, 6,]));
+        expect(model.predict).not.toHaveBeenCalled();
+        expect(tf.memory().numTensors).toEqual(startingTensors);
+        tf.dispose([img, noise,]);
+      });
+    });
+
+    it('throws before upscaling if given an invalid stage', async () => {
+      const img = tf.ones([4, 6, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const startingTensors = tf.memory().numTensors;
+      await expect(() => wrapGenerator(upscale('foo', { preprocessing: [{ type: 'gamma', gamma: 0, },], }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }))).rejects.toThrow(getInvalidPreprocessingOptionError('gamma', 'gamma', 0));
+      expect(model.predict).not.toHaveBeenCalled();
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+      img.dispose();
+    });
+  });
+
+  describe('multiple passes', () => {
+    const getModel = () => ({
+      predict: jest.fn((pixels: tf.Tensor4D) => tf.image.resizeNearestNeighbor(pixels, [
+        pixels.shape[1] * 2,
+        pixels.shape[2] * 2,
+      ])),
+    } as unknown as tf.LayersModel);
+
+    it('runs the model repeatedly to reach a large scale', async () => {
+      const img = tf.ones([2, 3, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const startingTensors = tf.memory().numTensors;
+      const result = await wrapGenerator(upscale('foo', { output: 'tensor', scale: 16, }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(model.predict).toHaveBeenCalledTimes(4);
+      expect(result.shape).toEqual([32, 48, 3,]);
+      result.dispose();
+      expect(tf.memory().numTensors).toEqual(startingTensors);
+      img.dispose();
+    });
+
+    it('resizes the result of the final pass to the output size', async () => {
+      const img = tf.ones([2, 3, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const model = getModel();
+      const result = await wrapGenerator(upscale('foo', { output: 'tensor', scale: 3, }, {
+        model,
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(model.predict).toHaveBeenCalledTimes(2);
+      expect(result.shape).toEqual([6, 9, 3,]);
+      tf.dispose([img, result,]);
+    });
+
+    it('reports progress across all passes', async () => {
+      const img = tf.ones([2, 2, 3,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const progress = jest.fn();
+      const onMetadata = jest.fn();
+      const result = await wrapGenerator(upscale('foo', { output: 'tensor', width: 8, patchSize: 2, padding: 0, progress, onMetadata, }, {
+        model: getModel(),
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([8, 8, 3,]);
+      expect(progress.mock.calls.map(([percent,]) => percent)).toEqual([
+        0.5,
+        0.5 + 0.5 / 4,
+        0.5 + 1 / 4,
+        0.5 + 1.5 / 4,
+        1,
+      ]);
+      expect(onMetadata).toHaveBeenCalledTimes(1);
+      tf.dispose([img, result,]);
+    });
+
+    it('upscales the alpha channel across all passes', async () => {
+      const img = tf.ones([2, 2, 4,]) as tf.Tensor3D;
+      getImageAsTensor.mockImplementation(async () => img.expandDims(0) as tf.Tensor4D);
+      const result = await wrapGenerator(upscale('foo', { output: 'tensor', scale: 4, }, {
+        model: getModel(),
+        modelDefinition: { scale: 2, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([8, 8, 4,]);
+      tf.dispose([img, result,]);
+    });
+  });
+
+  describe('channels', () => {
+    const scale = 2;
+    const getModel = () => ({
+      predict: jest.fn((pixels: tf.Tensor4D) => tf.image.resizeNearestNeighbor(pixels, [
+        pixels.shape[1] * scale,
+        pixels.shape[2] * scale,
+      ])),
+    } as unknown as tf.LayersModel);
+
+    it('upscales an image with an alpha channel', async () => {
+      const img = tf.tensor([[
+        [[1, 1, 1, 0], [2, 2, 2, 255]],
+        [[3, 3, 3, 255], [4, 4, 4, 0]],
+      ]]) as tf.Tensor4D;
+      getImageAsTensor.mockImplementation(async () => img.clone());
+      const model = getModel();
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', }, {
+        model,
+        modelDefinition: { scale, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([4, 4, 4,]);
+      expect(model.predict).toHaveBeenCalledTimes(1);
+      expect((model.predict as jest.Mock).mock.calls[0][0].shape).toEqual([1, 2, 2, 3,]);
+      const expectedAlpha = tf.image.resizeBilinear(img.slice([0, 0, 0, 3], [-1, -1, -1, 1]), [4, 4]).squeeze([0]);
+      expect(Array.from(result.slice([0, 0, 3], [-1, -1, 1]).dataSync())).toEqual(Array.from(expectedAlpha.dataSync()));
+    });
+
+    it('upscales an alpha channel with the model if alphaMode is model', async () => {
+      const img = tf.tensor([[
+        [[1, 1, 1, 0], [2, 2, 2, 255]],
+        [[3, 3, 3, 255], [4, 4, 4, 0]],
+      ]]) as tf.Tensor4D;
+      getImageAsTensor.mockImplementation(async () => img.clone());
+      const model = getModel();
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', alphaMode: 'model', }, {
+        model,
+        modelDefinition: { scale, } as ModelDefinition,
+      }));
+      expect(result.shape).toEqual([4, 4, 4,]);
+      expect(model.predict).toHaveBeenCalledTimes(2);
+      const alpha = Array.from(result.slice([0, 0, 3], [-1, -1, 1]).dataSync());
+      const expectedAlpha = [0, 0, 255, 255, 0, 0, 255, 255, 255, 255, 0, 0, 255, 255, 0, 0,];
+      alpha.forEach((value, i) => expect(value).toBeCloseTo(expectedAlpha[i], 3));
+    });
+
+    it('round trips a grayscale image through an RGB model', async () => {
+      const img = tf.tensor([[
+        [[1], [2]],
+        [[3], [4]],
+      ]]) as tf.Tensor4D;
+      getImageAsTensor.mockImplementation(async () => img.clone());
+      const model = getModel();
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', }, {
+        model,
+        modelDefinition: { scale, } as ModelDefinition,
+      }));
+      expect((model.predict as jest.Mock).mock.calls[0][0].shape).toEqual([1, 2, 2, 3,]);
+      expect(result.shape).toEqual([4, 4, 1,]);
+      expect(result.dataSync()[0]).toBeCloseTo(1);
+    });
+
+    it('converts an RGB image for a grayscale model', async () => {
+      const img = tf.ones([1, 2, 2, 3]) as tf.Tensor4D;
+      getImageAsTensor.mockImplementation(async () => img.clone());
+      const model = getModel();
+      const result = await wrapGenerator(upscale(img, { output: 'tensor', }, {
+        model,
+        modelDefinition: { scale, channels: 1, } as ModelDefinition,
+      }));
+      expect((model.predict as jest.Mock).mock.calls[0][0].shape).toEqual([1, 2, 2, 1,]);
+      expect(result.shape).toEqual([4, 4, 3,]);
+    });
+  });
+});
+
+describe('tensorAsOutput', () => {
+  beforeEach(() => {
+    tensorAsBase64.mockClear();
+    tensorAsBuffer.mockClear();
+  });
+
+  it('returns the tensor itself if output is tensor', async () => {
+    const t: tf.Tensor3D = tf.ones([2, 2, 3,]);
+    const result = await tensorAsOutput(t, 'tensor');
+    expect(result).toBe(t);
+    expect(t.isDisposed).toEqual(false);
+  });
+
+  it('returns base64 if output is undefined', async () => {
+    tensorAsBase64.mockImplementation(async () => 'foobarbaz7');
+    const t: tf.Tensor3D = tf.ones([2, 2, 3,]);
+    expect(await tensorAsOutput(t)).toEqual('foobarbaz7');
+  });
+
+  it('returns a buffer and passes through encoding options', async () => {
+    const mockResponse = new Uint8Array([1, 2, 3,]);
+    tensorAsBuffer.mockImplementation(async () => mockResponse);
+    const t: tf.Tensor3D = tf.ones([2, 2, 3,]);
+    expect(await tensorAsOutput(t, 'buffer', { imageFormat: 'jpeg', imageQuality: 0.5, })).toEqual(mockResponse);
+    expect(tensorAsBuffer).toHaveBeenCalledWith(t, { imageFormat: 'jpeg', imageQuality: 0.5, });
+  });
+
+  it('returns image data', async () => {
+    // ImageData is only defined in the browser, so an object of the same shape is returned
+    const mockResponse = {
+      data: new Uint8ClampedArray(2 * 3 * 4),
+      width: 3,
+      height: 2,
+      colorSpace: 'srgb',
+    } as ImageData;
+    tensorAsImageData.mockImplementation(() => mockResponse);
+    const t: tf.Tensor3D = tf.ones([2, 3, 3,]);
+    expect(await tensorAsOutput(t, 'imageData')).toBe(mockResponse);
+    expect(tensorAsImageData).toHaveBeenCalledWith(t);
+  });
 });
 
 describe('cancellableUpscale', () => {
@@ -1620,7 +2423,7 @@ describe('cancellableUpscale', () => {
 
   it('returns processed pixels', async () => {
     const mockResponse = 'foobarbaz6';
-    tensorAsBase64.mockImplementation(() => mockResponse);
+    tensorAsBase64.mockImplementation(async () => mockResponse);
     const img: tf.Tensor4D = tf.ones([4, 4, 3,]).expandDims(0);
     getImageAsTensor.mockImplementation(async () => img);
     const controller = new AbortController();
@@ -1644,6 +2447,55 @@ describe('cancellableUpscale', () => {
   });
 });
 
+describe('getOutputSize', () => {
+  it('returns undefined if no output size is requested', () => {
+    expect(getOutputSize([4, 6,], {})).toEqual(undefined);
+  });
+
+  it('returns a size for a fractional scale', () => {
+    expect(getOutputSize([4, 6,], { scale: 1.5, })).toEqual([6, 9,]);
+    expect(getOutputSize([3, 3,], { scale: 3.3, })).toEqual([10, 10,]);
+  });
+
+  it('returns the given width and height', () => {
+    expect(getOutputSize([4, 6,], { width: 7, height: 3, })).toEqual([3, 7,]);
+  });
+
+  it('preserves the aspect ratio if given only a width or height', () => {
+    expect(getOutputSize([4, 6,], { width: 12, })).toEqual([8, 12,]);
+    expect(getOutputSize([4, 6,], { height: 2, })).toEqual([2, 3,]);
+  });
+
+  it('throws if given invalid values', () => {
+    expect(() => getOutputSize([4, 6,], { width: 0, })).toThrow(GET_INVALID_OUTPUT_SIZE_ERROR('width', 0));
+    expect(() => getOutputSize([4, 6,], { height: 1.5, })).toThrow(GET_INVALID_OUTPUT_SIZE_ERROR('height', 1.5));
+    expect(() => getOutputSize([4, 6,], { scale: -1, })).toThrow(GET_INVALID_OUTPUT_SIZE_ERROR('scale', -1));
+    expect(() => getOutputSize([4, 6,], { scale: 2, height: 4, })).toThrow(GET_CONFLICTING_OUTPUT_SIZE_ERROR());
+  });
+});
+
+describe('getPassCount', () => {
+  it('returns a single pass if no output size is requested', () => {
+    expect(getPassCount(2, [4, 6,])).toEqual(1);
+  });
+
+  it('returns a single pass if the model reaches the output size', () => {
+    expect(getPassCount(2, [4, 6,], [8, 12,])).toEqual(1);
+    expect(getPassCount(4, [4, 6,], [6, 9,])).toEqual(1);
+  });
+
+  it('returns the number of passes required to reach the output size', () => {
+    expect(getPassCount(2, [4, 6,], [64, 96,])).toEqual(4);
+    expect(getPassCount(4, [4, 6,], [64, 96,])).toEqual(2);
+    expect(getPassCount(4, [4, 6,], [20, 30,])).toEqual(2);
+    expect(getPassCount(2, [4, 6,], [4, 30,])).toEqual(3);
+  });
+
+  it('returns a single pass for models that do not upscale', () => {
+    expect(getPassCount(1, [4, 6,], [64, 96,])).toEqual(1);
+  });
+});
+
 describe('getWidthAndHeight', () => {
   it('throws if given a too small tensor', () => {
     const t = tf.zeros([2,2]) as unknown as tf.Tensor3D;
@@ -6,11 +6,26 @@ import type {
   Progress, 
   MultiArgProgress,
   ModelPackage,
+  BlendMode,
   BASE64,
   TENSOR,
   YieldedIntermediaryValue,
+  ImageEncodingOptions,
+  UpscaleMetadata,
+  AUTO,
+  ModelInputValues,
+  PreprocessingStage,
  } from './types';
-import { getImageAsTensor, tensorAsBase64, GetImageAsTensorInput, } from './image.generated';
+import type { ModelDefinition, } from '@upscalerjs/core';
+import { 
+  getImageAsTensor, 
+  tensorAsBase64, 
+  tensorAsBuffer,
+  tensorAsBlob,
+  tensorAsImageData,
+  checkImageFormat,
+  GetImageAsTensorInput, 
+} from './image.generated';
 import { 
   wrapGenerator, 
   warn, 
@@ -20,11 +35,26 @@ import {
   isThreeDimensionalTensor,
   isFourDimensionalTensor,
   processAndDisposeOfTensor,
+  getChannels,
+  getModelChannels,
+  convertChannels,
+  splitAlphaChannel,
+  attachAlphaChannel,
  } from './utils';
 import { makeTick, } from './makeTick';
+import { getModelInputs, resizeModelInputs, validateModelInputs, } from './modelInputs';
+import { resize, } from './resize';
+import { getEnsemblePrediction, getEnsembleTransforms, } from './ensemble';
+import { applyPreprocessing, } from './preprocessing';
+import { getAutoPatchSize, } from './patchSize';
 
 type DEFAULT_OUTPUT = BASE64;
 
+interface UpscalePass {
+  pass: number;
+  passes: number;
+}
+
 const WARNING_UNDEFINED_PADDING_URL =
   'https://upscalerjs.com/documentation/troubleshooting#padding-is-undefined';
 
@@ -44,6 +74,15 @@ export const WARNING_PROGRESS_WITHOUT_PATCH_SIZE = [
   `For more information, see ${WARNING_PROGRESS_WITHOUT_PATCH_SIZE_URL}.`,
 ].join('\n');
 
+const WARNING_BLEND_WITHOUT_PADDING_URL =
+  'https://upscalerjs.com/documentation/troubleshooting#blend-specified-without-padding';
+
+export const WARNING_BLEND_WITHOUT_PADDING = [
+  'The "blend" option was provided but "padding" is 0 or undefined.',
+  'Blending is applied to the overlapping, padded regions of neighboring patches; without padding, there is nothing to blend.',
+  `For more information, see ${WARNING_BLEND_WITHOUT_PADDING_URL}.`,
+].join('\n');
+
 export const GET_INVALID_SHAPED_TENSOR = (tensor: tf.Tensor): Error => new Error(
   `Invalid shape provided to getWidthAndHeight, expected tensor of rank 3 or 4: ${JSON.stringify(
     tensor.shape,
@@ -52,6 +91,18 @@ export const GET_INVALID_SHAPED_TENSOR = (tensor: tf.Tensor): Error => new Error
 
 export const GET_UNDEFINED_TENSORS_ERROR = () => new Error('No defined tensors were passed to concatTensors');
 
+export const GET_INVALID_BATCH_SIZE_ERROR = (batchSize: number) => new Error(
+  `Invalid batch size provided, expected a positive integer: ${batchSize}`,
+);
+
+export const GET_INVALID_OUTPUT_SIZE_ERROR = (key: string, value: number) => new Error(
+  `Invalid ${key} provided, expected a positive number: ${value}`,
+);
+
+export const GET_CONFLICTING_OUTPUT_SIZE_ERROR = () => new Error(
+  'Provide either a scale, or a width and height, but not both',
+);
+
 export const getWidthAndHeight = (tensor: tf.Tensor3D | tf.Tensor4D): [number, number] => {
   if (isFourDimensionalTensor(tensor)) {
     return [tensor.shape[1], tensor.shape[2],];
@@ -262,133 +313,490 @@ export function concatTensors<T extends tf.Tensor3D | tf.Tensor4D> (tensors: Arr
   return concatenatedTensor as T;
 }
 
-/* eslint-disable @typescript-eslint/require-await */
-export async function* predict<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+export interface PatchDimensions {
+  origin: [number, number];
+  size: [number, number];
+}
+
+// slices patches out of pixels and stacks them into a single batch. Patches smaller than
+// the largest patch in the batch are padded on their bottom and right edges to a common size
+export const getBatchedPixels = (pixels: tf.Tensor4D, patches: PatchDimensions[]): tf.Tensor4D => tf.tidy(() => {
+  const batchHeight = Math.max(...patches.map(({ size, }) => size[0]));
+  const batchWidth = Math.max(...patches.map(({ size, }) => size[1]));
+  const slices = patches.map(({ origin, size, }) => {
+    const slicedPixels = pixels.slice(
+      [0, origin[0], origin[1],],
+      [-1, size[0], size[1],],
+    );
+    const paddings: Array<[number, number]> = [
+      [0, 0,],
+      [0, batchHeight - size[0],],
+      [0, batchWidth - size[1],],
+      [0, 0,],
+    ];
+    if (paddings[1][1] === 0 && paddings[2][1] === 0) {
+      return slicedPixels;
+    }
+    // mirror the edge of the patch where possible to avoid introducing a hard border
+    if (paddings[1][1] <= size[0] && paddings[2][1] <= size[1]) {
+      return tf.mirrorPad(slicedPixels, paddings, 'symmetric');
+    }
+    return tf.pad(slicedPixels, paddings);
+  });
+  return slices.length === 1 ? slices[0] : tf.concat<tf.Tensor4D>(slices, 0);
+});
+
+// splits a batched prediction back into individual patches, cropping any padding added by
+// getBatchedPixels; this function disposes of the batched prediction
+export const getPatchesFromBatchedPrediction = (
+  batchedPrediction: tf.Tensor4D,
+  patches: PatchDimensions[],
+  scale: number,
+): tf.Tensor4D[] => {
+  const [batchHeight, batchWidth,] = getWidthAndHeight(batchedPrediction);
+  if (patches.length === 1 && patches[0].size[0] * scale === batchHeight && patches[0].size[1] * scale === batchWidth) {
+    return [batchedPrediction,];
+  }
+  const predictions = patches.map(({ size, }, i) => batchedPrediction.slice(
+    [i, 0, 0, 0,],
+    [1, size[0] * scale, size[1] * scale, -1,],
+  ));
+  batchedPrediction.dispose();
+  return predictions;
+};
+
+// the standard deviation of the gaussian ramp, relative to the width of the overlap
+const GAUSSIAN_BLEND_SIGMA = 1 / 6;
+
+// returns the weights for the second of two overlapping tensors, ramping from 0 to 1 across the overlap
+export const getBlendWeights = (size: number, blend: BlendMode): tf.Tensor1D => tf.tidy(() => {
+  const positions = tf.linspace(0.5 / size, 1 - 0.5 / size, size);
+  if (blend === 'gaussian') {
+    return tf.erf(positions.sub(0.5).div(GAUSSIAN_BLEND_SIGMA * Math.SQRT2)).add(1).div(2);
+  }
+  return positions;
+});
+
+// concatenates two tensors along an axis, feathering the region where they overlap;
+// this function disposes of the input tensors
+export function blendTensors(a: tf.Tensor4D, b: tf.Tensor4D, overlap: number, axis: 1 | 2, blend: BlendMode): tf.Tensor4D {
+  if (overlap <= 0) {
+    return concatTensors<tf.Tensor4D>([a, b,], axis);
+  }
+  const blendedTensor = tf.tidy(() => {
+    const sliceAlongAxis = (t: tf.Tensor4D, begin: number, size: number): tf.Tensor4D => tf.slice(
+      t,
+      [0, axis === 1 ? begin : 0, axis === 2 ? begin : 0, 0,],
+      [-1, axis === 1 ? size : -1, axis === 2 ? size : -1, -1,],
+    );
+    const aSize = a.shape[axis];
+    const weights = getBlendWeights(overlap, blend).reshape(axis === 1 ? [1, overlap, 1, 1,] : [1, 1, overlap, 1,]);
+    const blendedOverlap: tf.Tensor4D = tf.add(
+      tf.mul(sliceAlongAxis(a, aSize - overlap, overlap), tf.sub(1, weights)),
+      tf.mul(sliceAlongAxis(b, 0, overlap), weights),
+    );
+    return tf.concat<tf.Tensor4D>([
+      sliceAlongAxis(a, 0, aSize - overlap),
+      blendedOverlap,
+      sliceAlongAxis(b, overlap, b.shape[axis] - overlap),
+    ], axis);
+  });
+  a.dispose();
+  b.dispose();
+  return blendedTensor;
+}
+
+// converts a tensor to the requested output format; the tensor itself is not disposed of
+export async function tensorAsOutput<O extends ResultFormat>(
+  tensor: tf.Tensor3D,
+  output?: O,
+  encodingOptions?: ImageEncodingOptions,
+): Promise<UpscaleResponse<O>> {
+  if (output === 'tensor') {
+    return <UpscaleResponse<O>>tensor;
+  }
+  if (output === 'buffer') {
+    return <UpscaleResponse<O>>await tensorAsBuffer(tensor, encodingOptions);
+  }
+  if (output === 'blob') {
+    return <UpscaleResponse<O>>await tensorAsBlob(tensor, encodingOptions);
+  }
+  if (output === 'imageData') {
+    return <UpscaleResponse<O>>tensorAsImageData(tensor);
+  }
+  return <UpscaleResponse<O>>await tensorAsBase64(tensor, encodingOptions);
+}
+
+// resolves an "auto" patch size to concrete values, warning if an explicit patch size lacks padding
+export const resolvePatchSize = (
+  pixels: tf.Tensor4D,
+  modelDefinition: ModelDefinition,
+  patchSize?: number | AUTO,
+  padding?: number,
+): UpscaleMetadata => {
+  if (patchSize === 'auto') {
+    return getAutoPatchSize(pixels, modelDefinition, padding);
+  }
+  if (patchSize && padding === undefined) {
+    warn(WARNING_UNDEFINED_PADDING);
+  }
+  return {
+    patchSize,
+    padding,
+  };
+};
+
+// validates the arguments to predict, returning the patch size and padding to upscale with
+export const checkPredictionArgs = <P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
   pixels: tf.Tensor4D,
-  { output, progress, patchSize: originalPatchSize, padding, progressOutput, }: UpscaleArgs<P, O, PO>,
   {
-    model,
-    modelDefinition,
-  }: ModelPackage
-): AsyncGenerator<YieldedIntermediaryValue, tf.Tensor3D> {
-  const scale = modelDefinition.scale;
+    patchSize: originalPatchSize,
+    padding: originalPadding,
+    blend,
+    batchSize = 1,
+    ensemble,
+    onMetadata,
+    inputs,
+  }: UpscaleArgs<P, O, PO>,
+  modelDefinition: ModelDefinition,
+): UpscaleMetadata => {
+  const { patchSize, padding, } = resolvePatchSize(pixels, modelDefinition, originalPatchSize, originalPadding);
+
+  if (onMetadata) {
+    onMetadata({
+      patchSize,
+      padding,
+    });
+  }
 
-  if (originalPatchSize && padding === undefined) {
-    warn(WARNING_UNDEFINED_PADDING);
+  if (patchSize && blend && !padding) {
+    warn(WARNING_BLEND_WITHOUT_PADDING);
   }
 
-  const patchSize = originalPatchSize;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw GET_INVALID_BATCH_SIZE_ERROR(batchSize);
+  }
 
-  if (patchSize) {
-    const [height, width,] = pixels.shape.slice(1);
-    const { rows, columns, } = getRowsAndColumns(pixels, patchSize);
-    yield;
-    let upscaledTensor: undefined | tf.Tensor4D;
-    const total = rows * columns;
-    for (let row = 0; row < rows; row++) {
-      let colTensor: undefined | tf.Tensor4D;
-      yield [colTensor, upscaledTensor,];
-      for (let col = 0; col < columns; col++) {
-        const { origin, size, sliceOrigin, sliceSize, } = getTensorDimensions({
-          row,
-          col,
-          patchSize,
-          padding,
-          height,
-          width,
-        });
-        yield [upscaledTensor, colTensor,];
-        const slicedPixels = pixels.slice(
-          [0, origin[0], origin[1],],
-          [-1, size[0], size[1],],
-        );
-        yield [upscaledTensor, colTensor, slicedPixels,];
-        const prediction = model.predict(slicedPixels) as tf.Tensor4D;
-        slicedPixels.dispose();
-        yield [upscaledTensor, colTensor, prediction,];
+  getEnsembleTransforms(ensemble);
+
+  validateModelInputs(modelDefinition, inputs, getWidthAndHeight(pixels));
 
-        const startSlice = [0, sliceOrigin[0] * scale, sliceOrigin[1] * scale,];
-        const endSlice = [-1, sliceSize[0] * scale, sliceSize[1] * scale,];
+  return {
+    patchSize,
+    padding,
+  };
+};
+
+// a strip of the upscaled image, spanning its full width
+export interface UpscaledRow {
+  row: number;
+  /**
+   * The row of the upscaled image the strip starts at.
+   */
+  top: number;
+  pixels: tf.Tensor4D;
+  /**
+   * The column of the upscaled image each patch in the strip starts at.
+   */
+  columns: number[];
+  /**
+   * Tensors still held by the generator that yielded the strip.
+   */
+  retainedTensors: Array<tf.Tensor4D | undefined>;
+}
+
+export const isUpscaledRow = (value: YieldedIntermediaryValue | UpscaledRow): value is UpscaledRow => value !== undefined && !Array.isArray(value) && !isTensor(value);
+
+// combines a yielded value with additional tensors, so that all of them can be disposed of on abort
+export const mergeYieldedValues = (
+  value: YieldedIntermediaryValue,
+  tensors: Array<tf.Tensor3D | tf.Tensor4D | undefined>,
+): YieldedIntermediaryValue => (Array.isArray(value) ? [...value, ...tensors,] : [value, ...tensors,]);
+
+// advances a generator to its next upscaled row, yielding any intermediary values along with the given tensors
+export async function* getNextRow(
+  rows: AsyncGenerator<YieldedIntermediaryValue | UpscaledRow, void>,
+  retainedTensors: Array<tf.Tensor3D | tf.Tensor4D | undefined> = [],
+): AsyncGenerator<YieldedIntermediaryValue, UpscaledRow | undefined> {
+  for (let result = await rows.next(); !result.done; result = await rows.next()) {
+    if (isUpscaledRow(result.value)) {
+      return result.value;
+    }
+    yield mergeYieldedValues(result.value, retainedTensors);
+  }
+  return undefined;
+}
+
+// upscales pixels patch by patch, yielding each finished strip of the upscaled image from top to bottom.
+// when blending, the bottom of each row of patches is held back until it has been blended with the next row.
+// without a patch size, the whole image is upscaled as a single patch.
+export async function* predictRows<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  pixels: tf.Tensor4D,
+  {
+    output,
+    progress,
+    progressOutput,
+    imageFormat,
+    imageQuality,
+    blend,
+    batchSize = 1,
+    ensemble,
+    inputs,
+  }: UpscaleArgs<P, O, PO>,
+  {
+    model,
+    modelDefinition,
+  }: ModelPackage,
+  { patchSize: originalPatchSize, padding: originalPadding = 0, }: UpscaleMetadata,
+  { pass = 0, passes = 1, }: Partial<UpscalePass> = {},
+): AsyncGenerator<YieldedIntermediaryValue | UpscaledRow, void> {
+  const scale = modelDefinition.scale;
+  const [height, width,] = getWidthAndHeight(pixels);
+  const patchSize = originalPatchSize || Math.max(height, width);
+  const padding = originalPatchSize ? originalPadding : 0;
+  const { rows, columns, } = getRowsAndColumns(pixels, patchSize);
+  const total = rows * columns;
+  const getDimensions = (index: number) => getTensorDimensions({
+    row: Math.floor(index / columns),
+    col: index % columns,
+    patchSize,
+    padding,
+    height,
+    width,
+  });
+  const columnOrigins = Array.from({ length: columns, }, (_, col) => {
+    const { origin, sliceOrigin, } = getDimensions(col);
+    return (origin[1] + sliceOrigin[1]) * scale;
+  });
+  yield;
+  // the upscaled rows that have not yet been yielded, which span the original image from pendingTop to pendingEnd
+  let pending: undefined | tf.Tensor4D;
+  let pendingTop = 0;
+  let pendingEnd = 0;
+  let yieldedRows = 0;
+  // predictions for upcoming patches, inferred ahead of time as part of a batch
+  let pendingPredictions: tf.Tensor4D[] = [];
+  for (let row = 0; row < rows; row++) {
+    let colTensor: undefined | tf.Tensor4D;
+    let colTensorEnd = 0;
+    let rowOrigin = 0;
+    let rowSize = 0;
+    yield [colTensor, pending, ...pendingPredictions,];
+    for (let col = 0; col < columns; col++) {
+      const { origin, size, sliceOrigin, sliceSize, } = getDimensions(row * columns + col);
+      yield [pending, colTensor, ...pendingPredictions,];
+      if (pendingPredictions.length === 0) {
+        const patches: PatchDimensions[] = [];
+        const batchStart = row * columns + col;
+        for (let index = batchStart; index < Math.min(batchStart + batchSize, total); index++) {
+          patches.push(getDimensions(index));
+        }
+        const batchedPixels = getBatchedPixels(pixels, patches);
+        yield [pending, colTensor, batchedPixels,];
+        const modelInputs = getModelInputs(modelDefinition, inputs, batchedPixels, input => getBatchedPixels(input, patches));
+        const batchedPrediction = getEnsemblePrediction(model, batchedPixels, modelInputs, ensemble);
+        batchedPixels.dispose();
+        modelInputs.forEach(input => input.dispose());
+        pendingPredictions = getPatchesFromBatchedPrediction(batchedPrediction, patches, scale);
+      }
+      /* eslint-disable @typescript-eslint/no-non-null-assertion */
+      const prediction = pendingPredictions.shift()!;
+      yield [pending, colTensor, prediction, ...pendingPredictions,];
+
+      const startSlice = [0, sliceOrigin[0] * scale, sliceOrigin[1] * scale,];
+      const endSlice = [-1, sliceSize[0] * scale, sliceSize[1] * scale,];
+      let processedPrediction: tf.Tensor4D;
+      if (blend) {
+        // when blending, the padded regions of the prediction are kept so that they can be
+        // feathered into neighboring patches
+        processedPrediction = processAndDisposeOfTensor(prediction, modelDefinition.postprocess);
+      } else {
         const slicedPrediction = prediction.slice(
           startSlice, endSlice,
         );
         prediction.dispose();
-        yield [upscaledTensor, colTensor, slicedPrediction,];
-        const processedPrediction = processAndDisposeOfTensor(slicedPrediction, modelDefinition.postprocess);
-        yield [upscaledTensor, colTensor, processedPrediction,];
-
-        if (progress !== undefined && isProgress(progress)) {
-          const index = row * columns + col + 1;
-          const percent = index / total;
-          if (progress.length <= 1) {
-            progress(percent);
+        yield [pending, colTensor, slicedPrediction, ...pendingPredictions,];
+        processedPrediction = processAndDisposeOfTensor(slicedPrediction, modelDefinition.postprocess);
+      }
+      yield [pending, colTensor, processedPrediction, ...pendingPredictions,];
+
+      if (progress !== undefined && isProgress(progress)) {
+        const index = row * columns + col + 1;
+        // when upscaling in multiple passes, progress is reported across all of them
+        const percent = (pass + index / total) / passes;
+        if (progress.length <= 1) {
+          progress(percent);
+        } else {
+          /* eslint-disable @typescript-eslint/no-unnecessary-type-assertion */
+          const squeezedTensor = tf.tidy(() => (blend ? processedPrediction.slice(startSlice, endSlice) : processedPrediction).squeeze([0,]) as tf.Tensor3D);
+          if (isMultiArgTensorProgress(progress, output, progressOutput)) {
+            // because we are returning a tensor, we cannot safely dispose of it
+            (<MultiArgProgress<TENSOR>>progress)(percent, squeezedTensor, row, col);
           } else {
-            /* eslint-disable @typescript-eslint/no-unnecessary-type-assertion */
-            const squeezedTensor = processedPrediction.squeeze() as tf.Tensor3D;
-            if (isMultiArgTensorProgress(progress, output, progressOutput)) {
-              // because we are returning a tensor, we cannot safely dispose of it
-              (<MultiArgProgress<TENSOR>>progress)(percent, squeezedTensor, row, col);
-            } else {
-              // because we are returning a string, we can safely dispose of our tensor
-              const src = tensorAsBase64(squeezedTensor);
-              squeezedTensor.dispose();
-              (<MultiArgProgress<BASE64>>progress)(percent, src, row, col);
-            }
+            // because we are returning an encoded slice, we can safely dispose of our tensor
+            const sliceOutput = (progressOutput || output) as Exclude<ResultFormat, TENSOR>;
+            const slice = await tensorAsOutput(squeezedTensor, sliceOutput, { imageFormat, imageQuality, });
+            squeezedTensor.dispose();
+            (<MultiArgProgress<Exclude<ResultFormat, TENSOR>>>progress)(percent, slice, row, col);
           }
         }
-        yield [upscaledTensor, colTensor, processedPrediction,];
-
+      }
+      yield [pending, colTensor, processedPrediction, ...pendingPredictions,];
+
+      if (blend) {
+        colTensor = colTensor === undefined ? processedPrediction : blendTensors(
+          colTensor,
+          processedPrediction,
+          (colTensorEnd - origin[1]) * scale,
+          2,
+          blend,
+        );
+        colTensorEnd = origin[1] + size[1];
+        rowOrigin = origin[0];
+        rowSize = size[0];
+      } else {
         colTensor = concatTensors<tf.Tensor4D>([colTensor, processedPrediction,], 2);
         processedPrediction.dispose();
-        yield [upscaledTensor, colTensor,];
+        rowOrigin = origin[0] + sliceOrigin[0];
+        rowSize = sliceSize[0];
       }
+      yield [pending, colTensor, ...pendingPredictions,];
+    }
 
-      upscaledTensor = concatTensors<tf.Tensor4D>([upscaledTensor, colTensor,], 1);
+    /* eslint-disable @typescript-eslint/no-non-null-assertion */
+    if (pending === undefined) {
+      pending = colTensor!;
+      pendingTop = rowOrigin;
+    } else if (blend) {
+      pending = blendTensors(
+        pending,
+        colTensor!,
+        (pendingEnd - rowOrigin) * scale,
+        1,
+        blend,
+      );
+    }
+    pendingEnd = rowOrigin + rowSize;
+
+    // everything above the next row of patches is final, since only overlapping rows are blended.
+    // the last rows of patches are shifted up to fit within the image, so the next row may overlap
+    // all of the pending rows, in which case nothing is final yet
+    const finalEnd = blend && row < rows - 1 ? getDimensions((row + 1) * columns).origin[0] : pendingEnd;
+    if (finalEnd > pendingTop) {
+      let strip = pending;
+      pending = undefined;
+      if (finalEnd < pendingEnd) {
+        const [finalRows, remainingRows,] = tf.split<tf.Tensor4D>(strip, [(finalEnd - pendingTop) * scale, (pendingEnd - finalEnd) * scale,], 1);
+        strip.dispose();
+        strip = finalRows;
+        pending = remainingRows;
+      }
+      yield {
+        row: yieldedRows,
+        top: pendingTop * scale,
+        pixels: strip,
+        columns: columnOrigins,
+        retainedTensors: [pending, ...pendingPredictions,],
+      };
+      yieldedRows += 1;
+      pendingTop = finalEnd;
+    }
+  }
+}
 
-      /* eslint-disable @typescript-eslint/no-non-null-assertion */
-      colTensor!.dispose();
-      yield [upscaledTensor,];
+export async function* predict<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  pixels: tf.Tensor4D,
+  args: UpscaleArgs<P, O, PO>,
+  modelPackage: ModelPackage,
+  upscalePass: Partial<UpscalePass> = {},
+): AsyncGenerator<YieldedIntermediaryValue, tf.Tensor3D> {
+  const { model, modelDefinition, } = modelPackage;
+  const { patchSize, padding, } = checkPredictionArgs(pixels, args, modelDefinition);
+
+  if (patchSize) {
+    const rows = predictRows(pixels, args, modelPackage, { patchSize, padding, }, upscalePass);
+    let upscaledTensor: undefined | tf.Tensor4D;
+    for (
+      let row = yield* getNextRow(rows, [upscaledTensor,]);
+      row !== undefined;
+      row = yield* getNextRow(rows, [upscaledTensor,])
+    ) {
+      upscaledTensor = concatTensors<tf.Tensor4D>([upscaledTensor, row.pixels,], 1);
+      yield [upscaledTensor, ...row.retainedTensors,];
     }
     // https://github.com/tensorflow/tfjs/issues/1125
     /* eslint-disable @typescript-eslint/no-unnecessary-type-assertion */
     /* eslint-disable @typescript-eslint/no-non-null-assertion */
-    const squeezedTensor = upscaledTensor!.squeeze() as tf.Tensor3D;
+    const squeezedTensor = upscaledTensor!.squeeze([0,]) as tf.Tensor3D;
     /* eslint-disable @typescript-eslint/no-non-null-assertion */
     upscaledTensor!.dispose();
     return squeezedTensor;
   }
 
-  if (progress) {
+  if (args.progress) {
     warn(WARNING_PROGRESS_WITHOUT_PATCH_SIZE);
   }
 
-  const pred = model.predict(pixels) as tf.Tensor4D;
+  const modelInputs = getModelInputs(modelDefinition, args.inputs, pixels);
+  const pred = getEnsemblePrediction(model, pixels, modelInputs, args.ensemble);
+  modelInputs.forEach(input => input.dispose());
   yield [pred,];
   const postprocessedTensor = processAndDisposeOfTensor(pred, modelDefinition.postprocess);
 
   // https://github.com/tensorflow/tfjs/issues/1125
   /* eslint-disable @typescript-eslint/no-unnecessary-type-assertion */
-  const squeezedTensor = postprocessedTensor.squeeze() as tf.Tensor3D;
+  const squeezedTensor = postprocessedTensor.squeeze([0,]) as tf.Tensor3D;
   postprocessedTensor.dispose();
   return squeezedTensor;
 }
 
+// returns the [height, width] the upscaled image should be resized to, if the caller asked for a specific size
+export const getOutputSize = (
+  [height, width,]: [number, number],
+  { width: outputWidth, height: outputHeight, scale, }: Pick<UpscaleArgs<undefined>, 'width' | 'height' | 'scale'>,
+): [number, number] | undefined => {
+  if (scale !== undefined && (outputWidth !== undefined || outputHeight !== undefined)) {
+    throw GET_CONFLICTING_OUTPUT_SIZE_ERROR();
+  }
+  Object.entries({ width: outputWidth, height: outputHeight, }).forEach(([key, value,]) => {
+    if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+      throw GET_INVALID_OUTPUT_SIZE_ERROR(key, value);
+    }
+  });
+  if (scale !== undefined) {
+    if (!(scale > 0)) {
+      throw GET_INVALID_OUTPUT_SIZE_ERROR('scale', scale);
+    }
+    return [Math.max(1, Math.round(height * scale)), Math.max(1, Math.round(width * scale)),];
+  }
+  if (outputWidth !== undefined && outputHeight !== undefined) {
+    return [outputHeight, outputWidth,];
+  }
+  if (outputWidth !== undefined) {
+    return [Math.max(1, Math.round(height * outputWidth / width)), outputWidth,];
+  }
+  if (outputHeight !== undefined) {
+    return [outputHeight, Math.max(1, Math.round(width * outputHeight / height)),];
+  }
+  return undefined;
+};
+
 // if given a tensor, we copy it; otherwise, we pass input through unadulterated
 // this allows us to safely dispose of memory ourselves without having to manage
 // what input is in which format
 export const getCopyOfInput = (input: GetImageAsTensorInput): GetImageAsTensorInput => (isTensor(input) ? input.clone() : input);
 
-export async function* upscale<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
-  input: GetImageAsTensorInput,
+// runs pixels through the model's preprocessing, inference and postprocessing.
+// any retained tensors are yielded alongside intermediary values so they can be disposed of on abort.
+async function* predictWithProcessing<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  pixels: tf.Tensor4D,
   args: UpscaleArgs<P, O, PO>,
   { model, modelDefinition, }: ModelPackage,
-): AsyncGenerator<YieldedIntermediaryValue, UpscaleResponse<O>> {
-  const parsedInput = getCopyOfInput(input);
-  const startingPixels = await getImageAsTensor(parsedInput);
-  yield startingPixels;
-
-  const preprocessedPixels = processAndDisposeOfTensor(startingPixels, modelDefinition.preprocess);
-  yield preprocessedPixels;
+  retainedTensors: Array<tf.Tensor3D | tf.Tensor4D | undefined> = [],
+  upscalePass?: UpscalePass,
+): AsyncGenerator<YieldedIntermediaryValue, tf.Tensor3D> {
+  const preprocessedPixels = processAndDisposeOfTensor(pixels, modelDefinition.preprocess);
+  yield [preprocessedPixels, ...retainedTensors,];
 
   const gen = predict(
     preprocessedPixels,
@@ -396,40 +804,201 @@ export async function* upscale<P extends Progress<O, PO>, O extends ResultFormat
     {
       model,
       modelDefinition,
-    }
+    },
+    upscalePass,
   );
   let result = await gen.next();
   yield result.value;
   while (!result.done) {
     result = await gen.next();
     if (Array.isArray(result.value)) {
-      yield [...result.value, preprocessedPixels,];
+      yield [...result.value, preprocessedPixels, ...retainedTensors,];
     } else if (isTensor(result.value)) {
-      yield [result.value, preprocessedPixels,];
+      yield [result.value, preprocessedPixels, ...retainedTensors,];
     } else {
-      yield preprocessedPixels;
+      yield [preprocessedPixels, ...retainedTensors,];
     }
   }
   preprocessedPixels.dispose();
-  const upscaledPixels: tf.Tensor3D = result.value;
+  return result.value;
+}
+
+// returns the number of passes of the model required to reach the requested output size
+export const getPassCount = (modelScale: number, [height, width,]: [number, number], outputSize?: [number, number]): number => {
+  if (!outputSize || modelScale <= 1) {
+    return 1;
+  }
+  const factor = Math.max(outputSize[0] / height, outputSize[1] / width);
+  let passes = 1;
+  // a small tolerance avoids an additional pass when rounding the output size overshoots the scale
+  while (modelScale ** passes < factor - 1e-6) {
+    passes += 1;
+  }
+  return passes;
+};
+
+// runs pixels through the model repeatedly, feeding the upscaled output of each pass into the next.
+// intermediary results are disposed of as soon as the following pass has consumed them.
+async function* predictInPasses<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  pixels: tf.Tensor4D,
+  args: UpscaleArgs<P, O, PO>,
+  modelPackage: ModelPackage,
+  retainedTensors: Array<tf.Tensor3D | tf.Tensor4D | undefined> = [],
+  passes = 1,
+): AsyncGenerator<YieldedIntermediaryValue, tf.Tensor3D> {
+  let upscaledPixels = yield* predictWithProcessing(pixels, args, modelPackage, retainedTensors, { pass: 0, passes, });
+  for (let pass = 1; pass < passes; pass++) {
+    const nextPixels: tf.Tensor4D = upscaledPixels.expandDims(0);
+    upscaledPixels.dispose();
+    const inputs = resizeModelInputs(args.inputs, getWidthAndHeight(nextPixels));
+    const resizedInputs = Object.values(inputs).filter((value): value is tf.Tensor3D => typeof value !== 'number');
+    yield [nextPixels, ...resizedInputs, ...retainedTensors,];
+    upscaledPixels = yield* predictWithProcessing(nextPixels, {
+      ...args,
+      inputs,
+      // metadata is only reported for the first pass
+      onMetadata: undefined,
+    }, modelPackage, [...resizedInputs, ...retainedTensors,], { pass, passes, });
+    resizedInputs.forEach(value => value.dispose());
+  }
+  return upscaledPixels;
+}
+
+export async function* upscaleAlpha<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  alpha: tf.Tensor4D,
+  args: UpscaleArgs<P, O, PO>,
+  modelPackage: ModelPackage,
+  retainedTensors: Array<tf.Tensor3D | tf.Tensor4D | undefined> = [],
+  passes = 1,
+): AsyncGenerator<YieldedIntermediaryValue, tf.Tensor3D> {
+  const { modelDefinition, } = modelPackage;
+  if (args.alphaMode === 'model') {
+    const upscaledAlpha = yield* predictInPasses(
+      convertChannels(alpha, getModelChannels(modelDefinition)),
+      {
+        ...args,
+        // progress and metadata are only reported for the color channels
+        progress: undefined,
+        onMetadata: undefined,
+        padding: args.padding || 0,
+      },
+      modelPackage,
+      retainedTensors,
+      passes,
+    );
+    return convertChannels(upscaledAlpha, 1);
+  }
+
+  const [height, width,] = getWidthAndHeight(alpha);
+  const scale = modelDefinition.scale ** passes;
+  const upscaledAlpha = tf.tidy(() => tf.image.resizeBilinear(alpha, [
+    height * scale,
+    width * scale,
+  ]).squeeze([0,]) as tf.Tensor3D);
+  alpha.dispose();
+  return upscaledAlpha;
+}
+
+// runs an image through its preprocessing stages. model inputs are provided at the size of the original image, so
+// they are validated against it, and spatial inputs are resized if preprocessing changes the size of the image.
+// this function disposes of the given pixels if any preprocessing stages are provided
+export const preprocessImage = (
+  pixels: tf.Tensor4D,
+  { preprocessing, inputs, }: { preprocessing?: PreprocessingStage[]; inputs?: ModelInputValues; },
+  modelDefinition: ModelDefinition,
+): [tf.Tensor4D, ModelInputValues | undefined,] => {
+  const [height, width,] = getWidthAndHeight(pixels);
+  validateModelInputs(modelDefinition, inputs, [height, width,]);
+  const preprocessedPixels = applyPreprocessing(pixels, preprocessing);
+  const [preprocessedHeight, preprocessedWidth,] = getWidthAndHeight(preprocessedPixels);
+  if (preprocessedHeight === height && preprocessedWidth === width) {
+    return [preprocessedPixels, inputs,];
+  }
+  return [preprocessedPixels, resizeModelInputs(inputs, [preprocessedHeight, preprocessedWidth,]),];
+};
+
+// returns the spatial inputs created by preprocessImage, which the caller is responsible for disposing of
+export const getResizedModelInputs = (inputs: ModelInputValues | undefined, originalInputs: ModelInputValues | undefined): tf.Tensor3D[] => inputs === originalInputs ? [] : Object.values(inputs || {}).filter((value): value is tf.Tensor3D => typeof value !== 'number');
+
+export async function* upscale<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
+  input: GetImageAsTensorInput,
+  args: UpscaleArgs<P, O, PO>,
+  modelPackage: ModelPackage,
+): AsyncGenerator<YieldedIntermediaryValue, UpscaleResponse<O>> {
+  checkImageFormat(args.imageFormat);
+  const parsedInput = getCopyOfInput(input);
+  const startingPixels = await getImageAsTensor(parsedInput);
+  yield startingPixels;
+
+  let outputSize: [number, number] | undefined;
+  let preprocessedPixels: tf.Tensor4D;
+  let inputs: ModelInputValues | undefined;
+  try {
+    outputSize = getOutputSize(getWidthAndHeight(startingPixels), args);
+    [preprocessedPixels, inputs,] = preprocessImage(startingPixels, args, modelPackage.modelDefinition);
+  } catch (err) {
+    startingPixels.dispose();
+    throw err;
+  }
+  const resizedInputs = getResizedModelInputs(inputs, args.inputs);
+  yield [preprocessedPixels, ...resizedInputs,];
+  const [colorPixels, alphaPixels,] = splitAlphaChannel(preprocessedPixels);
+  yield [colorPixels, alphaPixels, ...resizedInputs,];
+  const colorChannels = getChannels(colorPixels);
+  const passes = getPassCount(modelPackage.modelDefinition.scale, getWidthAndHeight(colorPixels), outputSize);
+
+  let upscaledPixels = convertChannels(yield* predictInPasses(
+    convertChannels(colorPixels, getModelChannels(modelPackage.modelDefinition)),
+    {
+      ...args,
+      inputs,
+    },
+    modelPackage,
+    [alphaPixels, ...resizedInputs,],
+    passes,
+  ), colorChannels);
+  yield [upscaledPixels, alphaPixels, ...resizedInputs,];
+
+  if (alphaPixels) {
+    const upscaledAlpha = yield* upscaleAlpha(alphaPixels, {
+      ...args,
+      inputs,
+    }, modelPackage, [upscaledPixels, ...resizedInputs,], passes);
+    upscaledPixels = attachAlphaChannel(upscaledPixels, upscaledAlpha);
+    yield [upscaledPixels, ...resizedInputs,];
+  }
+  resizedInputs.forEach(value => value.dispose());
+
+  if (outputSize) {
+    const [upscaledHeight, upscaledWidth,] = getWidthAndHeight(upscaledPixels);
+    if (outputSize[0] !== upscaledHeight || outputSize[1] !== upscaledWidth) {
+      const resizedPixels = resize(upscaledPixels, outputSize);
+      upscaledPixels.dispose();
+      upscaledPixels = resizedPixels;
+      yield upscaledPixels;
+    }
+  }
 
   if (args.output === 'tensor') {
     return <UpscaleResponse<O>>upscaledPixels;
   }
 
-  const base64Src = tensorAsBase64(upscaledPixels);
+  const response = await tensorAsOutput(upscaledPixels, args.output, {
+    imageFormat: args.imageFormat,
+    imageQuality: args.imageQuality,
+  });
   upscaledPixels.dispose();
-  return <UpscaleResponse<O>>base64Src;
+  return response;
 }
 
 export async function cancellableUpscale<P extends Progress<O, PO>, O extends ResultFormat = DEFAULT_OUTPUT, PO extends ResultFormat = undefined>(
   input: GetImageAsTensorInput,
-  { signal, awaitNextFrame, ...args }: UpscaleArgs<P, O, PO>,
+  { signal, awaitNextFrame, id, ...args }: UpscaleArgs<P, O, PO>,
   internalArgs: ModelPackage & {
     signal: AbortSignal;
   },
 ): Promise<UpscaleResponse<O>> {
-  const tick = makeTick(signal || internalArgs.signal, awaitNextFrame);
+  const tick = makeTick(signal || internalArgs.signal, awaitNextFrame, id);
   await tick();
   const upscaledPixels = await wrapGenerator(upscale(
     input,
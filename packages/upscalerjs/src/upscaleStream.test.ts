@@ -0,0 +1,362 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { ModelDefinition } from "@upscalerjs/core";
+import { cancellableUpscaleStream, upscaleTiles, GET_UNSUPPORTED_STREAM_ARGS_ERROR, } from './upscaleStream';
+import { upscale, } from './upscale';
+import {
+  tensorAsBase64 as _tensorAsBase64,
+} from './image.generated';
+import { AbortError, wrapGenerator, } from './utils';
+import { ModelPackage, ResultFormat, UpscaleArgs, UpscaleStreamArgs, UpscaleTile, } from './types';
+import { mockFn } from '../../../test/lib/shared/mockers';
+
+jest.mock('./image.generated', () => {
+  const { tensorAsBase64, ...rest } = jest.requireActual('./image.generated');
+  return {
+    ...rest,
+    tensorAsBase64: jest.fn(tensorAsBase64),
+  };
+});
+
+const tensorAsBase64 = mockFn(_tensorAsBase64);
+
+describe('upscaleStream', () => {
+  const SCALE = 2;
+  const model = tf.sequential();
+  model.add(tf.layers.upSampling2d({
+    size: [SCALE, SCALE],
+    dataFormat: 'channelsLast',
+    inputShape: [null, null, 3],
+  }));
+  const modelPackage: ModelPackage = {
+    model,
+    modelDefinition: { scale: SCALE, } as ModelDefinition,
+  };
+
+  const getTensor = (height: number, width: number, channels = 3): tf.Tensor3D => tf.tidy(() => tf.range(1, 1 + (width * height), 1).reshape([height, width, 1]).tile([1, 1, channels]));
+
+  let img: tf.Tensor3D;
+
+  beforeEach(() => {
+    tensorAsBase64.mockClear();
+  });
+
+  afterEach(() => {
+    img?.dispose();
+  });
+
+  const collectTiles = async <T>(gen: AsyncGenerator<T, void>) => {
+    const tiles: T[] = [];
+    for await (const tile of gen) {
+      tiles.push(tile);
+    }
+    return tiles;
+  };
+
+  const getStream = <O extends ResultFormat>(args: UpscaleStreamArgs<O>) => cancellableUpscaleStream(img, args, {
+    modelPackage: Promise.resolve(modelPackage),
+    signal: new AbortController().signal,
+  });
+
+  it('yields upscaled tiles with their position in the upscaled image', async () => {
+    img = getTensor(3, 4);
+    const expected = tf.image.resizeNearestNeighbor(img, [6, 8,]);
+    const tiles = await collectTiles(getStream({
+      patchSize: 2,
+      padding: 1,
+      output: 'tensor',
+    }));
+    expect(tiles.map(({ row, col, origin, size, }) => ({ row, col, origin, size, }))).toEqual([
+      { row: 0, col: 0, origin: [0, 0,], size: [4, 4,], },
+      { row: 0, col: 1, origin: [0, 4,], size: [4, 4,], },
+      { row: 1, col: 0, origin: [4, 0,], size: [2, 4,], },
+      { row: 1, col: 1, origin: [4, 4,], size: [2, 4,], },
+    ]);
+    tiles.forEach(({ origin, size, tensor, }) => {
+      const expectedTile = expected.slice([origin[0], origin[1], 0,], [size[0], size[1], -1,]);
+      expect(Array.from(tensor.dataSync())).toEqual(Array.from(expectedTile.dataSync()));
+      expectedTile.dispose();
+      tensor.dispose();
+    });
+    expected.dispose();
+  });
+
+  it('yields a single tile without a patch size', async () => {
+    img = getTensor(3, 4);
+    const tiles = await collectTiles(getStream({
+      output: 'tensor',
+    }));
+    expect(tiles.length).toEqual(1);
+    expect(tiles[0].tensor.shape).toEqual([6, 8, 3,]);
+    tiles[0].tensor.dispose();
+  });
+
+  it('yields base64 tiles by default', async () => {
+    tensorAsBase64.mockImplementation(async () => 'foobarbaz');
+    img = getTensor(2, 2);
+    const tiles = await collectTiles(getStream({
+      patchSize: 1,
+      padding: 0,
+    }));
+    expect(tiles.length).toEqual(4);
+    tiles.forEach(tile => expect(tile.base64).toEqual('foobarbaz'));
+  });
+
+  it('upscales the alpha channel of each tile', async () => {
+    img = getTensor(2, 4, 4);
+    const tiles = await collectTiles(getStream({
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+    }));
+    tiles.forEach(({ tensor, }) => {
+      expect(tensor.shape).toEqual([4, 4, 4,]);
+      tensor.dispose();
+    });
+  });
+
+  it('only computes rows of tiles as they are consumed', async () => {
+    const spy = jest.spyOn(model, 'predict');
+    spy.mockClear();
+    img = getTensor(4, 4);
+    const gen = getStream({
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+    });
+    const { value, } = await gen.next();
+    (value as UpscaleTile<'tensor'>).tensor.dispose();
+    // the first row holds two patches
+    expect(spy).toHaveBeenCalledTimes(2);
+    await gen.return();
+    expect(spy).toHaveBeenCalledTimes(2);
+    spy.mockRestore();
+  });
+
+  it('releases memory if the consumer stops early', async () => {
+    img = getTensor(4, 4);
+    const startingTensors = tf.memory().numTensors;
+    for await (const { tensor, } of getStream({
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+    })) {
+      tensor.dispose();
+      break;
+    }
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  it('is able to cancel an in-flight stream', async () => {
+    img = getTensor(4, 4);
+    const startingTensors = tf.memory().numTensors;
+    const controller = new AbortController();
+    const gen = cancellableUpscaleStream(img, {
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+      signal: controller.signal,
+    }, {
+      modelPackage: Promise.resolve(modelPackage),
+      signal: new AbortController().signal,
+    });
+    const { value, } = await gen.next();
+    (value as UpscaleTile<'tensor'>).tensor.dispose();
+    controller.abort();
+    await expect(gen.next()).rejects.toThrow(AbortError);
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  it('reports the chosen patch size through onMetadata', async () => {
+    img = getTensor(2, 2);
+    const onMetadata = jest.fn();
+    const gen = upscaleTiles(img, {
+      patchSize: 'auto',
+      output: 'tensor',
+      onMetadata,
+    }, modelPackage);
+    for (let result = await gen.next(); !result.done; result = await gen.next()) {
+      const { value, } = result;
+      if (value && 'tensor' in value) {
+        value.tensor.dispose();
+      }
+    }
+    expect(onMetadata).toHaveBeenCalledWith({
+      patchSize: 2,
+      padding: 0,
+    });
+  });
+
+  it('tiles spatial model inputs alongside the image', async () => {
+    const image = tf.input({ shape: [null, null, 3,], });
+    const noise = tf.input({ shape: [null, null, 3,], });
+    const output = tf.layers.upSampling2d({ size: [SCALE, SCALE,], }).apply(
+      tf.layers.add().apply([image, noise,]),
+    ) as tf.SymbolicTensor;
+    const noiseModel = tf.model({ inputs: [image, noise,], outputs: output, });
+    img = getTensor(3, 4);
+    const noiseMap = getTensor(3, 4);
+    const tiles = await collectTiles(cancellableUpscaleStream(img, {
+      patchSize: 2,
+      padding: 1,
+      output: 'tensor',
+      inputs: { noise: noiseMap, },
+    }, {
+      modelPackage: Promise.resolve({
+        model: noiseModel,
+        modelDefinition: {
+          path: 'foo',
+          scale: SCALE,
+          inputs: [{ name: 'noise', spatial: true, channels: 3, },],
+        },
+      }),
+      signal: new AbortController().signal,
+    }));
+    const expected = tf.tidy(() => tf.image.resizeNearestNeighbor(tf.add(img, noiseMap) as tf.Tensor3D, [6, 8,]));
+    tiles.forEach(({ tensor, origin, size, }) => {
+      const expectedTile = expected.slice([origin[0], origin[1], 0,], [size[0], size[1], 3,]);
+      expect(Array.from(tensor.dataSync())).toEqual(Array.from(expectedTile.dataSync()));
+      tf.dispose([tensor, expectedTile,]);
+    });
+    tf.dispose([expected, noiseMap,]);
+    noiseModel.dispose();
+  });
+  describe('matches upscale', () => {
+    // a convolution makes each upscaled patch depend on its neighbors, so seams differ if patches are handled differently
+    const getConvModel = (channels = 3) => {
+      const convModel = tf.sequential();
+      convModel.add(tf.layers.upSampling2d({
+        size: [SCALE, SCALE,],
+        dataFormat: 'channelsLast',
+        inputShape: [null, null, channels,],
+      }));
+      convModel.add(tf.layers.conv2d({
+        filters: channels,
+        kernelSize: 3,
+        padding: 'same',
+        useBias: false,
+        kernelInitializer: tf.initializers.constant({ value: 1 / (9 * channels), }),
+      }));
+      return convModel;
+    };
+
+    const expectTilesToMatchUpscale = async (
+      image: tf.Tensor3D,
+      args: Omit<UpscaleStreamArgs<'tensor'>, 'output'>,
+      convModelPackage: ModelPackage,
+    ) => {
+      const expected = await wrapGenerator(upscale(image, {
+        ...args,
+        output: 'tensor',
+      } as UpscaleArgs<undefined, 'tensor'>, convModelPackage));
+      const tiles = await collectTiles(cancellableUpscaleStream(image, {
+        ...args,
+        output: 'tensor',
+      }, {
+        modelPackage: Promise.resolve(convModelPackage),
+        signal: new AbortController().signal,
+      }));
+      const [height, width, channels,] = expected.shape;
+      expect(tiles.reduce((area, { size, }) => area + size[0] * size[1], 0)).toEqual(height * width);
+      tiles.forEach(({ tensor, origin, size, }) => {
+        const expectedTile = expected.slice([origin[0], origin[1], 0,], [size[0], size[1], channels,]);
+        const difference = tf.tidy(() => tf.max(tf.abs(tf.sub(tensor, expectedTile))).dataSync()[0]);
+        expect(difference).toBeLessThan(1e-3);
+        tf.dispose([tensor, expectedTile,]);
+      });
+      expected.dispose();
+    };
+
+    let convModel: tf.Sequential;
+    afterEach(() => {
+      convModel?.dispose();
+    });
+
+    it('when blending patches', async () => {
+      convModel = getConvModel();
+      img = getTensor(5, 6);
+      await expectTilesToMatchUpscale(img, {
+        patchSize: 2,
+        padding: 1,
+        blend: 'linear',
+      }, {
+        model: convModel,
+        modelDefinition: { scale: SCALE, } as ModelDefinition,
+      });
+    });
+
+    it('when batching patches', async () => {
+      convModel = getConvModel();
+      img = getTensor(5, 6);
+      await expectTilesToMatchUpscale(img, {
+        patchSize: 2,
+        padding: 1,
+        batchSize: 3,
+      }, {
+        model: convModel,
+        modelDefinition: { scale: SCALE, } as ModelDefinition,
+      });
+    });
+
+    it('when preprocessing the image', async () => {
+      convModel = getConvModel();
+      img = getTensor(6, 8);
+      await expectTilesToMatchUpscale(img, {
+        patchSize: 2,
+        padding: 1,
+        preprocessing: [{ type: 'downscale', scale: 0.5, },],
+      }, {
+        model: convModel,
+        modelDefinition: { scale: SCALE, } as ModelDefinition,
+      });
+    });
+
+    it('when resizing the alpha channel', async () => {
+      convModel = getConvModel();
+      img = getTensor(5, 6, 4);
+      await expectTilesToMatchUpscale(img, {
+        patchSize: 2,
+        padding: 1,
+        blend: 'gaussian',
+      }, {
+        model: convModel,
+        modelDefinition: { scale: SCALE, } as ModelDefinition,
+      });
+    });
+
+    it('when running the alpha channel through the model', async () => {
+      convModel = getConvModel();
+      img = getTensor(5, 6, 4);
+      await expectTilesToMatchUpscale(img, {
+        patchSize: 2,
+        padding: 1,
+        blend: 'linear',
+        alphaMode: 'model',
+      }, {
+        model: convModel,
+        modelDefinition: { scale: SCALE, } as ModelDefinition,
+      });
+    });
+  });
+
+  it('reports progress for each patch', async () => {
+    img = getTensor(4, 4);
+    const progress = jest.fn();
+    const tiles = await collectTiles(getStream({
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+      progress,
+    }));
+    tiles.forEach(({ tensor, }) => tensor.dispose());
+    expect(progress.mock.calls).toEqual([[0.25,], [0.5,], [0.75,], [1,],]);
+  });
+
+  it('throws if given an output size', async () => {
+    img = getTensor(2, 2);
+    const gen = getStream({
+      output: 'tensor',
+      width: 8,
+    } as UpscaleStreamArgs<'tensor'>);
+    await expect(gen.next()).rejects.toThrow(GET_UNSUPPORTED_STREAM_ARGS_ERROR(['width',]));
+  });
+});
@@ -0,0 +1,204 @@
+import { tf, } from './dependencies.generated';
+import type {
+  BASE64,
+  ModelInputValues,
+  ModelPackage,
+  ResultFormat,
+  UpscaleStreamArgs,
+  UpscaleTile,
+  YieldedIntermediaryValue,
+} from './types';
+import { checkImageFormat, getImageAsTensor, GetImageAsTensorInput, } from './image.generated';
+import {
+  checkPredictionArgs,
+  getCopyOfInput,
+  getNextRow,
+  getResizedModelInputs,
+  getWidthAndHeight,
+  predictRows,
+  preprocessImage,
+  tensorAsOutput,
+} from './upscale';
+import {
+  attachAlphaChannel,
+  convertChannels,
+  getChannels,
+  getModelChannels,
+  isTensor,
+  processAndDisposeOfTensor,
+  splitAlphaChannel,
+} from './utils';
+import { makeTick, } from './makeTick';
+
+export const GET_UNSUPPORTED_STREAM_ARGS_ERROR = (keys: string[]) => new Error([
+  `upscaleStream does not support ${keys.join(', ')}.`,
+  'Resizing to an output size requires the whole upscaled image, so use upscale instead.',
+].join(' '));
+
+// the output size arguments are excluded from the types, but may still be provided by non typescript code
+const checkStreamArgs = (args: Record<string, unknown>) => {
+  const keys = ['width', 'height', 'scale',].filter(key => args[key] !== undefined);
+  if (keys.length) {
+    throw GET_UNSUPPORTED_STREAM_ARGS_ERROR(keys);
+  }
+};
+
+// this function disposes of the input tensor
+const squeezeAndDispose = (pixels: tf.Tensor4D): tf.Tensor3D => {
+  const squeezedPixels: tf.Tensor3D = pixels.squeeze([0,]);
+  pixels.dispose();
+  return squeezedPixels;
+};
+
+// resizes the rows of the alpha channel behind a strip of the upscaled image. the strip matches the
+// same rows of a bilinear resize of the whole alpha channel, since each upscaled row samples at most
+// the following row of the original alpha channel
+export const getResizedAlphaRows = (
+  alpha: tf.Tensor4D,
+  top: number,
+  height: number,
+  scale: number,
+): tf.Tensor3D => tf.tidy((): tf.Tensor3D => {
+  const [alphaHeight, alphaWidth,] = getWidthAndHeight(alpha);
+  const start = top / scale;
+  const end = Math.min(alphaHeight, (top + height) / scale + 1);
+  const rows = alpha.slice([0, start, 0, 0,], [-1, end - start, -1, -1,]);
+  return tf.image.resizeBilinear(rows, [(end - start) * scale, alphaWidth * scale,])
+    .slice([0, 0, 0, 0,], [-1, height, -1, -1,])
+    .squeeze([0,]);
+});
+
+// upscales an image with the same patches as upscale, yielding the tiles of each finished row as it
+// becomes available. intermediary tensors are yielded alongside tiles so they can be disposed of on abort.
+export async function* upscaleTiles<O extends ResultFormat = BASE64>(
+  input: GetImageAsTensorInput,
+  args: Omit<UpscaleStreamArgs<O>, 'signal' | 'awaitNextFrame'>,
+  modelPackage: ModelPackage,
+): AsyncGenerator<YieldedIntermediaryValue | UpscaleTile<O>, void> {
+  checkStreamArgs(args);
+  checkImageFormat(args.imageFormat);
+  const { modelDefinition, } = modelPackage;
+  const { scale, } = modelDefinition;
+  const startingPixels = await getImageAsTensor(getCopyOfInput(input));
+  yield startingPixels;
+
+  let preprocessedPixels: tf.Tensor4D;
+  let inputs: ModelInputValues | undefined;
+  try {
+    [preprocessedPixels, inputs,] = preprocessImage(startingPixels, args, modelDefinition);
+  } catch (err) {
+    startingPixels.dispose();
+    throw err;
+  }
+  const resizedInputs = getResizedModelInputs(inputs, args.inputs);
+  yield [preprocessedPixels, ...resizedInputs,];
+  const [colorPixels, alphaPixels,] = splitAlphaChannel(preprocessedPixels);
+  yield [colorPixels, alphaPixels, ...resizedInputs,];
+  const colorChannels = getChannels(colorPixels);
+  const modelChannels = getModelChannels(modelDefinition);
+
+  const pixels = processAndDisposeOfTensor(convertChannels(colorPixels, modelChannels), modelDefinition.preprocess);
+  let alpha = alphaPixels;
+  if (alpha && args.alphaMode === 'model') {
+    alpha = processAndDisposeOfTensor(convertChannels(alpha, modelChannels), modelDefinition.preprocess);
+  }
+  yield [pixels, alpha, ...resizedInputs,];
+
+  let strip: undefined | tf.Tensor3D;
+  // tensors held by the row generators, released if the consumer stops early
+  let colorRetainedTensors: Array<tf.Tensor4D | undefined> = [];
+  let alphaRetainedTensors: Array<tf.Tensor4D | undefined> = [];
+  try {
+    const predictionArgs = {
+      ...args,
+      inputs,
+    };
+    const patchOptions = checkPredictionArgs(pixels, predictionArgs, modelDefinition);
+    const colorRows = predictRows(pixels, predictionArgs, modelPackage, patchOptions);
+    // the alpha channel is upscaled with the same patches, so that its rows line up with the color rows
+    const alphaRows = alpha && args.alphaMode === 'model' ? predictRows(alpha, {
+      ...predictionArgs,
+      progress: undefined,
+    }, modelPackage, patchOptions) : undefined;
+
+    for (
+      let colorRow = yield* getNextRow(colorRows, [pixels, alpha, ...resizedInputs, ...alphaRetainedTensors,]);
+      colorRow !== undefined;
+      colorRow = yield* getNextRow(colorRows, [pixels, alpha, ...resizedInputs, ...alphaRetainedTensors,])
+    ) {
+      const { row, top, columns, } = colorRow;
+      colorRetainedTensors = colorRow.retainedTensors;
+      strip = convertChannels(squeezeAndDispose(colorRow.pixels), colorChannels);
+      yield [pixels, alpha, ...resizedInputs, strip, ...colorRetainedTensors, ...alphaRetainedTensors,];
+
+      if (alpha) {
+        let alphaStrip: tf.Tensor3D;
+        if (alphaRows) {
+          /* eslint-disable @typescript-eslint/no-non-null-assertion */
+          const alphaRow = (yield* getNextRow(alphaRows, [pixels, alpha, ...resizedInputs, strip, ...colorRetainedTensors,]))!;
+          alphaRetainedTensors = alphaRow.retainedTensors;
+          alphaStrip = convertChannels(squeezeAndDispose(alphaRow.pixels), 1);
+        } else {
+          alphaStrip = getResizedAlphaRows(alpha, top, getWidthAndHeight(strip)[0], scale);
+        }
+        strip = attachAlphaChannel(strip, alphaStrip);
+        yield [pixels, alpha, ...resizedInputs, strip, ...colorRetainedTensors, ...alphaRetainedTensors,];
+      }
+
+      const [height, width,] = getWidthAndHeight(strip);
+      for (let col = 0; col < columns.length; col++) {
+        const left = columns[col];
+        const right = col < columns.length - 1 ? columns[col + 1] : width;
+        const tile = strip.slice([0, left, 0,], [-1, right - left, -1,]);
+        const result = await tensorAsOutput(tile, args.output, {
+          imageFormat: args.imageFormat,
+          imageQuality: args.imageQuality,
+        });
+        if (args.output !== 'tensor') {
+          tile.dispose();
+        }
+        yield {
+          row,
+          col,
+          origin: [top, left,],
+          size: [height, right - left,],
+          [args.output || 'base64']: result,
+        } as UpscaleTile<O>;
+      }
+      strip.dispose();
+    }
+  } finally {
+    [pixels, alpha, ...resizedInputs, strip, ...colorRetainedTensors, ...alphaRetainedTensors,].forEach(tensor => tensor?.dispose());
+  }
+}
+
+export const isUpscaleTile = <O extends ResultFormat>(
+  value: YieldedIntermediaryValue | UpscaleTile<O>
+): value is UpscaleTile<O> => value !== undefined && !Array.isArray(value) && !isTensor(value);
+
+export async function* cancellableUpscaleStream<O extends ResultFormat = BASE64>(
+  input: GetImageAsTensorInput,
+  { signal, awaitNextFrame, ...args }: UpscaleStreamArgs<O>,
+  internalArgs: {
+    modelPackage: Promise<ModelPackage>;
+    signal: AbortSignal;
+  },
+): AsyncGenerator<UpscaleTile<O>, void> {
+  const tick = makeTick(signal || internalArgs.signal, awaitNextFrame);
+  await tick();
+  const gen = upscaleTiles(input, args, await internalArgs.modelPackage);
+  try {
+    for (let result = await gen.next(); !result.done; result = await gen.next()) {
+      if (isUpscaleTile(result.value)) {
+        // the generator is paused here until the consumer requests the next tile
+        yield result.value;
+        await tick();
+      } else {
+        await tick(result.value);
+      }
+    }
+  } finally {
+    // if the consumer stops early or the stream is aborted, release any memory held by the generator
+    await gen.return();
+  }
+}
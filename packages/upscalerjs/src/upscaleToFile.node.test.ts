@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs-node';
+import { ModelDefinition } from "@upscalerjs/core";
+import { cancellableUpscaleToFile, getRowOfPixels, } from './upscaleToFile';
+import { AbortError, } from './utils';
+import { ModelPackage, } from './types';
+
+describe('upscaleToFile', () => {
+  const SCALE = 2;
+  const model = tf.sequential();
+  model.add(tf.layers.upSampling2d({
+    size: [SCALE, SCALE],
+    dataFormat: 'channelsLast',
+    inputShape: [null, null, 3],
+  }));
+  const modelPackage: ModelPackage = {
+    model,
+    modelDefinition: { scale: SCALE, } as ModelDefinition,
+  };
+
+  const getTensor = (height: number, width: number): tf.Tensor3D => tf.tidy(() => tf.range(1, 1 + (width * height), 1).reshape([height, width, 1]).tile([1, 1, 3]));
+
+  let folder: string;
+  let img: tf.Tensor3D;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-to-file-'));
+  });
+
+  afterEach(() => {
+    img?.dispose();
+    fs.rmSync(folder, { recursive: true, force: true, });
+  });
+
+  it('converts a row of tiles to pixels and disposes of the tiles', async () => {
+    const tiles = [
+      tf.tensor3d([[[1,], [300,],],]),
+      tf.tensor3d([[[-5,], [4.5,],],]),
+    ];
+    const pixels = await getRowOfPixels(tiles);
+    expect(Array.from(pixels)).toEqual([1, 255, 0, 4,]);
+    tiles.forEach(tile => expect(tile.isDisposed).toEqual(true));
+  });
+
+  it('writes the upscaled image to a file', async () => {
+    img = getTensor(3, 5);
+    const outputPath = path.resolve(folder, 'out.raw');
+    const progress = jest.fn();
+    const startingTensors = tf.memory().numTensors;
+    await cancellableUpscaleToFile(img, outputPath, {
+      patchSize: 2,
+      padding: 1,
+      format: 'raw',
+      progress,
+    }, {
+      ...modelPackage,
+      signal: new AbortController().signal,
+    });
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+    const expected = tf.image.resizeNearestNeighbor(img, [6, 10,]);
+    expect(Array.from(fs.readFileSync(outputPath))).toEqual(Array.from(expected.dataSync()));
+    expected.dispose();
+    expect(progress.mock.calls).toEqual([[4 / 6,], [1,],]);
+  });
+
+  it('is able to cancel an in-flight request', async () => {
+    img = getTensor(4, 4);
+    const controller = new AbortController();
+    const startingTensors = tf.memory().numTensors;
+    await expect(cancellableUpscaleToFile(img, path.resolve(folder, 'out.png'), {
+      patchSize: 2,
+      padding: 0,
+      progress: () => controller.abort(),
+      signal: controller.signal,
+    }, {
+      ...modelPackage,
+      signal: new AbortController().signal,
+    })).rejects.toThrow(AbortError);
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+});
@@ -0,0 +1,103 @@
+import { tf, } from './dependencies.generated';
+import type {
+  ModelPackage,
+  UpscaleToFileArgs,
+  YieldedIntermediaryValue,
+} from './types';
+import { getImageAsTensor, GetImageAsTensorInput, } from './image.generated';
+import { createImageWriter, } from './writer.generated';
+import { getCopyOfInput, getWidthAndHeight, } from './upscale';
+import { isUpscaleTile, upscaleTiles, } from './upscaleStream';
+import { getChannels, wrapGenerator, } from './utils';
+import { makeTick, } from './makeTick';
+
+// converts a row of upscaled tiles into a single strip of 8-bit pixels; this function disposes of the tiles
+export const getRowOfPixels = async (tiles: tf.Tensor3D[]): Promise<Uint8Array> => {
+  const strip = tf.tidy(() => tf.cast(tf.clipByValue(tf.concat(tiles, 1), 0, 255), 'int32'));
+  tiles.forEach(tile => tile.dispose());
+  const pixels = new Uint8Array(await strip.data());
+  strip.dispose();
+  return pixels;
+};
+
+// upscales an image row by row, writing each finished row of tiles to a file.
+// at most a single row of upscaled tiles is held in memory at any time.
+export async function* upscaleToFile(
+  input: GetImageAsTensorInput,
+  outputPath: string,
+  { format, progress, ...args }: Omit<UpscaleToFileArgs, 'signal' | 'awaitNextFrame'>,
+  modelPackage: ModelPackage,
+): AsyncGenerator<YieldedIntermediaryValue, void> {
+  const { scale, } = modelPackage.modelDefinition;
+  const startingPixels = await getImageAsTensor(getCopyOfInput(input));
+  yield startingPixels;
+
+  const [height, width,] = getWidthAndHeight(startingPixels);
+  const writer = createImageWriter(outputPath, {
+    width: width * scale,
+    height: height * scale,
+    channels: getChannels(startingPixels),
+    format,
+  });
+  const gen = upscaleTiles(startingPixels, {
+    ...args,
+    output: 'tensor',
+  }, modelPackage);
+  let row: tf.Tensor3D[] = [];
+  let rowsWritten = 0;
+  let closed = false;
+  try {
+    let result = await gen.next();
+    // the tile generator holds its own copy of the pixels
+    startingPixels.dispose();
+    for (; !result.done; result = await gen.next()) {
+      const { value, } = result;
+      if (isUpscaleTile(value)) {
+        const { tensor, origin, size, } = value;
+        row.push(tensor);
+        if (origin[1] + size[1] === width * scale) {
+          const pixels = await getRowOfPixels(row);
+          row = [];
+          await writer.write(pixels);
+          rowsWritten += size[0];
+          if (progress) {
+            progress(rowsWritten / (height * scale));
+          }
+        }
+        yield row;
+      } else if (Array.isArray(value)) {
+        yield [...value, ...row,];
+      } else {
+        yield [value, ...row,];
+      }
+    }
+    await writer.close();
+    closed = true;
+  } finally {
+    if (!closed) {
+      writer.abort();
+    }
+    startingPixels.dispose();
+    row.forEach(tile => tile.dispose());
+    await gen.return();
+  }
+}
+
+export async function cancellableUpscaleToFile(
+  input: GetImageAsTensorInput,
+  outputPath: string,
+  { signal, awaitNextFrame, id, ...args }: UpscaleToFileArgs,
+  internalArgs: ModelPackage & {
+    signal: AbortSignal;
+  },
+): Promise<void> {
+  const tick = makeTick(signal || internalArgs.signal, awaitNextFrame, id);
+  await tick();
+  const gen = upscaleToFile(input, outputPath, args, internalArgs);
+  try {
+    await wrapGenerator(gen, tick);
+  } finally {
+    // if aborted, give the generator the opportunity to close the file and release its memory
+    await gen.return();
+  }
+}
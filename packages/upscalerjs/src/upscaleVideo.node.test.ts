@@ -0,0 +1,161 @@
+import * as tf from '@tensorflow/tfjs-node';
+import { ModelDefinition } from "@upscalerjs/core";
+import {
+  cancellableUpscaleVideo,
+  UpscaleVideoArgs,
+  getInvalidFPSError,
+  getInvalidTemporalSmoothingError,
+  getInvalidVideoInputError,
+  isFrameBehind,
+  smoothFrame,
+} from './upscaleVideo';
+import { getMissingOutputDirectoryError, VideoFrameFormat, VideoInput, } from './video.generated';
+import { AbortError, } from './utils';
+import { WARNING_UNDEFINED_PADDING, } from './upscale';
+import { ModelPackage, } from './types';
+
+describe('upscaleVideo', () => {
+  const SCALE = 2;
+  const model = tf.sequential();
+  model.add(tf.layers.upSampling2d({
+    size: [SCALE, SCALE],
+    dataFormat: 'channelsLast',
+    inputShape: [null, null, 3],
+  }));
+  const modelPackage: ModelPackage = {
+    model,
+    modelDefinition: { scale: SCALE, } as ModelDefinition,
+  };
+
+  let frames: tf.Tensor3D[] = [];
+
+  afterEach(() => {
+    tf.dispose(frames);
+    frames = [];
+    jest.restoreAllMocks();
+  });
+
+  const getFrames = (...values: number[]) => {
+    frames = values.map(value => tf.fill([2, 2, 3,], value) as tf.Tensor3D);
+    return frames;
+  };
+
+  const getVideo = <F extends VideoFrameFormat = 'tensor'>(input: VideoInput, args: UpscaleVideoArgs<F> = {}, signal = new AbortController().signal) => cancellableUpscaleVideo(input, args, {
+    modelPackage: Promise.resolve(modelPackage),
+    signal,
+  });
+
+  const collect = async <T>(gen: AsyncGenerator<T, void>) => {
+    const results: T[] = [];
+    for await (const result of gen) {
+      results.push(result);
+    }
+    return results;
+  };
+
+  it('upscales each frame of a sequence', async () => {
+    const input = getFrames(1, 2, 3);
+    const startingTensors = tf.memory().numTensors;
+    const results = await collect(getVideo(input, { fps: 10, }));
+    expect(results.map(({ index, timestamp, }) => [index, timestamp,])).toEqual([[0, 0,], [1, 100,], [2, 200,],]);
+    results.forEach(({ frame, }, i) => {
+      expect(frame.shape).toEqual([4, 4, 3,]);
+      expect(Array.from(frame.dataSync())).toEqual(Array(4 * 4 * 3).fill(i + 1));
+      frame.dispose();
+    });
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  it('upscales an async sequence of frames', async () => {
+    const input = getFrames(1, 2);
+    async function* getAsyncFrames() {
+      yield* input;
+    }
+    const results = await collect(getVideo(getAsyncFrames()));
+    expect(results.map(({ timestamp, }) => timestamp)).toEqual([0, 1000 / 30,]);
+    results.forEach(({ frame, }) => frame.dispose());
+  });
+
+  it('blends each frame with the previous one', async () => {
+    const input = getFrames(10, 20, 30);
+    const startingTensors = tf.memory().numTensors;
+    const results = await collect(getVideo(input, { temporalSmoothing: 0.5, }));
+    expect(results.map(({ frame, }) => frame.dataSync()[0])).toEqual([10, 15, 22.5,]);
+    results.forEach(({ frame, }) => frame.dispose());
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  it('reuses the patch size of the first frame for every frame', async () => {
+    const input = getFrames(1, 2, 3);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const onMetadata = jest.fn();
+    const results = await collect(getVideo(input, { patchSize: 1, onMetadata, }));
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(WARNING_UNDEFINED_PADDING);
+    expect(onMetadata.mock.calls.map(([{ patchSize, },]) => patchSize)).toEqual([1, 1, 1,]);
+    results.forEach(({ frame, }, i) => {
+      expect(Array.from(frame.dataSync())).toEqual(Array(4 * 4 * 3).fill(i + 1));
+      frame.dispose();
+    });
+  });
+
+  it('drops frames that fall behind real time', async () => {
+    const input = getFrames(1, 2, 3, 4);
+    // the times at which each frame is read
+    const times = [0, 250, 260, 500,];
+    jest.spyOn(Date, 'now').mockImplementation(() => times.shift() || 0);
+    const results = await collect(getVideo(input, { fps: 10, dropFrames: true, }));
+    expect(results.map(({ index, }) => index)).toEqual([0, 2,]);
+    results.forEach(({ frame, }) => frame.dispose());
+  });
+
+  it('throws if given invalid options', async () => {
+    const input = getFrames(1);
+    await expect(collect(getVideo(input, { fps: 0, }))).rejects.toThrow(getInvalidFPSError(0));
+    await expect(collect(getVideo(input, { temporalSmoothing: 1, }))).rejects.toThrow(getInvalidTemporalSmoothingError(1));
+    await expect(collect(getVideo(input, { output: 'file', }))).rejects.toThrow(getMissingOutputDirectoryError());
+  });
+
+  it('throws if given an invalid input', async () => {
+    await expect(collect(getVideo('foo' as unknown as VideoInput))).rejects.toThrow(getInvalidVideoInputError());
+  });
+
+  it('releases its memory when the consumer stops early', async () => {
+    const input = getFrames(1, 2, 3);
+    const startingTensors = tf.memory().numTensors;
+    for await (const { frame, } of getVideo(input, { temporalSmoothing: 0.5, })) {
+      frame.dispose();
+      break;
+    }
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  it('is able to abort', async () => {
+    const input = getFrames(1, 2, 3);
+    const controller = new AbortController();
+    const startingTensors = tf.memory().numTensors;
+    const gen = getVideo(input, { temporalSmoothing: 0.5, }, controller.signal);
+    const { value, } = await gen.next();
+    (value as { frame: tf.Tensor3D; }).frame.dispose();
+    controller.abort();
+    await expect(gen.next()).rejects.toThrow(AbortError);
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
+  describe('smoothFrame', () => {
+    it('returns the frame if there is nothing to blend with', () => {
+      const frame = tf.ones([2, 2, 3,]) as tf.Tensor3D;
+      const previous = tf.ones([4, 4, 3,]) as tf.Tensor3D;
+      expect(smoothFrame(frame, undefined, 0.5)).toBe(frame);
+      expect(smoothFrame(frame, previous, 0)).toBe(frame);
+      expect(smoothFrame(frame, previous, 0.5)).toBe(frame);
+      tf.dispose([frame, previous,]);
+    });
+  });
+
+  it('checks whether a frame is behind', () => {
+    expect(isFrameBehind(0, 50, 10)).toEqual(false);
+    expect(isFrameBehind(0, 150, 10)).toEqual(true);
+    expect(isFrameBehind(100, 150, 10)).toEqual(false);
+  });
+});
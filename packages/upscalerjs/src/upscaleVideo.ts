@@ -0,0 +1,145 @@
+import { tf, } from './dependencies.generated';
+import type {
+  ModelPackage,
+  UpscaleMetadata,
+  VideoArgs,
+  VideoFrame,
+  VideoSourceFrame,
+} from './types';
+import type { GetImageAsTensorInput, } from './image.generated';
+import {
+  DefaultVideoFrameFormat,
+  frameAsOutput,
+  getVideoElementFrames,
+  isVideoElement,
+  validateFrameOutput,
+  VideoFrameFormat,
+  VideoFrameResponse,
+  VideoInput,
+} from './video.generated';
+import { upscale, } from './upscale';
+import { wrapGenerator, } from './utils';
+import { makeTick, } from './makeTick';
+
+export type UpscaleVideoArgs<F extends VideoFrameFormat = DefaultVideoFrameFormat> = VideoArgs<F>;
+
+export type UpscaledVideoFrame<F extends VideoFrameFormat = DefaultVideoFrameFormat> = VideoFrame<VideoFrameResponse<F>>;
+
+const DEFAULT_FPS = 30;
+
+export const getInvalidFPSError = (fps: number): Error => new Error(
+  `Invalid fps provided, expected a positive number: ${fps}`,
+);
+
+export const getInvalidTemporalSmoothingError = (temporalSmoothing: number): Error => new Error(
+  `Invalid temporal smoothing provided, expected a number of at least 0 and less than 1: ${temporalSmoothing}`,
+);
+
+export const getInvalidVideoInputError = (): Error => new Error(
+  'Unsupported video input provided. Expected a sequence of frames, or a video element in the browser.',
+);
+
+const isFrameSequence = (input: unknown): input is Iterable<GetImageAsTensorInput> | AsyncIterable<GetImageAsTensorInput> => (
+  input !== null && typeof input === 'object' && (Symbol.iterator in input || Symbol.asyncIterator in input)
+);
+
+export async function* getVideoFrames(
+  input: VideoInput,
+  { fps, dropFrames, }: { fps: number; dropFrames: boolean; },
+): AsyncGenerator<VideoSourceFrame<GetImageAsTensorInput>, void> {
+  if (isVideoElement(input)) {
+    yield* getVideoElementFrames(input, { fps, dropFrames, });
+    return;
+  }
+  if (!isFrameSequence(input)) {
+    throw getInvalidVideoInputError();
+  }
+  let index = 0;
+  for await (const frame of input) {
+    yield { input: frame, index, timestamp: index * 1000 / fps, };
+    index += 1;
+  }
+}
+
+// blends an upscaled frame with the previous one. this function disposes of the given frame if it is blended
+export const smoothFrame = (frame: tf.Tensor3D, previous: tf.Tensor3D | undefined, temporalSmoothing: number): tf.Tensor3D => {
+  // frames are not blended across a change in size
+  if (!previous || temporalSmoothing === 0 || frame.shape.some((size, i) => size !== previous.shape[i])) {
+    return frame;
+  }
+  const smoothedFrame = tf.tidy(() => tf.add<tf.Tensor3D>(tf.mul(frame, 1 - temporalSmoothing), tf.mul(previous, temporalSmoothing)));
+  frame.dispose();
+  return smoothedFrame;
+};
+
+// returns true if a frame is more than a frame behind the time elapsed since the first frame
+export const isFrameBehind = (timestamp: number, elapsed: number, fps: number): boolean => elapsed > timestamp + 1000 / fps;
+
+export async function* cancellableUpscaleVideo<F extends VideoFrameFormat = DefaultVideoFrameFormat>(
+  input: VideoInput,
+  {
+    signal,
+    awaitNextFrame,
+    output,
+    fps = DEFAULT_FPS,
+    dropFrames = false,
+    temporalSmoothing = 0,
+    outputDirectory,
+    format,
+    ...args
+  }: UpscaleVideoArgs<F>,
+  internalArgs: {
+    modelPackage: Promise<ModelPackage>;
+    signal: AbortSignal;
+  },
+): AsyncGenerator<UpscaledVideoFrame<F>, void> {
+  if (!(fps > 0)) {
+    throw getInvalidFPSError(fps);
+  }
+  if (!(temporalSmoothing >= 0 && temporalSmoothing < 1)) {
+    throw getInvalidTemporalSmoothingError(temporalSmoothing);
+  }
+  validateFrameOutput({ output, outputDirectory, });
+  const tick = makeTick(signal || internalArgs.signal, awaitNextFrame);
+  await tick();
+  const modelPackage = await internalArgs.modelPackage;
+  // the patch size resolved for the first frame is reused for every following frame, so that each frame is split
+  // into the same patches and allocates tensors of the same shapes, which the backend can recycle between frames
+  let patchOptions: UpscaleMetadata | undefined;
+  // only the previous frame is retained between frames, and only when smoothing
+  let previousFrame: tf.Tensor3D | undefined;
+  let start: number | undefined;
+  try {
+    for await (const { input: frameInput, index, timestamp, } of getVideoFrames(input, { fps, dropFrames, })) {
+      const now = Date.now();
+      start = start ?? now - timestamp;
+      if (dropFrames && isFrameBehind(timestamp, now - start, fps)) {
+        continue;
+      }
+      const upscaledFrame = await wrapGenerator(upscale(frameInput, {
+        ...args,
+        ...(patchOptions ? {
+          patchSize: patchOptions.patchSize,
+          padding: patchOptions.padding || 0,
+        } : {
+          onMetadata: (metadata: UpscaleMetadata) => {
+            patchOptions = metadata;
+            args.onMetadata?.(metadata);
+          },
+        }),
+        output: 'tensor',
+      }, modelPackage), tick);
+      const frame = smoothFrame(upscaledFrame, previousFrame, temporalSmoothing);
+      previousFrame?.dispose();
+      previousFrame = temporalSmoothing > 0 ? frame.clone() : undefined;
+      yield {
+        index,
+        timestamp,
+        frame: await frameAsOutput(frame, index, { output, outputDirectory, format, }),
+      };
+      await tick();
+    }
+  } finally {
+    previousFrame?.dispose();
+  }
+}
@@ -1,13 +1,17 @@
-import { Upscaler } from './upscaler';
+import { Upscaler, getDuplicateJobIdError, } from './upscaler';
 import type { LayersModel } from '@tensorflow/tfjs';
 import { loadModel as _loadModel, } from './loadModel.generated';
 import { cancellableWarmup as _cancellableWarmup, } from './warmup';
 import { getImageAsTensor as _getImageAsTensor } from './image.generated';
 import { cancellableUpscale as _cancellableUpscale, } from './upscale';
+import { cancellableUpscaleToFile as _cancellableUpscaleToFile, } from './upscaleToFile';
+import { cancellableUpscaleStream as _cancellableUpscaleStream, } from './upscaleStream';
+import { cancellableUpscaleVideo as _cancellableUpscaleVideo, } from './upscaleVideo';
 import { WarmupSizes } from './types';
 import { ModelDefinition } from '@upscalerjs/core';
 import { mockFn } from '../../../test/lib/shared/mockers';
 import * as _tf from '@tensorflow/tfjs-node';
+import { AbortError, } from './utils';
 jest.mock('./image.generated', () => {
   const { getImageAsTensor, ...rest } = jest.requireActual('./image.generated');
   return {
@@ -22,6 +26,27 @@ jest.mock('./upscale', () => {
     cancellableUpscale: jest.fn(cancellableUpscale),
   };
 });
+jest.mock('./upscaleToFile', () => {
+  const { cancellableUpscaleToFile, ...rest } = jest.requireActual('./upscaleToFile');
+  return {
+    ...rest,
+    cancellableUpscaleToFile: jest.fn(cancellableUpscaleToFile),
+  };
+});
+jest.mock('./upscaleStream', () => {
+  const { cancellableUpscaleStream, ...rest } = jest.requireActual('./upscaleStream');
+  return {
+    ...rest,
+    cancellableUpscaleStream: jest.fn(cancellableUpscaleStream),
+  };
+});
+jest.mock('./upscaleVideo', () => {
+  const { cancellableUpscaleVideo, ...rest } = jest.requireActual('./upscaleVideo');
+  return {
+    ...rest,
+    cancellableUpscaleVideo: jest.fn(cancellableUpscaleVideo),
+  };
+});
 jest.mock('./loadModel.generated', () => {
   const { loadModel, ...rest } = jest.requireActual('./loadModel.generated');
   return {
@@ -45,6 +70,9 @@ jest.mock('./dependencies.generated', () => {
 
 const cancellableUpscale = mockFn(_cancellableUpscale);
 const cancellableWarmup = mockFn(_cancellableWarmup);
+const cancellableUpscaleToFile = mockFn(_cancellableUpscaleToFile);
+const cancellableUpscaleStream = mockFn(_cancellableUpscaleStream);
+const cancellableUpscaleVideo = mockFn(_cancellableUpscaleVideo);
 const loadModel = mockFn(_loadModel);
 const getImageAsTensor = mockFn(_getImageAsTensor);
 
@@ -56,6 +84,34 @@ describe('Upscaler', () => {
     getImageAsTensor.mockClear();
   });
 
+  it('reports model load progress to the option and to listeners', async () => {
+    loadModel.mockImplementation(async (_modelDefinition, { onProgress, } = {}) => {
+      onProgress?.(0.5);
+      await new Promise(resolve => setTimeout(resolve));
+      onProgress?.(1);
+      return {
+        modelDefinition: {
+          path: 'foo',
+          scale: 2,
+        },
+        model: 'foo' as unknown as LayersModel,
+      };
+    });
+    const onModelLoadProgress = jest.fn();
+    const listener = jest.fn();
+    const removedListener = jest.fn();
+    const upscaler = new Upscaler({
+      onModelLoadProgress,
+    });
+    upscaler.on('modelLoadProgress', listener);
+    upscaler.on('modelLoadProgress', removedListener);
+    upscaler.off('modelLoadProgress', removedListener);
+    await upscaler.getModel();
+    expect(onModelLoadProgress.mock.calls).toEqual([[0.5,], [1,],]);
+    expect(listener.mock.calls).toEqual([[1,],]);
+    expect(removedListener).not.toHaveBeenCalled();
+  });
+
   it('is able to abort multiple times', (): Promise<void> => new Promise(async (resolve, reject) => {
     loadModel.mockImplementation(async () => {
       return {
@@ -135,4 +191,379 @@ describe('Upscaler', () => {
     await upscaler.warmup(warmupSizes);
     expect(cancellableWarmup).toBeCalledWith(modelDefinitionPromise, warmupSizes, undefined, expect.any(Object));
   });
+
+  it('is able to stream tiles', async () => {
+    const model = _tf.sequential();
+    model.add(_tf.layers.upSampling2d({
+      size: [2, 2,],
+      dataFormat: 'channelsLast',
+      inputShape: [null, null, 3,],
+    }));
+    loadModel.mockImplementation(async () => ({
+      modelDefinition: {
+        path: 'foo',
+        scale: 2,
+      },
+      model,
+    }));
+    getImageAsTensor.mockImplementation(async () => _tf.ones([1, 4, 4, 3,]));
+    const upscaler = new Upscaler();
+    const tiles = [];
+    for await (const tile of upscaler.upscaleStream('foo', {
+      patchSize: 2,
+      padding: 0,
+      output: 'tensor',
+    })) {
+      expect(tile.tensor.shape).toEqual([4, 4, 3,]);
+      tile.tensor.dispose();
+      tiles.push([tile.row, tile.col,]);
+    }
+    expect(tiles).toEqual([[0, 0,], [0, 1,], [1, 0,], [1, 1,],]);
+  });
+
+  it('is able to upscale video frames', async () => {
+    const model = _tf.sequential();
+    model.add(_tf.layers.upSampling2d({
+      size: [2, 2,],
+      dataFormat: 'channelsLast',
+      inputShape: [null, null, 3,],
+    }));
+    loadModel.mockImplementation(async () => ({
+      modelDefinition: {
+        path: 'foo',
+        scale: 2,
+      },
+      model,
+    }));
+    getImageAsTensor.mockImplementation(async () => _tf.ones([1, 2, 2, 3,]));
+    const upscaler = new Upscaler();
+    const indices = [];
+    for await (const { index, frame, } of upscaler.upscaleVideo(['foo', 'bar',], { output: 'tensor', })) {
+      expect(frame.shape).toEqual([4, 4, 3,]);
+      frame.dispose();
+      indices.push(index);
+    }
+    expect(indices).toEqual([0, 1,]);
+  });
+
+  it('queues upscale requests', async () => {
+    loadModel.mockImplementation(async () => ({
+      modelDefinition: {
+        path: 'foo',
+        scale: 2,
+      },
+      model: 'foo' as unknown as LayersModel,
+    }));
+    const resolvers: Array<() => void> = [];
+    cancellableUpscale.mockImplementation(() => new Promise(resolve => resolvers.push(() => resolve(''))));
+    const upscaler = new Upscaler({
+      concurrency: 1,
+    });
+    const results = [upscaler.upscale('foo'), upscaler.upscale('bar'),];
+    await new Promise(resolve => setTimeout(resolve));
+    expect(upscaler.running).toEqual(1);
+    expect(upscaler.pending).toEqual(1);
+    expect(cancellableUpscale).toHaveBeenCalledTimes(1);
+    resolvers[0]();
+    await new Promise(resolve => setTimeout(resolve));
+    expect(cancellableUpscale).toHaveBeenCalledTimes(2);
+    resolvers[1]();
+    await Promise.all(results);
+    expect(upscaler.running).toEqual(0);
+  });
+
+  it('cancels queued upscale requests on abort', async () => {
+    loadModel.mockImplementation(async () => ({
+      modelDefinition: {
+        path: 'foo',
+        scale: 2,
+      },
+      model: 'foo' as unknown as LayersModel,
+    }));
+    cancellableUpscale.mockImplementation(() => new Promise(() => {}));
+    const upscaler = new Upscaler();
+    void upscaler.upscale('foo');
+    const queued = upscaler.upscale('bar');
+    await new Promise(resolve => setTimeout(resolve));
+    expect(upscaler.pending).toEqual(1);
+    upscaler.abort();
+    await expect(queued).rejects.toThrow(AbortError);
+    expect(upscaler.pending).toEqual(0);
+    expect(cancellableUpscale).toHaveBeenCalledTimes(1);
+  });
+
+  it('is able to upscale to a file', async () => {
+    const modelPackage = {
+      modelDefinition: {
+        path: 'foo',
+        scale: 2,
+      },
+      model: 'foo' as unknown as LayersModel,
+    };
+    loadModel.mockImplementation(async () => modelPackage);
+    cancellableUpscaleToFile.mockImplementation(async () => {});
+    const upscaler = new Upscaler();
+    const options = { patchSize: 64, padding: 2, };
+    await upscaler.upscaleToFile('foo.png', 'bar.png', options);
+    expect(cancellableUpscaleToFile).toBeCalledWith('foo.png', 'bar.png', expect.objectContaining(options), expect.objectContaining(modelPackage));
+  });
+
+  describe('setModel', () => {
+    const getModelPackage = (path: string) => ({
+      modelDefinition: {
+        path,
+        scale: 2,
+      },
+      model: {
+        dispose: jest.fn(),
+      } as unknown as LayersModel,
+    });
+
+    it('swaps the model once running requests finish, and uses the new model for queued requests', async () => {
+      const first = getModelPackage('first');
+      const second = getModelPackage('second');
+      loadModel.mockImplementation(async (modelDefinition) => modelDefinition?.path === 'first' ? first : second);
+      const resolvers: Array<() => void> = [];
+      cancellableUpscale.mockImplementation(() => new Promise(resolve => resolvers.push(() => resolve(''))));
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      const running = upscaler.upscale('foo');
+      const queued = upscaler.upscale('bar');
+      await new Promise(resolve => setTimeout(resolve));
+      const swapped = upscaler.setModel(second.modelDefinition);
+      await new Promise(resolve => setTimeout(resolve));
+      expect(first.model.dispose).not.toHaveBeenCalled();
+      resolvers[0]();
+      await running;
+      await new Promise(resolve => setTimeout(resolve));
+      expect(cancellableUpscale).toHaveBeenLastCalledWith('bar', expect.anything(), expect.objectContaining(second));
+      resolvers[1]();
+      await Promise.all([queued, swapped,]);
+      expect(first.model.dispose).toHaveBeenCalledTimes(1);
+      expect(second.model.dispose).not.toHaveBeenCalled();
+      expect(await upscaler.getModel()).toEqual(second);
+    });
+
+    it('does not wait for requests that start with the new model', async () => {
+      const first = getModelPackage('first');
+      const second = getModelPackage('second');
+      loadModel.mockImplementation(async (modelDefinition) => modelDefinition?.path === 'first' ? first : second);
+      const resolvers: Array<() => void> = [];
+      cancellableUpscale.mockImplementation(() => new Promise(resolve => resolvers.push(() => resolve(''))));
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+        concurrency: 2,
+      });
+      const running = upscaler.upscale('foo');
+      await new Promise(resolve => setTimeout(resolve));
+      const swapped = upscaler.setModel(second.modelDefinition);
+      await new Promise(resolve => setTimeout(resolve));
+      void upscaler.upscale('bar');
+      await new Promise(resolve => setTimeout(resolve));
+      expect(cancellableUpscale).toHaveBeenLastCalledWith('bar', expect.anything(), expect.objectContaining(second));
+      resolvers[0]();
+      await Promise.all([running, swapped,]);
+      expect(first.model.dispose).toHaveBeenCalledTimes(1);
+      resolvers[1]();
+    });
+
+    it('waits for running streams to finish before disposing of the previous model', async () => {
+      const first = getModelPackage('first');
+      const second = getModelPackage('second');
+      loadModel.mockImplementation(async (modelDefinition) => modelDefinition?.path === 'first' ? first : second);
+      cancellableUpscaleStream.mockImplementationOnce(async function* (_image, _options, { modelPackage, }) {
+        await modelPackage;
+        yield 'foo' as never;
+        yield 'bar' as never;
+      });
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      const stream = upscaler.upscaleStream('foo');
+      await stream.next();
+      const swapped = upscaler.setModel(second.modelDefinition);
+      await new Promise(resolve => setTimeout(resolve));
+      expect(first.model.dispose).not.toHaveBeenCalled();
+      await stream.return();
+      await swapped;
+      expect(first.model.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits for running videos to finish before disposing of the previous model', async () => {
+      const first = getModelPackage('first');
+      const second = getModelPackage('second');
+      loadModel.mockImplementation(async (modelDefinition) => modelDefinition?.path === 'first' ? first : second);
+      cancellableUpscaleVideo.mockImplementationOnce(async function* (_video, _options, { modelPackage, }) {
+        await modelPackage;
+        yield 'foo' as never;
+        yield 'bar' as never;
+      });
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      const video = upscaler.upscaleVideo(['foo', 'bar',]);
+      await video.next();
+      const swapped = upscaler.setModel(second.modelDefinition);
+      await new Promise(resolve => setTimeout(resolve));
+      expect(first.model.dispose).not.toHaveBeenCalled();
+      expect(await video.next()).toEqual({ done: false, value: 'bar', });
+      expect(await video.next()).toEqual({ done: true, value: undefined, });
+      await swapped;
+      expect(first.model.dispose).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies concurrent calls in the order they were made', async () => {
+      const first = getModelPackage('first');
+      const second = getModelPackage('second');
+      const third = getModelPackage('third');
+      loadModel.mockImplementation(async (modelDefinition) => {
+        if (modelDefinition?.path === 'second') {
+          // the second model takes longer to load than the third
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return second;
+        }
+        return modelDefinition?.path === 'first' ? first : third;
+      });
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      const settled: string[] = [];
+      await Promise.all([
+        upscaler.setModel(second.modelDefinition).then(() => settled.push('second')),
+        upscaler.setModel(third.modelDefinition).then(() => settled.push('third')),
+      ]);
+      expect(settled).toEqual(['second', 'third',]);
+      expect(await upscaler.getModel()).toEqual(third);
+      expect(first.model.dispose).toHaveBeenCalledTimes(1);
+      expect(second.model.dispose).toHaveBeenCalledTimes(1);
+      expect(third.model.dispose).not.toHaveBeenCalled();
+    });
+
+    it('applies later calls if an earlier one fails', async () => {
+      const first = getModelPackage('first');
+      const third = getModelPackage('third');
+      const error = new Error('foo');
+      loadModel.mockImplementation(async (modelDefinition) => {
+        if (modelDefinition?.path === 'second') {
+          throw error;
+        }
+        return modelDefinition?.path === 'first' ? first : third;
+      });
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      const failed = upscaler.setModel({ path: 'second', scale: 2, });
+      const swapped = upscaler.setModel(third.modelDefinition);
+      await expect(failed).rejects.toThrow(error);
+      await swapped;
+      expect(await upscaler.getModel()).toEqual(third);
+    });
+
+    it('warms up the new model', async () => {
+      const second = getModelPackage('second');
+      loadModel.mockImplementation(async (modelDefinition) => modelDefinition?.path === 'first' ? getModelPackage('first') : second);
+      cancellableWarmup.mockImplementation(async () => {});
+      const warmupSizes: WarmupSizes[] = [{ patchSize: 8, },];
+      const upscaler = new Upscaler({
+        model: getModelPackage('first').modelDefinition,
+        warmupSizes,
+      });
+      await upscaler.setModel(second.modelDefinition);
+      expect(cancellableWarmup).toHaveBeenCalledTimes(2);
+      expect(await cancellableWarmup.mock.calls[1][0]).toEqual(second);
+      expect(cancellableWarmup.mock.calls[1][1]).toEqual(warmupSizes);
+    });
+
+    it('keeps the previous model if the new one fails to load', async () => {
+      const first = getModelPackage('first');
+      const error = new Error('foo');
+      loadModel.mockImplementation(async (modelDefinition) => {
+        if (modelDefinition?.path === 'first') {
+          return first;
+        }
+        throw error;
+      });
+      const upscaler = new Upscaler({
+        model: first.modelDefinition,
+      });
+      await expect(upscaler.setModel({ path: 'second', scale: 2, })).rejects.toThrow(error);
+      expect(await upscaler.getModel()).toEqual(first);
+      expect(first.model.dispose).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    beforeEach(() => {
+      loadModel.mockImplementation(async () => ({
+        modelDefinition: {
+          path: 'foo',
+          scale: 2,
+        },
+        model: 'foo' as unknown as LayersModel,
+      }));
+    });
+
+    it('cancels a queued request by its id', async () => {
+      const resolvers: Array<() => void> = [];
+      cancellableUpscale.mockImplementation(() => new Promise(resolve => resolvers.push(() => resolve('foo'))));
+      const upscaler = new Upscaler();
+      const running = upscaler.upscale('foo', { id: 'running', });
+      const queued = upscaler.upscale('bar', { id: 'queued', });
+      await new Promise(resolve => setTimeout(resolve));
+      upscaler.cancel('queued');
+      await expect(queued).rejects.toEqual(expect.objectContaining({ id: 'queued', }));
+      expect(upscaler.pending).toEqual(0);
+      resolvers[0]();
+      expect(await running).toEqual('foo');
+      expect(cancellableUpscale).toHaveBeenCalledTimes(1);
+    });
+
+    it('cancels a running request by its id', async () => {
+      cancellableUpscale.mockImplementation((_image, { signal, id, }) => new Promise((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new AbortError(id)));
+      }));
+      const upscaler = new Upscaler();
+      const running = upscaler.upscale('foo', { id: 'foo', });
+      await new Promise(resolve => setTimeout(resolve));
+      expect(upscaler.running).toEqual(1);
+      upscaler.cancel('foo');
+      await expect(running).rejects.toThrow(AbortError);
+      await expect(running).rejects.toEqual(expect.objectContaining({ id: 'foo', }));
+    });
+
+    it('ignores ids that are not in progress', () => {
+      const upscaler = new Upscaler();
+      expect(() => upscaler.cancel('foo')).not.toThrow();
+    });
+
+    it('throws if an id is already in progress', async () => {
+      cancellableUpscale.mockImplementation(() => new Promise(() => {}));
+      const upscaler = new Upscaler();
+      void upscaler.upscale('foo', { id: 'foo', });
+      await expect(upscaler.upscale('bar', { id: 'foo', })).rejects.toThrow(getDuplicateJobIdError('foo'));
+    });
+
+    it('cancels a request when the provided signal is aborted', async () => {
+      cancellableUpscale.mockImplementation(() => new Promise(() => {}));
+      const upscaler = new Upscaler();
+      const controller = new AbortController();
+      void upscaler.upscale('foo');
+      const queued = upscaler.upscale('bar', { signal: controller.signal, });
+      await new Promise(resolve => setTimeout(resolve));
+      controller.abort();
+      await expect(queued).rejects.toThrow(AbortError);
+    });
+
+    it('returns a handle for cancelling a request', async () => {
+      cancellableUpscale.mockImplementation(() => new Promise(() => {}));
+      const upscaler = new Upscaler();
+      void upscaler.upscale('foo');
+      const handle = upscaler.upscaleWithHandle('bar');
+      expect(typeof handle.id).toEqual('string');
+      await new Promise(resolve => setTimeout(resolve));
+      handle.cancel();
+      await expect(handle.promise).rejects.toEqual(expect.objectContaining({ id: handle.id, }));
+    });
+  });
 });
@@ -23,20 +23,58 @@ import type {
   ModelPackage,
   BASE64,
   UpscaleArgs,
+  UpscaleStreamArgs,
+  UpscaleTile,
+  UpscaleToFileArgs,
+  UpscaleHandle,
+  UpscalerEvent,
+  UpscalerEventMap,
   WarmupArgs,
 } from './types';
 import { loadModel, } from './loadModel.generated';
 import { cancellableWarmup, } from './warmup';
 import { cancellableUpscale, } from './upscale';
-import type { GetImageAsTensorInput, } from './image.generated';
+import { cancellableUpscaleStream, } from './upscaleStream';
+import { cancellableUpscaleToFile, } from './upscaleToFile';
+import { cancellableUpscaleVideo, } from './upscaleVideo';
+import type { UpscaledVideoFrame, UpscaleVideoArgs, } from './upscaleVideo';
+import type { GetImageAsTensorInput, PlatformImageEncodingOptions, } from './image.generated';
+import type { DefaultVideoFrameFormat, VideoFrameFormat, VideoInput, } from './video.generated';
 import type { ModelDefinitionObjectOrFn, } from '@upscalerjs/core';
 import { getModel, } from './utils';
+import { Queue, } from './queue';
 
 // TODO: Why do we need to explicitly cast this to ModelDefinition?
 // This is an ESLint issue, Typescript picks this up correctly
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 const DEFAULT_MODEL: ModelDefinitionObjectOrFn = DefaultUpscalerModel;
 
+export const getDuplicateJobIdError = (id: string): Error => new Error(
+  `A request with the id "${id}" is already in progress. Request ids must be unique.`,
+);
+
+let jobCount = 0;
+const getJobId = (): string => `upscale-${jobCount++}`;
+
+// a request's hold on the model it is using, which is released once the request settles
+interface ModelUsage {
+  modelPackage: Promise<ModelPackage>;
+  released: Promise<void>;
+}
+
+// holds the model for as long as a generator is running, so that it is not disposed of between frames or tiles
+async function* withModelUsage<T>(
+  useModel: () => Promise<[Promise<ModelPackage>, () => void,]>,
+  getGenerator: (modelPackage: Promise<ModelPackage>) => AsyncGenerator<T, void>,
+): AsyncGenerator<T, void> {
+  const [modelPackage, release,] = await useModel();
+  try {
+    yield* getGenerator(modelPackage);
+  } finally {
+    release();
+  }
+}
+
 export class Upscaler {
   /**
    * @hidden
@@ -58,6 +96,33 @@ export class Upscaler {
    */
   _abortController = new AbortController();
 
+  /**
+   * @hidden
+   */
+  _queue: Queue;
+
+  /**
+   * @hidden
+   */
+  _jobs = new Map<string, AbortController>();
+
+  /**
+   * @hidden
+   */
+  _modelUsages = new Set<ModelUsage>();
+
+  /**
+   * @hidden
+   */
+  _modelChange: Promise<void> = Promise.resolve();
+
+  /**
+   * @hidden
+   */
+  _listeners: { [E in UpscalerEvent]: Set<UpscalerEventMap[E]> } = {
+    modelLoadProgress: new Set(),
+  };
+
   /**
    * Instantiates an instance of UpscalerJS.
    * 
@@ -77,7 +142,11 @@ export class Upscaler {
     this._opts = {
       ...opts,
     };
-    this._model = loadModel(getModel(this._opts.model || DEFAULT_MODEL));
+    this._queue = new Queue(this._opts.concurrency);
+    this._model = loadModel(getModel(this._opts.model || DEFAULT_MODEL), {
+      ...this._opts,
+      onProgress: this._onModelLoadProgress,
+    });
     this._ready = new Promise<void>((resolve) => {
       void this.warmup(this._opts.warmupSizes).then(resolve); // skipcq: js-0098
     });
@@ -109,17 +178,167 @@ export class Upscaler {
    */
   upscale = async<P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
     image: GetImageAsTensorInput,
-    options: UpscaleArgs<P, O, PO> = {},
+    options: UpscaleArgs<P, O, PO> & PlatformImageEncodingOptions = {},
   ): Promise<UpscaleResponse<O>> => {
-    await this._ready;
-    const { model, modelDefinition, } = await this._model;
-    return cancellableUpscale(image, options, {
-      model,
-      modelDefinition,
-      signal: this._abortController.signal,
-    });
+    const { id = getJobId(), } = options;
+    return this._runJob(id, options.signal, signal => this._queue.add(async () => {
+      // the model is resolved once the request starts, so queued requests use the latest model
+      const [modelPackage, release,] = await this._useModel();
+      try {
+        const { model, modelDefinition, } = await modelPackage;
+        return await cancellableUpscale(image, {
+          ...options,
+          id,
+          signal,
+        }, {
+          model,
+          modelDefinition,
+          signal: this._abortController.signal,
+        });
+      } finally {
+        release();
+      }
+    }, {
+      priority: options.priority,
+      signal,
+      id,
+    }));
   };
 
+  /**
+   * Upscales a given image, returning a handle that can be used to cancel the request.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * const { promise, cancel } = upscaler.upscaleWithHandle(image);
+   * promise.catch(err => {
+   *   console.log('Request was cancelled:', err.id);
+   * });
+   * cancel();
+   * ```
+   *
+   * @param image the image to upscale. If in the browser, this can be a string to a file path, a tensor, or any element tf.fromPixels supports. If in Node, this can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param options a set of upscaling arguments
+   * @returns a handle of shape ```{ id, promise, cancel }```.
+   */
+  upscaleWithHandle = <P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
+    image: GetImageAsTensorInput,
+    options: UpscaleArgs<P, O, PO> & PlatformImageEncodingOptions = {},
+  ): UpscaleHandle<O> => {
+    const { id = getJobId(), } = options;
+    return {
+      id,
+      promise: this.upscale(image, {
+        ...options,
+        id,
+      }),
+      cancel: () => this.cancel(id),
+    };
+  };
+
+  /**
+   * Upscales a given image patch by patch, returning an async iterator of finished tiles.
+   * Tiles are yielded a row at a time, and the next row is not computed until the previous one has been consumed.
+   * Streams are not queued, and are not limited by `concurrency` or ordered by `priority`.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * for await (const { row, col, origin, base64 } of upscaler.upscaleStream(image, {
+   *   patchSize: 64,
+   *   padding: 2,
+   * })) {
+   *   console.log(row, col, origin, base64);
+   * }
+   * ```
+   *
+   * @param image the image to upscale. If in the browser, this can be a string to a file path, a tensor, or any element tf.fromPixels supports. If in Node, this can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param options a set of upscaling arguments
+   * @returns an async iterator of upscaled tiles.
+   */
+  upscaleStream = <O extends ResultFormat = BASE64>(
+    image: GetImageAsTensorInput,
+    options: UpscaleStreamArgs<O> & PlatformImageEncodingOptions = {},
+  ): AsyncGenerator<UpscaleTile<O>, void> => withModelUsage(this._useModel, modelPackage => cancellableUpscaleStream(image, options, {
+    modelPackage,
+    signal: this._abortController.signal,
+  }));
+
+  /**
+   * Upscales a given image and writes the result to a file, row by row, so that the full upscaled image is never held in memory. Only supported in Node.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * upscaler.upscaleToFile('/path/to/image.png', '/path/to/upscaled.png', {
+   *   patchSize: 64,
+   *   padding: 2,
+   * }).then(() => {
+   *   console.log('Done!');
+   * });
+   * ```
+   *
+   * @param image the image to upscale. This can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param outputPath the path of the file to write to
+   * @param options a set of upscaling arguments
+   */
+  upscaleToFile = async (
+    image: GetImageAsTensorInput,
+    outputPath: string,
+    options: UpscaleToFileArgs = {},
+  ): Promise<void> => {
+    const { id = getJobId(), } = options;
+    return this._runJob(id, options.signal, signal => this._queue.add(async () => {
+      const [modelPackage, release,] = await this._useModel();
+      try {
+        const { model, modelDefinition, } = await modelPackage;
+        return await cancellableUpscaleToFile(image, outputPath, {
+          ...options,
+          id,
+          signal,
+        }, {
+          model,
+          modelDefinition,
+          signal: this._abortController.signal,
+        });
+      } finally {
+        release();
+      }
+    }, {
+      priority: options.priority,
+      signal,
+      id,
+    }));
+  };
+
+  /**
+   * Upscales a sequence of frames, returning an async iterator of upscaled frames.
+   * The next frame is not upscaled until the previous one has been consumed. The patch size used for the first frame,
+   * including one picked with `auto`, is reused for every following frame. Videos are not queued, and are not limited
+   * by `concurrency`.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * for await (const { index, timestamp, frame } of upscaler.upscaleVideo(video, {
+   *   patchSize: 64,
+   *   padding: 2,
+   *   fps: 24,
+   *   temporalSmoothing: 0.2,
+   * })) {
+   *   context.drawImage(frame, 0, 0);
+   * }
+   * ```
+   *
+   * @param video the frames to upscale. This can be an iterable or async iterable of images, or, in the browser, a video element.
+   * @param options a set of upscaling arguments
+   * @returns an async iterator of upscaled frames.
+   */
+  upscaleVideo = <F extends VideoFrameFormat = DefaultVideoFrameFormat>(
+    video: VideoInput,
+    options: UpscaleVideoArgs<F> = {},
+  ): AsyncGenerator<UpscaledVideoFrame<F>, void> => withModelUsage(this._useModel, modelPackage => cancellableUpscaleVideo(video, options, {
+    modelPackage,
+    signal: this._abortController.signal,
+  }));
+
   /**
    * Warms up an upscaler instance.
    * 
@@ -133,14 +352,18 @@ export class Upscaler {
    * ```
    */
   warmup = async (warmupSizes: WarmupSizes[] = [], options?: WarmupArgs): Promise<void> => {
-    await this._ready;
-    return cancellableWarmup(this._model, warmupSizes, options, {
-      signal: this._abortController.signal,
-    });
+    const [modelPackage, release,] = await this._useModel();
+    try {
+      return await cancellableWarmup(modelPackage, warmupSizes, options, {
+        signal: this._abortController.signal,
+      });
+    } finally {
+      release();
+    }
   };
 
   /**
-   * Aborts all active asynchronous methods (including upscaling and warm up methods).
+   * Aborts all active asynchronous methods (including upscaling and warm up methods), and cancels any queued upscale requests.
    * 
    * ```javascript
    * const upscaler = new Upscaler();
@@ -148,10 +371,177 @@ export class Upscaler {
    * ```
    */
   abort = (): void => {
+    this._jobs.forEach(controller => controller.abort());
+    this._queue.clear();
     this._abortController.abort();
     this._abortController = new AbortController();
   };
 
+  /**
+   * Cancels a single upscale request, whether it is queued or running, by its id.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * upscaler.upscale(image, { id: 'foo' }).catch(err => {
+   *   console.log(err.id); // 'foo'
+   * });
+   * upscaler.cancel('foo');
+   * ```
+   */
+  cancel = (id: string): void => {
+    this._jobs.get(id)?.abort();
+  };
+
+  /**
+   * @hidden
+   */
+  _useModel = async (): Promise<[Promise<ModelPackage>, () => void,]> => {
+    await this._ready;
+    // the current model is read and held in the same tick, so setModel cannot dispose of it in between
+    let release = (): void => undefined;
+    const usage: ModelUsage = {
+      modelPackage: this._model,
+      released: new Promise<void>(resolve => {
+        release = resolve;
+      }),
+    };
+    this._modelUsages.add(usage);
+    return [usage.modelPackage, () => {
+      this._modelUsages.delete(usage);
+      release();
+    },];
+  };
+
+  /**
+   * @hidden
+   */
+  _runJob = async <T>(
+    id: string,
+    signal: AbortSignal | undefined,
+    fn: (signal: AbortSignal) => Promise<T>,
+  ): Promise<T> => {
+    if (this._jobs.has(id)) {
+      throw getDuplicateJobIdError(id);
+    }
+    const controller = new AbortController();
+    this._jobs.set(id, controller);
+    // a signal provided by the caller cancels the request as well
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort);
+    try {
+      return await fn(controller.signal);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this._jobs.delete(id);
+    }
+  };
+
+  /**
+   * Listens for events emitted by the upscaler.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * upscaler.on('modelLoadProgress', (progress) => {
+   *   console.log('Model load progress:', progress);
+   * });
+   * ```
+   */
+  on = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].add(listener);
+  };
+
+  /**
+   * Removes a listener previously added with `on`.
+   */
+  off = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].delete(listener);
+  };
+
+  /**
+   * @hidden
+   */
+  _onModelLoadProgress = (progress: number): void => {
+    this._opts.onModelLoadProgress?.(progress);
+    this._listeners.modelLoadProgress.forEach(listener => listener(progress));
+  };
+
+  /**
+   * The number of upscale requests waiting in the queue. Streams and videos are not queued, and are not counted.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * console.log(upscaler.pending);
+   * ```
+   */
+  get pending(): number {
+    return this._queue.pending;
+  }
+
+  /**
+   * The number of queued upscale requests currently running, not counting streams and videos.
+   * 
+   * ```javascript
+   * const upscaler = new Upscaler();
+   * console.log(upscaler.running);
+   * ```
+   */
+  get running(): number {
+    return this._queue.running;
+  }
+
+  /**
+   * Replaces the model used by an UpscalerJS instance. Once the new model has loaded, the previous model is
+   * disposed of and any configured `warmupSizes` are run again. Requests, streams and videos that are already running
+   * finish with the previous model; those that start afterwards, including queued requests, use the new model.
+   * If `setModel` is called again before it has finished, the calls are applied in order, so the last model set
+   * is the one that stays in use.
+   * 
+   * ```javascript
+   * import x2 from '@upscalerjs/esrgan-slim/2x';
+   * import x4 from '@upscalerjs/esrgan-slim/4x';
+   * 
+   * const upscaler = new Upscaler({
+   *   model: x2,
+   * });
+   * upscaler.setModel(x4).then(() => {
+   *   console.log('Now upscaling with the 4x model');
+   * });
+   * ```
+   */
+  setModel = (modelDefinition: ModelDefinitionObjectOrFn): Promise<void> => {
+    // a failed call does not prevent later calls from being applied
+    const modelChange = this._modelChange.catch(() => undefined).then(() => this._setModel(modelDefinition));
+    this._modelChange = modelChange;
+    return modelChange;
+  };
+
+  /**
+   * @hidden
+   */
+  _setModel = async (modelDefinition: ModelDefinitionObjectOrFn): Promise<void> => {
+    // if the new model fails to load, the previous model remains in place
+    const modelPackage = await loadModel(getModel(modelDefinition), {
+      ...this._opts,
+      onProgress: this._onModelLoadProgress,
+    });
+    const previousModel = this._model;
+    this._opts.model = modelDefinition;
+    this._model = Promise.resolve(modelPackage);
+    const warmup = this._ready.then(() => cancellableWarmup(this._model, this._opts.warmupSizes || [], undefined, {
+      signal: this._abortController.signal,
+    }));
+    // a failed warm up is reported by setModel; the model itself can still be used
+    this._ready = warmup.catch(() => undefined);
+    // only work that is holding the previous model is waited on; anything that starts from here uses the new model
+    const previousModelUsages = Array.from(this._modelUsages).filter(usage => usage.modelPackage === previousModel);
+    await Promise.all(previousModelUsages.map(usage => usage.released));
+    await previousModel.then(({ model, }) => model.dispose(), () => undefined);
+    await warmup;
+  };
+
   /**
    * Disposes of an UpscalerJS instance and clears up any used memory.
    * 
@@ -0,0 +1,204 @@
+import { MessageChannel, MessagePort, } from 'worker_threads';
+import * as tf from '@tensorflow/tfjs-node';
+import type { LayersModel, } from '@tensorflow/tfjs';
+import {
+  getInvalidPoolSizeError,
+  getInvalidTileSizeError,
+  getPoolDisposedError,
+  getTileOutputSizeError,
+  UpscalerPool,
+} from './upscalerPool';
+import { handleWorkerMessages, WorkerRequest, WorkerResponse, } from './worker';
+import { getWorkerPort, } from './worker.generated';
+import { loadModel as _loadModel, } from './loadModel.generated';
+import { AbortError, } from './utils';
+import { mockFn, } from '../../../test/lib/shared/mockers';
+
+jest.mock('./loadModel.generated', () => {
+  const { loadModel, ...rest } = jest.requireActual('./loadModel.generated');
+  return {
+    ...rest,
+    loadModel: jest.fn(loadModel),
+  };
+});
+
+const loadModel = mockFn(_loadModel);
+
+describe('UpscalerPool', () => {
+  let workerPorts: MessagePort[] = [];
+  let pools: UpscalerPool[] = [];
+
+  beforeEach(() => {
+    loadModel.mockImplementation(async (_modelDefinition, { onProgress, } = {}) => {
+      const model = tf.sequential();
+      model.add(tf.layers.upSampling2d({
+        size: [2, 2,],
+        dataFormat: 'channelsLast',
+        inputShape: [null, null, 1,],
+      }));
+      onProgress?.(1);
+      return {
+        modelDefinition: {
+          path: 'foo',
+          scale: 2,
+          channels: 1,
+        },
+        model: model as unknown as LayersModel,
+      };
+    });
+  });
+
+  afterEach(async () => {
+    await Promise.all(pools.map(pool => pool.dispose()));
+    pools = [];
+    workerPorts.forEach(port => port.close());
+    workerPorts = [];
+    loadModel.mockClear();
+  });
+
+  // each worker is one end of a message channel, answered in this thread
+  const createWorker = () => {
+    const { port1, port2, } = new MessageChannel();
+    handleWorkerMessages(getWorkerPort<WorkerResponse, WorkerRequest>(port2), {}, jest.fn());
+    workerPorts.push(port2);
+    return port1;
+  };
+
+  const getPool = (opts: ConstructorParameters<typeof UpscalerPool>[0] = {}) => {
+    const pool = new UpscalerPool({
+      size: 2,
+      createWorker,
+      ...opts,
+    });
+    pools.push(pool);
+    return pool;
+  };
+
+  // an image whose pixels count up from 0, so that misplaced tiles are noticed
+  const getImage = (height: number, width: number) => tf.range(0, height * width).reshape([height, width, 1,]) as tf.Tensor3D;
+
+  it('starts a worker for each upscaler in the pool', () => {
+    const pool = getPool({ size: 3, });
+    expect(pool.size).toEqual(3);
+    expect(workerPorts.length).toEqual(3);
+  });
+
+  it('throws if given an invalid size', () => {
+    expect(() => new UpscalerPool({ size: 0, createWorker, })).toThrow(getInvalidPoolSizeError(0));
+  });
+
+  it('distributes whole images across the pool', async () => {
+    const pool = getPool();
+    const input = getImage(2, 2);
+    const run = jest.spyOn(pool, '_run');
+    const results = await Promise.all([
+      pool.upscale(input, { output: 'tensor', }),
+      pool.upscale(input, { output: 'tensor', }),
+    ]);
+    expect(run).toHaveBeenCalledTimes(2);
+    results.forEach(result => expect(result.shape).toEqual([4, 4, 1,]));
+    expect(pool._running).toEqual([0, 0,]);
+    tf.dispose([input, ...results,]);
+  });
+
+  it('picks the least busy upscaler', async () => {
+    const pool = getPool();
+    const upscale = [
+      jest.spyOn(pool._upscalers[0], 'upscale'),
+      jest.spyOn(pool._upscalers[1], 'upscale'),
+    ];
+    const input = getImage(2, 2);
+    const results = await Promise.all([
+      pool.upscale(input, { output: 'tensor', }),
+      pool.upscale(input, { output: 'tensor', }),
+    ]);
+    expect(upscale[0]).toHaveBeenCalledTimes(1);
+    expect(upscale[1]).toHaveBeenCalledTimes(1);
+    tf.dispose([input, ...results,]);
+  });
+
+  it('splits an image into tiles and stitches them back together', async () => {
+    const pool = getPool();
+    const input = getImage(5, 7);
+    const progress = jest.fn();
+    const expected = tf.tidy(() => tf.image.resizeNearestNeighbor(input, [10, 14,]));
+    const result = await pool.upscale(input, {
+      output: 'tensor',
+      tileSize: 3,
+      tilePadding: 1,
+      progress: (percent: number) => progress(percent),
+    });
+    expect(result.shape).toEqual([10, 14, 1,]);
+    expect(Array.from(result.dataSync())).toEqual(Array.from(expected.dataSync()));
+    expect(progress.mock.calls.map(([percent,]) => percent)).toEqual([1 / 6, 2 / 6, 3 / 6, 4 / 6, 5 / 6, 1,]);
+    tf.dispose([input, expected, result,]);
+  });
+
+  it('reports each finished tile', async () => {
+    const pool = getPool();
+    const input = getImage(4, 4);
+    const tiles: Array<[number, number, number[],]> = [];
+    const result = await pool.upscale(input, {
+      output: 'tensor',
+      tileSize: 2,
+      progress: (_percent: number, slice: tf.Tensor3D, row: number, col: number) => {
+        tiles.push([row, col, slice.shape,]);
+        slice.dispose();
+      },
+    });
+    expect(tiles.sort()).toEqual([[0, 0, [4, 4, 1,],], [0, 1, [4, 4, 1,],], [1, 0, [4, 4, 1,],], [1, 1, [4, 4, 1,],],]);
+    tf.dispose([input, result,]);
+  });
+
+  it('throws if given invalid tile options', async () => {
+    const pool = getPool();
+    const input = getImage(2, 2);
+    await expect(pool.upscale(input, { tileSize: 0, })).rejects.toThrow(getInvalidTileSizeError(0));
+    await expect(pool.upscale(input, { tileSize: 2, scale: 4, })).rejects.toThrow(getTileOutputSizeError());
+    input.dispose();
+  });
+
+  it('cancels every tile of a request', async () => {
+    const pool = getPool();
+    const input = getImage(4, 4);
+    const startingTensors = tf.memory().numTensors;
+    const promise = pool.upscale(input, { id: 'foo', tileSize: 2, });
+    pool.cancel('foo');
+    await expect(promise).rejects.toEqual(new AbortError('foo'));
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+    input.dispose();
+  });
+
+  it('reports progress across a list of images', async () => {
+    const pool = getPool();
+    const input = getImage(2, 2);
+    const progress = jest.fn();
+    const results = await pool.upscaleAll([input, input, input, input,], {
+      output: 'tensor',
+      progress,
+    });
+    expect(results.length).toEqual(4);
+    expect(progress).toHaveBeenCalledTimes(4);
+    expect(progress).toHaveBeenLastCalledWith(1);
+    tf.dispose([input, ...results,]);
+  });
+
+  it('averages model load progress across the pool', async () => {
+    const onModelLoadProgress = jest.fn();
+    const pool = getPool({ onModelLoadProgress, });
+    await pool.warmup();
+    expect(onModelLoadProgress.mock.calls).toEqual([[0.5,], [1,],]);
+  });
+
+  it('waits for running requests before disposing', async () => {
+    const pool = getPool();
+    pools = [];
+    const input = getImage(2, 2);
+    const promise = pool.upscale(input, { output: 'tensor', });
+    await pool.dispose();
+    const result = await promise;
+    expect(result.shape).toEqual([4, 4, 1,]);
+    await expect(pool.upscale(input)).rejects.toThrow(getPoolDisposedError());
+    tf.dispose([input, result,]);
+  });
+});
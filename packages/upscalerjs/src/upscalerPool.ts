@@ -0,0 +1,482 @@
+/**
+ * # UpscalerPool class
+ *
+ * Instantiate a pool of upscalers, each running in its own worker, with:
+ *
+ * ```typescript
+ * const { UpscalerPool } = require('upscaler/node');
+ * const pool = new UpscalerPool({ size: 4 });
+ * Promise.all(images.map(image => pool.upscale(image))).then(srcs => {
+ *   // display the srcs
+ * });
+ * ```
+ *
+ * @module UpscalerPool
+ */
+import { tf, } from './dependencies.generated';
+import type {
+  BASE64,
+  MultiArgProgress,
+  Progress,
+  ResultFormat,
+  SingleArgProgress,
+  UpscaleArgs,
+  UpscaleResponse,
+  UpscalerEvent,
+  UpscalerEventMap,
+  WarmupSizes,
+} from './types';
+import { getImageAsTensor, GetImageAsTensorInput, PlatformImageEncodingOptions, } from './image.generated';
+import { createDefaultWorker, getDefaultPoolSize, WorkerLike, } from './worker.generated';
+import type { WorkerUpscalerOptions, } from './worker';
+import { WorkerUpscaler, } from './workerUpscaler';
+import {
+  concatTensors,
+  getCopyOfInput,
+  getRowsAndColumns,
+  getTensorDimensions,
+  getWidthAndHeight,
+  tensorAsOutput,
+} from './upscale';
+import { getDuplicateJobIdError, } from './upscaler';
+import { AbortError, isProgress, } from './utils';
+
+export type UpscalerPoolOptions = WorkerUpscalerOptions & {
+  /**
+   * The number of workers to start. Defaults to the number of CPU cores.
+   */
+  size?: number;
+  /**
+   * Creates each worker. Defaults to a worker thread in Node, or a Web Worker in the browser.
+   */
+  createWorker?: () => WorkerLike;
+};
+
+export type UpscalePoolArgs<P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined> = UpscaleArgs<P, O, PO> & PlatformImageEncodingOptions & {
+  /**
+   * If provided, the image is split into tiles of this size, which are upscaled in parallel across the pool and stitched back together. Progress is reported as each tile finishes. Cannot be combined with `width`, `height` or `scale`.
+   */
+  tileSize?: number;
+  /**
+   * The number of pixels each tile overlaps its neighbors by, which are cropped after upscaling to avoid seams. Defaults to 0.
+   */
+  tilePadding?: number;
+};
+
+export type UpscaleAllArgs<O extends ResultFormat = BASE64> = Omit<UpscaleArgs<undefined, O>, 'progress' | 'progressOutput' | 'id'> & PlatformImageEncodingOptions & {
+  /**
+   * Called with a number between 0 and 1, across all of the images.
+   */
+  progress?: SingleArgProgress;
+};
+
+export const getInvalidPoolSizeError = (size: number): Error => new Error(
+  `Invalid pool size provided, expected a positive integer: ${size}`,
+);
+
+export const getInvalidTileSizeError = (tileSize: number): Error => new Error(
+  `Invalid tile size provided, expected a positive integer: ${tileSize}`,
+);
+
+export const getTileOutputSizeError = (): Error => new Error(
+  'An image split into tiles is upscaled by the model\'s scale. Provide either a tileSize, or a width, height or scale, but not both.',
+);
+
+export const getPoolDisposedError = (): Error => new Error(
+  'The pool has been disposed of, and cannot accept new requests.',
+);
+
+let jobCount = 0;
+const getJobId = (): string => `pool-${jobCount++}`;
+
+export class UpscalerPool {
+  /**
+   * @hidden
+   */
+  _opts: UpscalerPoolOptions;
+
+  /**
+   * @hidden
+   */
+  _upscalers: WorkerUpscaler[];
+
+  /**
+   * @hidden
+   */
+  _running: number[];
+
+  /**
+   * @hidden
+   */
+  _jobs = new Map<string, () => void>();
+
+  /**
+   * @hidden
+   */
+  _requests = new Set<Promise<unknown>>();
+
+  /**
+   * @hidden
+   */
+  _modelLoadProgress: number[];
+
+  /**
+   * @hidden
+   */
+  _listeners: { [E in UpscalerEvent]: Set<UpscalerEventMap[E]> } = {
+    modelLoadProgress: new Set(),
+  };
+
+  /**
+   * @hidden
+   */
+  _disposed = false;
+
+  /**
+   * Instantiates a pool of upscalers, each running in its own worker and loading the model once. Accepts the same options as a `WorkerUpscaler`.
+   *
+   * ```javascript
+   * const { UpscalerPool } = require('upscaler/node');
+   *
+   * const pool = new UpscalerPool({
+   *   size: 4,
+   *   model: '@upscalerjs/esrgan-slim/4x',
+   * });
+   * ```
+   *
+   * @returns an instance of an UpscalerPool class.
+   */
+  constructor({ size = getDefaultPoolSize(), createWorker = createDefaultWorker, ...opts }: UpscalerPoolOptions = {}) {
+    if (!Number.isInteger(size) || size <= 0) {
+      throw getInvalidPoolSizeError(size);
+    }
+    this._opts = {
+      ...opts,
+      size,
+    };
+    this._running = Array<number>(size).fill(0);
+    this._modelLoadProgress = Array<number>(size).fill(0);
+    this._upscalers = this._running.map((_, index) => new WorkerUpscaler({
+      ...opts,
+      worker: createWorker(),
+      onModelLoadProgress: progress => this._onModelLoadProgress(index, progress),
+    }));
+  }
+
+  /**
+   * The number of workers in the pool.
+   */
+  get size(): number {
+    return this._upscalers.length;
+  }
+
+  /**
+   * Upscales a given image on the least busy worker in the pool. If a `tileSize` is provided, the image is instead split into tiles that are upscaled across the pool.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.upscale(image, {
+   *   tileSize: 256,
+   *   tilePadding: 8,
+   *   progress: (progress) => {
+   *     console.log('Progress:', progress);
+   *   },
+   * }).then(upscaledSrc => {
+   *   console.log(upscaledSrc);
+   * });
+   * ```
+   *
+   * @param image the image to upscale. If in the browser, this can be a string to a file path, a tensor, or any element tf.fromPixels supports. If in Node, this can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param options a set of upscaling arguments
+   * @returns an upscaled image.
+   */
+  upscale = async <P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
+    image: GetImageAsTensorInput,
+    { tileSize, tilePadding = 0, ...options }: UpscalePoolArgs<P, O, PO> = {},
+  ): Promise<UpscaleResponse<O>> => {
+    if (this._disposed) {
+      throw getPoolDisposedError();
+    }
+    const { id = getJobId(), } = options;
+    if (this._jobs.has(id)) {
+      throw getDuplicateJobIdError(id);
+    }
+    if (tileSize === undefined) {
+      return this._track(id, () => this._run(upscaler => {
+        this._jobs.set(id, () => upscaler.cancel(id));
+        return upscaler.upscale(image, {
+          ...options,
+          id,
+        });
+      }));
+    }
+    if (!Number.isInteger(tileSize) || tileSize <= 0) {
+      throw getInvalidTileSizeError(tileSize);
+    }
+    if (options.width !== undefined || options.height !== undefined || options.scale !== undefined) {
+      throw getTileOutputSizeError();
+    }
+    return this._track(id, () => this._upscaleTiles(image, id, tileSize, tilePadding, options));
+  };
+
+  /**
+   * Upscales a list of images across the pool, reporting progress across all of them.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.upscaleAll(images, {
+   *   progress: (progress) => {
+   *     console.log('Progress:', progress);
+   *   },
+   * }).then(upscaledSrcs => {
+   *   console.log(upscaledSrcs);
+   * });
+   * ```
+   *
+   * @param images the images to upscale.
+   * @param options a set of upscaling arguments, applied to every image
+   * @returns the upscaled images, in order.
+   */
+  upscaleAll = async <O extends ResultFormat = BASE64>(
+    images: GetImageAsTensorInput[],
+    { progress, ...options }: UpscaleAllArgs<O> = {},
+  ): Promise<Array<UpscaleResponse<O>>> => {
+    const percents: number[] = images.map(() => 0);
+    const report = (index: number, percent: number) => {
+      percents[index] = percent;
+      progress?.(percents.reduce((sum, p) => sum + p, 0) / images.length);
+    };
+    return Promise.all(images.map(async (image, index) => {
+      const result = await this.upscale<SingleArgProgress | undefined, O>(image, {
+        ...options,
+        // without a patch size, an image's progress is only known once it finishes
+        progress: progress && options.patchSize !== undefined ? (percent: number) => report(index, percent) : undefined,
+      });
+      if (progress) {
+        report(index, 1);
+      }
+      return result;
+    }));
+  };
+
+  /**
+   * Warms up every upscaler in the pool.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.warmup([{
+   *   patchSize: 64,
+   * }]).then(() => {
+   *   console.log('I am all warmed up!');
+   * });
+   * ```
+   */
+  warmup = async (warmupSizes: WarmupSizes[] = []): Promise<void> => {
+    await Promise.all(this._upscalers.map(upscaler => upscaler.warmup(warmupSizes)));
+  };
+
+  /**
+   * Aborts all requests running in the pool, and cancels any queued upscale requests.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.abort();
+   * ```
+   */
+  abort = (): void => {
+    this._jobs.forEach(cancel => cancel());
+    this._upscalers.forEach(upscaler => upscaler.abort());
+  };
+
+  /**
+   * Cancels a single upscale request, including every one of its tiles, by its id.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.upscale(image, { id: 'foo' }).catch(err => {
+   *   console.log(err.id); // 'foo'
+   * });
+   * pool.cancel('foo');
+   * ```
+   */
+  cancel = (id: string): void => {
+    this._jobs.get(id)?.();
+  };
+
+  /**
+   * Listens for events emitted by the pool. Model load progress is averaged across every worker.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.on('modelLoadProgress', (progress) => {
+   *   console.log('Model load progress:', progress);
+   * });
+   * ```
+   */
+  on = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].add(listener);
+  };
+
+  /**
+   * Removes a listener previously added with `on`.
+   */
+  off = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].delete(listener);
+  };
+
+  /**
+   * Stops accepting new requests, waits for any requests already made to finish, and then disposes of every upscaler and terminates its worker.
+   *
+   * ```javascript
+   * const pool = new UpscalerPool();
+   * pool.dispose().then(() => {
+   *   console.log("I'm all cleaned up!");
+   * })
+   * ```
+   */
+  dispose = async (): Promise<void> => {
+    this._disposed = true;
+    await Promise.all(Array.from(this._requests).map(request => request.catch(() => undefined)));
+    await Promise.all(this._upscalers.map(upscaler => upscaler.dispose()));
+  };
+
+  /**
+   * @hidden
+   */
+  _onModelLoadProgress = (index: number, progress: number): void => {
+    this._modelLoadProgress[index] = progress;
+    const averageProgress = this._modelLoadProgress.reduce((sum, p) => sum + p, 0) / this.size;
+    this._opts.onModelLoadProgress?.(averageProgress);
+    this._listeners.modelLoadProgress.forEach(listener => listener(averageProgress));
+  };
+
+  /**
+   * @hidden
+   */
+  _track = async <T>(id: string, fn: () => Promise<T>): Promise<T> => {
+    const request = fn();
+    this._requests.add(request);
+    try {
+      return await request;
+    } finally {
+      this._requests.delete(request);
+      this._jobs.delete(id);
+    }
+  };
+
+  // runs a request on whichever upscaler has the fewest requests running
+  /**
+   * @hidden
+   */
+  _run = async <T>(fn: (upscaler: WorkerUpscaler) => Promise<T>): Promise<T> => {
+    const index = this._running.indexOf(Math.min(...this._running));
+    this._running[index] += 1;
+    try {
+      return await fn(this._upscalers[index]);
+    } finally {
+      this._running[index] -= 1;
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  _upscaleTiles = async <P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
+    image: GetImageAsTensorInput,
+    id: string,
+    tileSize: number,
+    tilePadding: number,
+    { output, progress, progressOutput, signal, imageFormat, imageQuality, ...options }: UpscaleArgs<P, O, PO>,
+  ): Promise<UpscaleResponse<O>> => {
+    const encodingOptions = { imageFormat, imageQuality, };
+    const tileIds: string[] = [];
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      this._upscalers.forEach(upscaler => tileIds.forEach(upscaler.cancel));
+    };
+    this._jobs.set(id, cancel);
+    const pixels = await getImageAsTensor(getCopyOfInput(image));
+    const [height, width,] = getWidthAndHeight(pixels);
+    const { rows, columns, } = getRowsAndColumns(pixels, tileSize);
+    let finished = 0;
+
+    const upscaleTile = async (row: number, col: number, tile: tf.Tensor3D, { size, sliceOrigin, sliceSize, }: ReturnType<typeof getTensorDimensions>) => {
+      const tileId = `${id}-${row}-${col}`;
+      tileIds.push(tileId);
+      if (cancelled) {
+        throw new AbortError(id);
+      }
+      const upscaledTile = await this._run(upscaler => upscaler.upscale(tile, {
+        ...options,
+        id: tileId,
+        signal,
+        output: 'tensor',
+      }));
+      // the model's scale is inferred from the size of the upscaled tile
+      const scale = upscaledTile.shape[0] / size[0];
+      const croppedTile = tf.tidy(() => upscaledTile.slice(
+        [sliceOrigin[0] * scale, sliceOrigin[1] * scale,],
+        [sliceSize[0] * scale, sliceSize[1] * scale,],
+      ));
+      upscaledTile.dispose();
+      finished += 1;
+      if (isProgress(progress)) {
+        const percent = finished / (rows * columns);
+        if (progress.length <= 1) {
+          progress(percent);
+        } else {
+          // the cropped tile is still needed for stitching, so a copy is handed over
+          const slice = await tensorAsOutput(croppedTile.clone(), progressOutput || output, encodingOptions);
+          (<MultiArgProgress<ResultFormat>>progress)(percent, slice, row, col);
+        }
+      }
+      return croppedTile;
+    };
+
+    let error: unknown;
+    const tiles: Array<Promise<tf.Tensor3D | undefined>> = [];
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const dimensions = getTensorDimensions({
+          row,
+          col,
+          patchSize: tileSize,
+          height,
+          width,
+          padding: tilePadding,
+        });
+        const { origin, size, } = dimensions;
+        const tile = tf.tidy(() => pixels.slice([0, origin[0], origin[1],], [-1, size[0], size[1],]).squeeze<tf.Tensor3D>([0,]));
+        tiles.push(upscaleTile(row, col, tile, dimensions).catch((err) => {
+          // one failed tile fails the whole image
+          error = error || err;
+          cancel();
+          return undefined;
+        }).then((upscaledTile) => {
+          tile.dispose();
+          return upscaledTile;
+        }));
+      }
+    }
+    pixels.dispose();
+
+    const upscaledTiles = await Promise.all(tiles);
+    if (error !== undefined) {
+      tf.dispose(upscaledTiles.filter((tensor): tensor is tf.Tensor3D => tensor !== undefined));
+      throw error instanceof AbortError ? new AbortError(id) : error;
+    }
+    const upscaledRows = Array(rows).fill(undefined).map((_, row) => concatTensors<tf.Tensor3D>(
+      upscaledTiles.slice(row * columns, (row + 1) * columns),
+      1,
+    ));
+    const upscaledPixels = concatTensors<tf.Tensor3D>(upscaledRows, 0);
+    const upscaledOutput = await tensorAsOutput(upscaledPixels, output, encodingOptions);
+    if (output !== 'tensor') {
+      upscaledPixels.dispose();
+    }
+    return upscaledOutput;
+  };
+}
+
+export default UpscalerPool;
@@ -22,7 +22,17 @@ import {
   getModel,
   hasValidChannels,
   processAndDisposeOfTensor,
+  convertChannels,
+  splitAlphaChannel,
+  attachAlphaChannel,
+  getModelChannels,
+  getUnsupportedChannelConversionError,
+  getModelCacheKey,
+  isStaleModelCacheKey,
+  getPrediction,
+  loadWithProgress,
 } from './utils';
+import type { Model, } from './types';
 
 jest.mock('@tensorflow/tfjs', () => ({
   ...(jest.requireActual('@tensorflow/tfjs') ),
@@ -88,6 +98,114 @@ describe('registerCustomLayers', () => {
   });
 });
 
+describe('getPrediction', () => {
+  const getModel = (prediction: unknown) => ({
+    predict: () => prediction,
+  }) as unknown as Model;
+
+  it('returns a single output', () => {
+    const output = tf.zeros([1, 2, 2, 3,]);
+    expect(getPrediction(getModel(output), tf.zeros([1, 1, 1, 3,]))).toEqual(output);
+  });
+
+  it('returns the first of an array of outputs, disposing of the rest', () => {
+    const outputs = [tf.zeros([1, 2, 2, 3,]), tf.zeros([1,]),];
+    expect(getPrediction(getModel(outputs), tf.zeros([1, 1, 1, 3,]))).toEqual(outputs[0]);
+    expect(outputs[0].isDisposed).toEqual(false);
+    expect(outputs[1].isDisposed).toEqual(true);
+  });
+
+  it('returns the first of a map of outputs from a graph model, disposing of the rest', () => {
+    const outputs = {
+      image: tf.zeros([1, 2, 2, 3,]),
+      other: tf.zeros([1,]),
+    };
+    const model = Object.assign(Object.create(tf.GraphModel.prototype), {
+      predict: () => outputs,
+    }) as Model;
+    expect(getPrediction(model, tf.zeros([1, 1, 1, 3,]))).toEqual(outputs.image);
+    expect(outputs.other.isDisposed).toEqual(true);
+  });
+});
+
+describe('getModelCacheKey', () => {
+  it('returns the path if no package information is provided', () => {
+    expect(getModelCacheKey({ path: 'foo', scale: 2, })).toEqual('foo');
+  });
+
+  it('returns the package name, version, and path', () => {
+    expect(getModelCacheKey({
+      path: 'foo',
+      scale: 2,
+      packageInformation: {
+        name: '@upscalerjs/foo',
+        version: '1.0.0',
+      },
+    })).toEqual('@upscalerjs/foo@1.0.0/foo');
+  });
+});
+
+describe('isStaleModelCacheKey', () => {
+  const modelDefinition: ModelDefinition = {
+    path: 'foo',
+    scale: 2,
+    packageInformation: {
+      name: '@upscalerjs/foo',
+      version: '1.0.0',
+    },
+  };
+
+  it('returns true for other versions of the same package', () => {
+    expect(isStaleModelCacheKey('@upscalerjs/foo@0.1.0/foo', modelDefinition)).toEqual(true);
+  });
+
+  it('returns false for the same version of the package', () => {
+    expect(isStaleModelCacheKey('@upscalerjs/foo@1.0.0/bar', modelDefinition)).toEqual(false);
+  });
+
+  it('returns false for other packages', () => {
+    expect(isStaleModelCacheKey('@upscalerjs/foo-bar@0.1.0/foo', modelDefinition)).toEqual(false);
+    expect(isStaleModelCacheKey('foo', { path: 'foo', scale: 2, })).toEqual(false);
+  });
+});
+
+describe('loadWithProgress', () => {
+  const model = 'model' as unknown as Model;
+
+  it('loads without a progress callback', async () => {
+    const load = jest.fn(async () => model);
+    expect(await loadWithProgress(load)).toEqual(model);
+    expect(load).toHaveBeenCalledWith();
+  });
+
+  it('forwards progress reported while loading', async () => {
+    const onProgress = jest.fn();
+    await loadWithProgress(async (reportProgress) => {
+      reportProgress?.(0.5);
+      reportProgress?.(1);
+      return model;
+    }, onProgress);
+    expect(onProgress.mock.calls).toEqual([[0.5,], [1,],]);
+  });
+
+  it('reports completion if loading did not', async () => {
+    const onProgress = jest.fn();
+    await loadWithProgress(async (reportProgress) => {
+      reportProgress?.(0.5);
+      return model;
+    }, onProgress);
+    expect(onProgress.mock.calls).toEqual([[0.5,], [1,],]);
+  });
+
+  it('does not report completion if loading fails', async () => {
+    const onProgress = jest.fn();
+    await expect(loadWithProgress(async () => {
+      throw new Error('foo');
+    }, onProgress)).rejects.toThrow('foo');
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+});
+
 describe('isAborted', () => {
   it('handles an undefined signal', () => {
     expect(isAborted()).toEqual(false);
@@ -303,6 +421,16 @@ describe('tensorAsClampedArray', () => {
     const result = tensorAsClampedArray(tf.tensor([[[-100, 2, 3], [256, 1, 4], [500,5,5],[6,6,6]]]))
     expect(Array.from(result)).toEqual([0,2,3,255,255,1,4,255,255,5,5,255,6,6,6,255]);
   });
+
+  it('returns an array for a grayscale tensor', () => {
+    const result = tensorAsClampedArray(tf.tensor([[[2], [300]]]))
+    expect(Array.from(result)).toEqual([2,2,2,255,255,255,255,255]);
+  });
+
+  it('returns an array for a tensor with an alpha channel', () => {
+    const result = tensorAsClampedArray(tf.tensor([[[2, 2, 3, 0], [2, 1, 4, 300]]]))
+    expect(Array.from(result)).toEqual([2,2,3,0,2,1,4,255]);
+  });
 });
 
 describe('getModelDefinitionError', () => {
@@ -349,8 +477,86 @@ describe('hasValidChannels', () => {
     expect(hasValidChannels(tf.ones([4,4,3]))).toEqual(true);
   });
 
+  it('returns true if a tensor has an alpha channel', () => {
+    expect(hasValidChannels(tf.ones([4,4,4]))).toEqual(true);
+  });
+
+  it('returns true if a tensor is grayscale', () => {
+    expect(hasValidChannels(tf.ones([4,4,1]))).toEqual(true);
+  });
+
   it('returns false if a tensor does not have valid channels', () => {
-    expect(hasValidChannels(tf.ones([4,4,4]))).toEqual(false);
+    expect(hasValidChannels(tf.ones([4,4,2]))).toEqual(false);
+  });
+});
+
+describe('getModelChannels', () => {
+  it('defaults to 3 channels', () => {
+    expect(getModelChannels({ path: 'foo', scale: 2, })).toEqual(3);
+  });
+
+  it('returns the channels of a model definition', () => {
+    expect(getModelChannels({ path: 'foo', scale: 2, channels: 1, })).toEqual(1);
+  });
+});
+
+describe('convertChannels', () => {
+  it('returns the tensor if it already has the right number of channels', () => {
+    const t = tf.ones([1,2,2,3]) as tf.Tensor4D;
+    expect(convertChannels(t, 3)).toBe(t);
+    expect(t.isDisposed).toEqual(false);
+  });
+
+  it('converts a grayscale tensor to RGB', () => {
+    const t = tf.tensor([[[1], [2]]]) as tf.Tensor3D;
+    const result = convertChannels(t, 3);
+    expect(result.shape).toEqual([1,2,3]);
+    expect(Array.from(result.dataSync())).toEqual([1,1,1,2,2,2]);
+    expect(t.isDisposed).toEqual(true);
+  });
+
+  it('converts an RGB tensor to grayscale', () => {
+    const t = tf.tensor([[[[10, 10, 10], [255, 0, 0]]]]) as tf.Tensor4D;
+    const result = convertChannels(t, 1);
+    expect(result.shape).toEqual([1,1,2,1]);
+    const [gray, red] = Array.from(result.dataSync());
+    expect(gray).toBeCloseTo(10);
+    expect(red).toBeCloseTo(255 * 0.299);
+    expect(t.isDisposed).toEqual(true);
+  });
+
+  it('throws if given an unsupported conversion', () => {
+    const t = tf.ones([1,2,2,4]) as tf.Tensor4D;
+    expect(() => convertChannels(t, 3)).toThrow(getUnsupportedChannelConversionError(4, 3));
+  });
+});
+
+describe('splitAlphaChannel', () => {
+  it('returns the tensor unchanged if it has no alpha channel', () => {
+    const t = tf.ones([1,2,2,3]) as tf.Tensor4D;
+    const [color, alpha] = splitAlphaChannel(t);
+    expect(color).toBe(t);
+    expect(alpha).toEqual(undefined);
+  });
+
+  it('splits off an alpha channel', () => {
+    const t = tf.tensor([[[[1, 2, 3, 4], [5, 6, 7, 8]]]]) as tf.Tensor4D;
+    const [color, alpha] = splitAlphaChannel(t);
+    expect(Array.from(color.dataSync())).toEqual([1,2,3,5,6,7]);
+    expect(alpha?.shape).toEqual([1,1,2,1]);
+    expect(Array.from(alpha!.dataSync())).toEqual([4,8]);
+    expect(t.isDisposed).toEqual(true);
+  });
+});
+
+describe('attachAlphaChannel', () => {
+  it('attaches an alpha channel and disposes of its inputs', () => {
+    const color = tf.tensor([[[1, 2, 3], [5, 6, 7]]]) as tf.Tensor3D;
+    const alpha = tf.tensor([[[4], [8]]]) as tf.Tensor3D;
+    const result = attachAlphaChannel(color, alpha);
+    expect(Array.from(result.dataSync())).toEqual([1,2,3,4,5,6,7,8]);
+    expect(color.isDisposed).toEqual(true);
+    expect(alpha.isDisposed).toEqual(true);
   });
 });
 
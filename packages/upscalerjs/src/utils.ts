@@ -1,9 +1,19 @@
 import { tf, } from './dependencies.generated';
-import type { BASE64, TENSOR, Progress, MultiArgProgress, SingleArgProgress, ResultFormat, } from './types';
-import type { ModelDefinitionFn, ModelDefinition, ModelDefinitionObjectOrFn, ProcessFn, } from '@upscalerjs/core';
+import type { BASE64, TENSOR, Progress, MultiArgProgress, SingleArgProgress, ResultFormat, Model, ModelLoadProgress, } from './types';
+import type { ModelDefinitionFn, ModelDefinition, ModelDefinitionObjectOrFn, ModelType, ProcessFn, } from '@upscalerjs/core';
 
 export class AbortError extends Error {
   message = 'The upscale request received an abort signal';
+
+  /**
+   * The id of the request that was aborted, if one was provided.
+   */
+  id?: string;
+
+  constructor(id?: string) {
+    super();
+    this.id = id;
+  }
 }
 
 export const isString = (el: unknown): el is string => typeof el === 'string';
@@ -44,6 +54,23 @@ export const isValidModelDefinition = (modelDefinition?: ModelDefinition): model
   return Boolean(modelDefinition.path && modelDefinition.scale);
 };
 
+// models are cached under their package name and version, so upgrading a model package invalidates its cache
+export const getModelCacheKey = ({ packageInformation, path, }: ModelDefinition): string => {
+  if (packageInformation) {
+    return `${packageInformation.name}@${packageInformation.version}/${path}`;
+  }
+  return path;
+};
+
+// a cached model is stale if it belongs to a different version of the same package
+export const isStaleModelCacheKey = (key: string, { packageInformation, }: ModelDefinition): boolean => {
+  if (!packageInformation) {
+    return false;
+  }
+  const { name, version, } = packageInformation;
+  return key.startsWith(`${name}@`) && !key.startsWith(`${name}@${version}/`);
+};
+
 export const registerCustomLayers = (modelDefinition: ModelDefinition): void => {
   if (modelDefinition.customLayers) {
     modelDefinition.customLayers.forEach((layer) => {
@@ -52,6 +79,49 @@ export const registerCustomLayers = (modelDefinition: ModelDefinition): void =>
   }
 };
 
+type LoadOptions = Parameters<typeof tf.loadLayersModel>[1];
+
+export const loadTFModel = (url: string, modelType: ModelType = 'layers', options?: LoadOptions): Promise<Model> => {
+  if (modelType === 'graph') {
+    return options ? tf.loadGraphModel(url, options) : tf.loadGraphModel(url);
+  }
+  return options ? tf.loadLayersModel(url, options) : tf.loadLayersModel(url);
+};
+
+// tfjs only reports progress while fetching weights over HTTP, and not when a model is read from disk or
+// from the cache, so progress is completed once the model has loaded if tfjs has not already done so
+export const loadWithProgress = async (
+  load: (onProgress?: ModelLoadProgress) => Promise<Model>,
+  onProgress?: ModelLoadProgress,
+): Promise<Model> => {
+  if (!onProgress) {
+    return load();
+  }
+  let lastProgress = 0;
+  const model = await load((progress: number) => {
+    lastProgress = progress;
+    onProgress(progress);
+  });
+  if (lastProgress < 1) {
+    onProgress(1);
+  }
+  return model;
+};
+
+export const isGraphModel = (model: Model): model is tf.GraphModel => model instanceof tf.GraphModel;
+
+// runs the model on the given pixels. Models with multiple outputs, like many graph models,
+// are expected to return the upscaled image as their first output
+export const getPrediction = (model: Model, pixels: tf.Tensor4D, inputs: tf.Tensor[] = []): tf.Tensor4D => {
+  const prediction = model.predict(inputs.length ? [pixels, ...inputs,] : pixels);
+  if (Array.isArray(prediction) || (isGraphModel(model) && !isTensor(prediction))) {
+    const [output, ...rest] = Object.values(prediction);
+    rest.forEach(tensor => tensor.dispose());
+    return output as tf.Tensor4D;
+  }
+  return prediction as tf.Tensor4D;
+};
+
 export const isFourDimensionalTensor = makeIsNDimensionalTensor<tf.Tensor4D>(4);
 export const isThreeDimensionalTensor = makeIsNDimensionalTensor<tf.Tensor3D>(3);
 export const isTensor = (input: unknown): input is tf.Tensor => input instanceof tf.Tensor;
@@ -94,9 +164,14 @@ export async function wrapGenerator<T = unknown, TReturn = any, TNext = unknown>
 export function isModelDefinitionFn (modelDefinition: ModelDefinitionObjectOrFn): modelDefinition is ModelDefinitionFn { return typeof modelDefinition === 'function'; }
 
 export const tensorAsClampedArray = (tensor: tf.Tensor3D): Uint8Array | Float32Array | Int32Array => tf.tidy(() => {
-  const [height, width,] = tensor.shape;
+  const [height, width, channels,] = tensor.shape;
+  const clippedTensor = tensor.clipByValue(0, 255);
+  if (channels === 4) {
+    return clippedTensor.dataSync();
+  }
+  const rgbTensor = channels === 1 ? clippedTensor.tile([1, 1, 3,]) : clippedTensor;
   const fill = tf.fill([height, width,], 255).expandDims(2);
-  return tensor.clipByValue(0, 255).concat([fill,], 2).dataSync();
+  return rgbTensor.concat([fill,], 2).dataSync();
 });
 
 export const getModel = (modelDefinition: ModelDefinitionObjectOrFn): ModelDefinition => {
@@ -105,7 +180,55 @@ export const getModel = (modelDefinition: ModelDefinitionObjectOrFn): ModelDefin
   return isModelDefinitionFn(modelDefinition) ? modelDefinition(tf) : modelDefinition;
 };
 
-export const hasValidChannels = (tensor: tf.Tensor): boolean => tensor.shape.slice(-1)[0] === 3;
+export const VALID_CHANNELS = [1, 3, 4,];
+export const hasValidChannels = (tensor: tf.Tensor): boolean => VALID_CHANNELS.includes(tensor.shape.slice(-1)[0]);
+
+export const getChannels = (tensor: tf.Tensor): number => tensor.shape[tensor.rank - 1];
+
+export const getModelChannels = ({ channels = 3, }: ModelDefinition): number => channels;
+
+export const getUnsupportedChannelConversionError = (from: number, to: number): Error => new Error(
+  `Cannot convert a tensor with ${from} channels to ${to} channels`,
+);
+
+const LUMA_WEIGHTS = [0.299, 0.587, 0.114,];
+
+// converts between grayscale and RGB; this function disposes of the input tensor if it is converted
+export function convertChannels<T extends tf.Tensor3D | tf.Tensor4D>(tensor: T, channels: number): T {
+  const currentChannels = getChannels(tensor);
+  if (currentChannels === channels) {
+    return tensor;
+  }
+  const convertedTensor = tf.tidy((): T => {
+    if (currentChannels === 1 && channels === 3) {
+      return tf.tile(tensor, tensor.shape.map((_, i) => i === tensor.rank - 1 ? 3 : 1));
+    }
+    if (currentChannels === 3 && channels === 1) {
+      return tf.sum(tf.mul(tensor, tf.tensor1d(LUMA_WEIGHTS)), -1, true);
+    }
+    throw getUnsupportedChannelConversionError(currentChannels, channels);
+  });
+  tensor.dispose();
+  return convertedTensor;
+}
+
+// splits an RGBA tensor into its color and alpha channels; this function disposes of the input tensor if it is split
+export const splitAlphaChannel = (pixels: tf.Tensor4D): [tf.Tensor4D, tf.Tensor4D | undefined,] => {
+  if (getChannels(pixels) !== 4) {
+    return [pixels, undefined,];
+  }
+  const [color, alpha,] = tf.split<tf.Tensor4D>(pixels, [3, 1,], 3);
+  pixels.dispose();
+  return [color, alpha,];
+};
+
+// this function disposes of the input tensors
+export const attachAlphaChannel = (color: tf.Tensor3D, alpha: tf.Tensor3D): tf.Tensor3D => {
+  const pixels = tf.concat([color, alpha,], 2);
+  color.dispose();
+  alpha.dispose();
+  return pixels;
+};
 
 export function parseUpscaleOutput(key: string, option?: 'base64' | 'src' | 'tensor'): undefined | 'base64' | 'tensor' {
   if (option === 'src') {
@@ -0,0 +1,87 @@
+import { tf, } from './dependencies.generated';
+import type { VideoArgs, VideoSourceFrame, } from './types';
+import { GetImageAsTensorInput, tensorAsCanvas, tensorAsImageData, } from './image.browser';
+
+export type VideoElement = HTMLVideoElement;
+export type VideoInput = VideoElement | Iterable<GetImageAsTensorInput> | AsyncIterable<GetImageAsTensorInput>;
+export type VideoFrameFormat = 'canvas' | 'imageBitmap' | 'tensor';
+export type DefaultVideoFrameFormat = 'canvas';
+export type VideoFrameResponse<F extends VideoFrameFormat> =
+  F extends 'tensor' ?
+    tf.Tensor3D :
+    F extends 'imageBitmap' ?
+      ImageBitmap :
+      HTMLCanvasElement;
+
+// https://developer.mozilla.org/en-US/docs/Web/API/HTMLMediaElement/readyState
+const HAVE_METADATA = 1;
+
+export const isVideoElement = (input: VideoInput): input is VideoElement => typeof HTMLVideoElement !== 'undefined' && input instanceof HTMLVideoElement;
+
+const waitForEvent = (target: EventTarget, event: string): Promise<void> => new Promise(resolve => {
+  target.addEventListener(event, () => resolve(), { once: true, });
+});
+
+const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+// reads frames from a video element. Unless dropping frames, the video is paused and stepped through
+// frame by frame; otherwise the video plays and the current frame is captured at the given rate.
+// live streams, like a webcam, can only be captured as they play
+export async function* getVideoElementFrames(
+  video: VideoElement,
+  { fps, dropFrames, }: { fps: number; dropFrames: boolean; },
+): AsyncGenerator<VideoSourceFrame<GetImageAsTensorInput>, void> {
+  if (video.readyState < HAVE_METADATA) {
+    await waitForEvent(video, 'loadedmetadata');
+  }
+  const frameDuration = 1 / fps;
+  if (!dropFrames && Number.isFinite(video.duration)) {
+    video.pause();
+    for (let index = 0; index * frameDuration < video.duration; index++) {
+      const seeked = waitForEvent(video, 'seeked');
+      video.currentTime = index * frameDuration;
+      await seeked;
+      yield { input: video, index, timestamp: index * frameDuration * 1000, };
+    }
+    return;
+  }
+
+  if (video.paused) {
+    await video.play();
+  }
+  let nextCapture = video.currentTime;
+  while (!video.ended && !video.paused) {
+    const { currentTime, } = video;
+    if (currentTime >= nextCapture) {
+      const index = Math.floor(currentTime / frameDuration);
+      nextCapture = (index + 1) * frameDuration;
+      yield { input: video, index, timestamp: currentTime * 1000, };
+    } else {
+      await wait((nextCapture - currentTime) * 1000 / video.playbackRate);
+    }
+  }
+}
+
+// every frame format is supported in the browser
+/* eslint-disable @typescript-eslint/no-unused-vars */
+export const validateFrameOutput = (_args: Pick<VideoArgs<VideoFrameFormat>, 'output' | 'outputDirectory'>): void => undefined;
+/* eslint-enable @typescript-eslint/no-unused-vars */
+
+// converts an upscaled frame to the requested format. this function disposes of the frame unless returning a tensor
+export const frameAsOutput = async <F extends VideoFrameFormat>(
+  frame: tf.Tensor3D,
+  _index: number,
+  { output, }: Pick<VideoArgs<F>, 'output' | 'outputDirectory' | 'format'>,
+): Promise<VideoFrameResponse<F>> => {
+  if (output === 'tensor') {
+    return <VideoFrameResponse<F>>frame;
+  }
+  if (output === 'imageBitmap') {
+    const imageData = tensorAsImageData(frame);
+    frame.dispose();
+    return <VideoFrameResponse<F>>(await createImageBitmap(imageData));
+  }
+  const canvas = tensorAsCanvas(frame);
+  frame.dispose();
+  return <VideoFrameResponse<F>>canvas;
+};
@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import * as tf from '@tensorflow/tfjs-node';
+import {
+  frameAsOutput,
+  getFramePath,
+  getMissingOutputDirectoryError,
+  getVideoElementFrames,
+  getVideoElementNotSupportedError,
+  validateFrameOutput,
+  writeFrame,
+} from './video.node';
+
+describe('video', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-video-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true, });
+  });
+
+  it('numbers frame paths so that they sort in order', () => {
+    expect(getFramePath('/foo', 12)).toEqual(path.resolve('/foo', 'frame-000012.png'));
+    expect(getFramePath('/foo', 3, 'raw')).toEqual(path.resolve('/foo', 'frame-000003.raw'));
+  });
+
+  it('throws if given a video element', () => {
+    expect(() => getVideoElementFrames(undefined as never, { fps: 30, dropFrames: false, })).toThrow(getVideoElementNotSupportedError());
+  });
+
+  it('requires an output directory to write frames to files', () => {
+    expect(() => validateFrameOutput({ output: 'file', })).toThrow(getMissingOutputDirectoryError());
+    expect(() => validateFrameOutput({ output: 'file', outputDirectory: folder, })).not.toThrow();
+    expect(() => validateFrameOutput({ output: 'tensor', })).not.toThrow();
+  });
+
+  it('writes a frame to a file and disposes of it', async () => {
+    const frame = tf.tensor3d([[[1, 2, 3,], [4, 5, 6,],],]);
+    const outputPath = path.resolve(folder, 'frame.raw');
+    await writeFrame(frame, outputPath, 'raw');
+    expect(frame.isDisposed).toEqual(true);
+    expect(Array.from(fs.readFileSync(outputPath))).toEqual([1, 2, 3, 4, 5, 6,]);
+  });
+
+  describe('frameAsOutput', () => {
+    it('returns a tensor', async () => {
+      const frame = tf.ones([1, 1, 3,]) as tf.Tensor3D;
+      expect(await frameAsOutput(frame, 0, { output: 'tensor', })).toBe(frame);
+      expect(await frameAsOutput(frame, 0, {})).toBe(frame);
+      frame.dispose();
+    });
+
+    it('returns a PNG buffer', async () => {
+      const frame = tf.ones([1, 1, 3,]) as tf.Tensor3D;
+      const buffer = await frameAsOutput(frame, 0, { output: 'buffer', });
+      expect(Array.from(buffer.subarray(1, 4))).toEqual([80, 78, 71,]);
+      expect(frame.isDisposed).toEqual(true);
+    });
+
+    it('writes the frame to the output directory', async () => {
+      const frame = tf.ones([1, 1, 3,]) as tf.Tensor3D;
+      const outputPath = await frameAsOutput(frame, 7, { output: 'file', outputDirectory: folder, });
+      expect(outputPath).toEqual(path.resolve(folder, 'frame-000007.png'));
+      expect(fs.existsSync(outputPath)).toEqual(true);
+      expect(frame.isDisposed).toEqual(true);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import path from 'path';
+import { tf, } from './dependencies.generated';
+import type { FileFormat, VideoArgs, VideoSourceFrame, } from './types';
+import { GetImageAsTensorInput, tensorAsBuffer, } from './image.node';
+import { createImageWriter, } from './writer.node';
+import { getRowOfPixels, } from './upscaleToFile';
+import { getChannels, } from './utils';
+
+export type VideoElement = never;
+export type VideoInput = Iterable<GetImageAsTensorInput> | AsyncIterable<GetImageAsTensorInput>;
+export type VideoFrameFormat = 'tensor' | 'buffer' | 'file';
+export type DefaultVideoFrameFormat = 'tensor';
+export type VideoFrameResponse<F extends VideoFrameFormat> =
+  F extends 'tensor' ?
+    tf.Tensor3D :
+    F extends 'buffer' ?
+      Uint8Array :
+      string;
+
+export const getVideoElementNotSupportedError = (): Error => new Error(
+  'Reading frames from a video element is only supported in the browser.',
+);
+
+export const getMissingOutputDirectoryError = (): Error => new Error(
+  'An outputDirectory must be provided to write frames to files.',
+);
+
+export const isVideoElement = (_input: VideoInput): _input is VideoElement => false;
+
+/* eslint-disable @typescript-eslint/no-unused-vars */
+export const getVideoElementFrames = (
+  _video: VideoElement,
+  _options: { fps: number; dropFrames: boolean; },
+): AsyncGenerator<VideoSourceFrame<GetImageAsTensorInput>, void> => {
+  throw getVideoElementNotSupportedError();
+};
+/* eslint-enable @typescript-eslint/no-unused-vars */
+
+// frames are numbered so that they sort in order, as expected by tools like ffmpeg
+export const getFramePath = (directory: string, index: number, format: FileFormat = 'png'): string => path.resolve(
+  directory,
+  `frame-${`${index}`.padStart(6, '0')}.${format}`,
+);
+
+// writes a single frame to a file. this function disposes of the frame
+export const writeFrame = async (frame: tf.Tensor3D, outputPath: string, format?: FileFormat): Promise<void> => {
+  const [height, width,] = frame.shape;
+  const channels = getChannels(frame);
+  const pixels = await getRowOfPixels([frame,]);
+  const writer = createImageWriter(outputPath, {
+    width,
+    height,
+    channels,
+    format,
+  });
+  try {
+    await writer.write(pixels);
+    await writer.close();
+  } catch (err) {
+    writer.abort();
+    throw err;
+  }
+};
+
+// checks that frames can be output as requested, before any frames are upscaled
+export const validateFrameOutput = ({ output, outputDirectory, }: Pick<VideoArgs<VideoFrameFormat>, 'output' | 'outputDirectory'>): void => {
+  if (output === 'file' && outputDirectory === undefined) {
+    throw getMissingOutputDirectoryError();
+  }
+};
+
+// converts an upscaled frame to the requested format. this function disposes of the frame unless returning a tensor
+export const frameAsOutput = async <F extends VideoFrameFormat>(
+  frame: tf.Tensor3D,
+  index: number,
+  { output, outputDirectory, format, }: Pick<VideoArgs<F>, 'output' | 'outputDirectory' | 'format'>,
+): Promise<VideoFrameResponse<F>> => {
+  if (output === 'file' && outputDirectory !== undefined) {
+    const outputPath = getFramePath(outputDirectory, index, format);
+    await writeFrame(frame, outputPath, format);
+    return <VideoFrameResponse<F>>outputPath;
+  }
+  if (output === 'buffer') {
+    const buffer = await tensorAsBuffer(frame);
+    frame.dispose();
+    return <VideoFrameResponse<F>>buffer;
+  }
+  return <VideoFrameResponse<F>>frame;
+};
@@ -373,6 +373,35 @@ describe('Warmup', () => {
     expect(tf.memory().numTensors).toEqual(startingTensors);
   });
 
+  it('should clear up all memory while running with model inputs', async () => {
+    const startingTensors = tf.memory().numTensors;
+    const predict = jest.fn(([tensor,]: tf.Tensor[]) => tensor.clone());
+
+    const fakeModel = {
+      predict,
+    } as unknown as LayersModel;
+    const modelPackage = new Promise<ModelPackage>((resolve) =>
+      resolve({
+        model: fakeModel,
+        modelDefinition: {
+          path: 'foo',
+          scale: 2,
+          inputs: [
+            { name: 'noise', spatial: true, defaultValue: 0.5, },
+            { name: 'strength', defaultValue: 1, },
+          ],
+        },
+      }),
+    );
+    const gen = warmup(modelPackage, [{ patchSize: 10, }, { patchSize: 10, },]);
+    for (let result = await gen.next(); !result.done; result = await gen.next()) {
+      expect(tf.memory().numTensors - startingTensors).toBeLessThanOrEqual(1);
+    }
+    expect(predict).toHaveBeenCalledTimes(2);
+    expect(predict.mock.calls[0][0]).toHaveLength(3);
+    expect(tf.memory().numTensors).toEqual(startingTensors);
+  });
+
   it('should clear up all memory while running with sizes of different formats', async () => {
     const startingTensors = tf.memory().numTensors;
     const predict = jest.fn((tensor: tf.Tensor) => tensor.clone());
@@ -1,7 +1,8 @@
 import { makeTick, } from './makeTick';
 import { tf, } from './dependencies.generated';
 import type { ModelPackage, NumericWarmupSizes, WarmupArgs, WarmupSizes, WarmupSizesByPatchSize, YieldedIntermediaryValue, } from './types';
-import { processAndDisposeOfTensor, wrapGenerator, } from './utils';
+import { processAndDisposeOfTensor, wrapGenerator, getModelChannels, getPrediction, } from './utils';
+import { getDefaultModelInputValues, getModelInputs, } from './modelInputs';
 
 const isWarmupSizeByPatchSize = (size: unknown): size is WarmupSizesByPatchSize => size !== null && typeof size === 'object' && 'patchSize' in size;
 const isNumericWarmupSize = (size: unknown): size is NumericWarmupSizes => {
@@ -32,12 +33,17 @@ export async function* warmup(
     }
     const [ width, height, ] = getWidthAndHeight(size);
 
-    let dummyTensor = tf.zeros([1, height, width, 3,]) as tf.Tensor4D;
+    let dummyTensor = tf.zeros([1, height, width, getModelChannels(modelDefinition),]) as tf.Tensor4D;
     yield [dummyTensor,];
 
     const fns = [
       modelDefinition.preprocess,
-      (t: tf.Tensor4D) => model.predict(t) as tf.Tensor4D,
+      (t: tf.Tensor4D) => {
+        const modelInputs = getModelInputs(modelDefinition, getDefaultModelInputValues(modelDefinition), t);
+        const prediction = getPrediction(model, t, modelInputs);
+        modelInputs.forEach(input => input.dispose());
+        return prediction;
+      },
       modelDefinition.postprocess,
     ].filter(Boolean);
     for (let i = 0; i < fns.length; i++) {
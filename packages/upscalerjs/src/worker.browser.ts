@@ -0,0 +1,76 @@
+import type { UpscalerOptions, } from './types';
+import { handleWorkerMessages, WorkerPort, } from './worker';
+
+// the subset of a Worker, or of a worker's global scope, used to send and receive messages
+export interface WorkerLike {
+  postMessage: (message: unknown, transfer: Transferable[]) => void;
+  addEventListener: Worker['addEventListener'];
+  removeEventListener: Worker['removeEventListener'];
+  terminate?: () => void;
+  close?: () => void;
+}
+
+const WORKER_NAME = 'upscaler';
+
+export const getNotInWorkerError = (): Error => new Error(
+  'exposeUpscaler must be called from within a Web Worker.',
+);
+
+// wraps a worker, or a worker's global scope, so that it can be used from either thread
+export const getWorkerPort = <S, R>(worker: WorkerLike): WorkerPort<S, R> => ({
+  postMessage: (message, transfer = []) => worker.postMessage(message, transfer),
+  onMessage: (listener) => {
+    const onMessage = ({ data, }: MessageEvent<R>) => listener(data);
+    worker.addEventListener('message', onMessage);
+    return () => worker.removeEventListener('message', onMessage);
+  },
+  onError: (listener) => {
+    const onError = (event: ErrorEvent) => listener(event.error instanceof Error ? event.error : new Error(event.message));
+    worker.addEventListener('error', onError);
+    return () => worker.removeEventListener('error', onError);
+  },
+  terminate: () => {
+    worker.terminate?.();
+    return Promise.resolve();
+  },
+});
+
+// model modules are loaded from a URL, bypassing the bundler
+const loadModule = (specifier: string): Promise<unknown> => import(/* webpackIgnore: true */ specifier);
+
+// this file doubles as the script run by the default worker. bundlers recognize this pattern and emit the worker as its own chunk
+export const createDefaultWorker = (): WorkerLike => new Worker(new URL('./worker.generated.js', import.meta.url), {
+  type: 'module',
+  name: WORKER_NAME,
+});
+
+// one worker per core, as each worker runs a single inference stream
+export const getDefaultPoolSize = (): number => Math.max(1, typeof navigator === 'undefined' ? 1 : navigator.hardwareConcurrency || 1);
+
+const getWorkerScope = (): WorkerLike & { name?: string; } | undefined => {
+  if (typeof document === 'undefined' && typeof self !== 'undefined') {
+    return self as unknown as WorkerLike & { name?: string; };
+  }
+  return undefined;
+};
+
+/**
+ * Answers requests sent by a `WorkerUpscaler` from within a Web Worker. The given options are used unless the `WorkerUpscaler` overrides them.
+ *
+ * ```javascript
+ * import { exposeUpscaler } from 'upscaler';
+ * import x4 from '@upscalerjs/esrgan-slim/4x';
+ * exposeUpscaler({ model: x4 });
+ * ```
+ */
+export const exposeUpscaler = (options: UpscalerOptions = {}): void => {
+  const scope = getWorkerScope();
+  if (!scope) {
+    throw getNotInWorkerError();
+  }
+  handleWorkerMessages(getWorkerPort(scope), options, loadModule);
+};
+
+if (getWorkerScope()?.name === WORKER_NAME) {
+  exposeUpscaler();
+}
@@ -0,0 +1,71 @@
+import os from 'os';
+import { isMainThread, MessagePort, parentPort, Worker, workerData, } from 'worker_threads';
+import type { UpscalerOptions, } from './types';
+import { handleWorkerMessages, WorkerPort, } from './worker';
+
+export type WorkerLike = Worker | MessagePort;
+
+const WORKER_DATA_KEY = 'upscalerWorker';
+
+export const getNotInWorkerError = (): Error => new Error(
+  'exposeUpscaler must be called from within a worker thread.',
+);
+
+// wraps a worker, or one end of a message channel, so that it can be used from either thread
+export const getWorkerPort = <S, R>(worker: WorkerLike): WorkerPort<S, R> => ({
+  postMessage: (message, transfer) => worker.postMessage(message, transfer),
+  onMessage: (listener) => {
+    worker.on('message', listener);
+    return () => {
+      worker.off('message', listener);
+    };
+  },
+  onError: (listener) => {
+    worker.on('error', listener);
+    return () => {
+      worker.off('error', listener);
+    };
+  },
+  terminate: async () => {
+    if (worker instanceof Worker) {
+      await worker.terminate();
+    } else {
+      worker.close();
+    }
+  },
+});
+
+// model modules are loaded with the platform's module loader
+const loadModule = (specifier: string): Promise<unknown> => import(specifier);
+
+// this file doubles as the script run by the default worker thread
+export const createDefaultWorker = (): WorkerLike => new Worker(__filename, {
+  workerData: {
+    [WORKER_DATA_KEY]: true,
+  },
+});
+
+// one worker per core, as each worker runs a single inference stream
+export const getDefaultPoolSize = (): number => Math.max(1, os.cpus().length);
+
+/**
+ * Answers requests sent by a `WorkerUpscaler` from within a worker thread. The given options are used unless the `WorkerUpscaler` overrides them.
+ *
+ * ```javascript
+ * const { exposeUpscaler } = require('upscaler/node');
+ * const x4 = require('@upscalerjs/esrgan-slim/4x');
+ * exposeUpscaler({ model: x4 });
+ * ```
+ */
+export const exposeUpscaler = (options: UpscalerOptions = {}): void => {
+  if (!parentPort) {
+    throw getNotInWorkerError();
+  }
+  handleWorkerMessages(getWorkerPort(parentPort), options, loadModule);
+};
+
+const isDefaultWorkerData = (data: unknown): boolean => data !== null && typeof data === 'object' && WORKER_DATA_KEY in data;
+
+if (!isMainThread && isDefaultWorkerData(workerData)) {
+  exposeUpscaler();
+}
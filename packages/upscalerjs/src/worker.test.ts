@@ -0,0 +1,86 @@
+import * as tf from '@tensorflow/tfjs-node';
+import {
+  deserializeError,
+  deserializeTensor,
+  getInvalidWorkerModelError,
+  getTransferList,
+  getUnserializablePreprocessingError,
+  resolveWorkerModel,
+  serializeError,
+  serializePreprocessing,
+  serializeTensor,
+  serializeTensorSync,
+} from './worker';
+import { AbortError, } from './utils';
+
+describe('worker', () => {
+  describe('serializeTensor', () => {
+    it('serializes and deserializes a tensor', async () => {
+      const tensor = tf.tensor3d([[[1, 2, 3,],],], [1, 1, 3,], 'int32');
+      const serializedTensor = await serializeTensor(tensor);
+      expect(serializedTensor.shape).toEqual([1, 1, 3,]);
+      expect(serializedTensor.dtype).toEqual('int32');
+      const deserializedTensor = deserializeTensor(serializedTensor);
+      expect(deserializedTensor.dtype).toEqual('int32');
+      expect(Array.from(deserializedTensor.dataSync())).toEqual([1, 2, 3,]);
+      tf.dispose([tensor, deserializedTensor,]);
+    });
+
+    it('copies the data of a tensor if asked', async () => {
+      const tensor = tf.ones([2, 2, 3,]);
+      const data = await tensor.data();
+      expect((await serializeTensor(tensor, { copy: true, })).data).not.toBe(data);
+      expect(serializeTensorSync(tensor).data).toEqual(data);
+      expect(serializeTensorSync(tensor, { copy: true, }).data).not.toBe(serializeTensorSync(tensor).data);
+      tensor.dispose();
+    });
+
+    it('transfers the buffer of each tensor once', async () => {
+      const tensor = tf.ones([2, 2, 3,]);
+      const serializedTensor = await serializeTensor(tensor);
+      expect(getTransferList(serializedTensor, undefined, serializedTensor)).toEqual([serializedTensor.data.buffer,]);
+      tensor.dispose();
+    });
+
+    it('does not transfer a buffer shared with other data', () => {
+      const buffer = new ArrayBuffer(8 * Float32Array.BYTES_PER_ELEMENT);
+      const serializedTensor = { data: new Float32Array(buffer, 4 * Float32Array.BYTES_PER_ELEMENT, 4), shape: [4,], dtype: 'float32' as const, };
+      expect(getTransferList(serializedTensor)).toEqual([]);
+      expect(getTransferList({ ...serializedTensor, data: new Float32Array(buffer, 0, 4), })).toEqual([]);
+    });
+  });
+
+  it('serializes and deserializes errors', () => {
+    const err = new TypeError('foo');
+    expect(deserializeError('id', serializeError(err))).toEqual(new Error('foo'));
+    expect(deserializeError('id', serializeError(err)).name).toEqual('TypeError');
+    const abortError = deserializeError('id', serializeError(new AbortError()));
+    expect(abortError).toBeInstanceOf(AbortError);
+    expect((abortError as AbortError).id).toEqual('id');
+  });
+
+  it('throws if asked to serialize a preprocessing function', () => {
+    expect(serializePreprocessing([{ type: 'gamma', gamma: 2, },])).toEqual([{ type: 'gamma', gamma: 2, },]);
+    expect(() => serializePreprocessing([(pixels) => pixels,])).toThrow(getUnserializablePreprocessingError());
+  });
+
+  describe('resolveWorkerModel', () => {
+    const modelDefinition = { scale: 2, path: 'foo', };
+
+    it('returns a model definition as is', async () => {
+      const loadModule = jest.fn();
+      expect(await resolveWorkerModel(modelDefinition, loadModule)).toBe(modelDefinition);
+      expect(await resolveWorkerModel(undefined, loadModule)).toEqual(undefined);
+      expect(loadModule).not.toHaveBeenCalled();
+    });
+
+    it('loads a model definition from a module', async () => {
+      expect(await resolveWorkerModel('foo', async () => ({ default: modelDefinition, }))).toBe(modelDefinition);
+      expect(await resolveWorkerModel('foo', async () => modelDefinition)).toBe(modelDefinition);
+    });
+
+    it('throws if a module does not export a model definition', async () => {
+      await expect(resolveWorkerModel('foo', async () => ({ default: 'bar', }))).rejects.toThrow(getInvalidWorkerModelError('foo'));
+    });
+  });
+});
@@ -0,0 +1,315 @@
+import { tf, } from './dependencies.generated';
+import type {
+  ModelInputValues,
+  UpscaleArgs,
+  UpscaleMetadata,
+  UpscalerOptions,
+  PreprocessingStage,
+  WarmupSizes,
+} from './types';
+import type { ModelDefinition, ModelDefinitionObjectOrFn, PreProcess, } from '@upscalerjs/core';
+import { Upscaler, } from './upscaler';
+import { AbortError, isTensor, } from './utils';
+
+/**
+ * A model to load in a worker. Either a model definition without functions, or a module specifier, like `@upscalerjs/esrgan-slim/4x`, whose default export is a model definition.
+ */
+export type WorkerModel = string | ModelDefinition;
+
+export type WorkerUpscalerOptions = Omit<UpscalerOptions, 'model'> & {
+  model?: WorkerModel;
+};
+
+export type WorkerTensorData = Float32Array | Int32Array | Uint8Array;
+
+export interface SerializedTensor {
+  data: WorkerTensorData;
+  shape: number[];
+  dtype: tf.DataType;
+}
+
+export interface SerializedError {
+  message: string;
+  name: string;
+  aborted: boolean;
+}
+
+// every option of an upscale request that can be sent to a worker. functions are replaced by flags
+export type SerializedUpscaleArgs = Omit<UpscaleArgs<undefined, 'tensor', 'tensor'>, 'signal' | 'progress' | 'progressOutput' | 'output' | 'onMetadata' | 'inputs' | 'preprocessing' | 'id' | 'priority' | 'imageFormat' | 'imageQuality'> & {
+  inputs?: Record<string, number | SerializedTensor>;
+  preprocessing?: Array<Exclude<PreprocessingStage, PreProcess>>;
+  priority?: number;
+};
+
+export type WorkerProgressType = 'none' | 'single' | 'multi';
+
+export type WorkerRequest = {
+  type: 'instantiate';
+  options: WorkerUpscalerOptions;
+} | {
+  type: 'upscale';
+  id: string;
+  image: SerializedTensor;
+  options: SerializedUpscaleArgs;
+  progress: WorkerProgressType;
+  metadata: boolean;
+} | {
+  type: 'warmup';
+  id: string;
+  warmupSizes: WarmupSizes[];
+} | {
+  type: 'setModel';
+  id: string;
+  model: WorkerModel;
+} | {
+  type: 'cancel';
+  id: string;
+} | {
+  type: 'abort';
+} | {
+  type: 'dispose';
+  id: string;
+};
+
+export type WorkerResponse = {
+  type: 'result';
+  id: string;
+  image?: SerializedTensor;
+} | {
+  type: 'error';
+  id: string;
+  error: SerializedError;
+} | {
+  type: 'progress';
+  id: string;
+  percent: number;
+  slice?: SerializedTensor;
+  row?: number;
+  col?: number;
+} | {
+  type: 'metadata';
+  id: string;
+  metadata: UpscaleMetadata;
+} | {
+  type: 'modelLoadProgress';
+  progress: number;
+};
+
+/**
+ * A platform agnostic wrapper around either end of a worker's message channel.
+ */
+export interface WorkerPort<S, R> {
+  postMessage: (message: S, transfer?: ArrayBuffer[]) => void;
+  onMessage: (listener: (message: R) => void) => () => void;
+  onError: (listener: (err: Error) => void) => () => void;
+  terminate: () => Promise<void>;
+}
+
+export type MainThreadPort = WorkerPort<WorkerRequest, WorkerResponse>;
+export type WorkerThreadPort = WorkerPort<WorkerResponse, WorkerRequest>;
+
+export const getUnserializablePreprocessingError = (): Error => new Error(
+  'Preprocessing functions cannot be sent to a worker. Only preprocessing stages described by a type may be used with a WorkerUpscaler.',
+);
+
+export const getWorkerTerminatedError = (): Error => new Error(
+  'The worker was terminated before the request finished.',
+);
+
+export const getInvalidWorkerModelError = (model: string): Error => new Error(
+  `The module "${model}" does not export a model definition.`,
+);
+
+// the data of a serialized tensor is transferred, rather than copied, between threads
+// a buffer is only transferred if it holds nothing but the tensor's data, and not, for instance, a WASM heap
+const ownsBuffer = ({ data, }: SerializedTensor): boolean => data.byteOffset === 0 && data.byteLength === data.buffer.byteLength;
+
+export const getTransferList = (...tensors: Array<SerializedTensor | undefined>): ArrayBuffer[] => tensors.reduce<ArrayBuffer[]>((transfer, tensor) => {
+  if (tensor && ownsBuffer(tensor) && !transfer.includes(tensor.data.buffer as ArrayBuffer)) {
+    transfer.push(tensor.data.buffer as ArrayBuffer);
+  }
+  return transfer;
+}, []);
+
+// the data of a tensor owned by the caller may be shared with other tensors, and must be copied before being transferred
+export const serializeTensor = async (tensor: tf.Tensor, { copy = false, }: { copy?: boolean; } = {}): Promise<SerializedTensor> => {
+  const data = await tensor.data() as WorkerTensorData;
+  return {
+    data: copy ? data.slice() : data,
+    shape: tensor.shape,
+    dtype: tensor.dtype,
+  };
+};
+
+// the synchronous version of serializeTensor, for use in progress callbacks
+export const serializeTensorSync = (tensor: tf.Tensor, { copy = false, }: { copy?: boolean; } = {}): SerializedTensor => {
+  const data = tensor.dataSync() as WorkerTensorData;
+  return {
+    data: copy ? data.slice() : data,
+    shape: tensor.shape,
+    dtype: tensor.dtype,
+  };
+};
+
+// data received from another thread is viewed, without copying, as a typed array of the current realm
+const getTypedArray = ({ data, dtype, }: SerializedTensor): WorkerTensorData => {
+  if (dtype === 'int32') {
+    return new Int32Array(data.buffer, data.byteOffset, data.length);
+  }
+  if (dtype === 'bool') {
+    return new Uint8Array(data.buffer, data.byteOffset, data.length);
+  }
+  return new Float32Array(data.buffer, data.byteOffset, data.length);
+};
+
+export const deserializeTensor = <T extends tf.Tensor = tf.Tensor>(tensor: SerializedTensor): T => tf.tensor(getTypedArray(tensor), tensor.shape, tensor.dtype) as T;
+
+export const serializeError = (err: unknown): SerializedError => ({
+  message: err instanceof Error ? err.message : String(err),
+  name: err instanceof Error ? err.name : 'Error',
+  aborted: err instanceof AbortError,
+});
+
+export const deserializeError = (id: string, { message, name, aborted, }: SerializedError): Error => {
+  if (aborted) {
+    return new AbortError(id);
+  }
+  const err = new Error(message);
+  err.name = name;
+  return err;
+};
+
+export const serializeInputs = async (inputs?: ModelInputValues): Promise<SerializedUpscaleArgs['inputs']> => {
+  if (!inputs) {
+    return undefined;
+  }
+  const serializedInputs: Record<string, number | SerializedTensor> = {};
+  for (const [name, value,] of Object.entries(inputs)) {
+    serializedInputs[name] = isTensor(value) ? await serializeTensor(value, { copy: true, }) : value;
+  }
+  return serializedInputs;
+};
+
+const deserializeInputs = (inputs?: SerializedUpscaleArgs['inputs']): ModelInputValues | undefined => inputs && Object.entries(inputs).reduce<ModelInputValues>((values, [name, value,]) => ({
+  ...values,
+  [name]: typeof value === 'number' ? value : deserializeTensor<tf.Tensor3D>(value),
+}), {});
+
+export const serializePreprocessing = (preprocessing?: PreprocessingStage[]): SerializedUpscaleArgs['preprocessing'] => {
+  if (preprocessing?.some(stage => typeof stage === 'function')) {
+    throw getUnserializablePreprocessingError();
+  }
+  return preprocessing as SerializedUpscaleArgs['preprocessing'];
+};
+
+const hasDefaultExport = (module: unknown): module is { default: unknown; } => module !== null && typeof module === 'object' && 'default' in module;
+
+const isModelDefinitionObjectOrFn = (model: unknown): model is ModelDefinitionObjectOrFn => typeof model === 'function' || (model !== null && typeof model === 'object' && 'scale' in model);
+
+export const resolveWorkerModel = async (
+  model: WorkerModel | undefined,
+  loadModule: (specifier: string) => Promise<unknown>,
+): Promise<ModelDefinitionObjectOrFn | undefined> => {
+  if (typeof model !== 'string') {
+    return model;
+  }
+  const module = await loadModule(model);
+  const modelDefinition = hasDefaultExport(module) ? module.default : module;
+  if (!isModelDefinitionObjectOrFn(modelDefinition)) {
+    throw getInvalidWorkerModelError(model);
+  }
+  return modelDefinition;
+};
+
+// runs an upscaler on the worker side of a channel, answering requests sent by a WorkerUpscaler
+export const handleWorkerMessages = (
+  port: WorkerThreadPort,
+  options: UpscalerOptions,
+  loadModule: (specifier: string) => Promise<unknown>,
+): () => void => {
+  let upscaler: Promise<Upscaler> | undefined;
+  const jobs = new Map<string, AbortController>();
+
+  const getUpscaler = (): Promise<Upscaler> => {
+    upscaler = upscaler || Promise.resolve(new Upscaler(options));
+    return upscaler;
+  };
+
+  const instantiate = ({ model, ...instantiateOptions }: WorkerUpscalerOptions): void => {
+    upscaler = resolveWorkerModel(model, loadModule).then(modelDefinition => new Upscaler({
+      ...options,
+      ...instantiateOptions,
+      model: modelDefinition || options.model,
+      onModelLoadProgress: progress => port.postMessage({ type: 'modelLoadProgress', progress, }),
+    }));
+  };
+
+  // resolves a request, reporting any error back to the main thread
+  const respond = async (id: string, fn: () => Promise<SerializedTensor | void>): Promise<void> => {
+    try {
+      const image = await fn();
+      port.postMessage({ type: 'result', id, image: image || undefined, }, getTransferList(image || undefined));
+    } catch (err) {
+      port.postMessage({ type: 'error', id, error: serializeError(err), });
+    }
+  };
+
+  const upscale = async (id: string, request: Extract<WorkerRequest, { type: 'upscale'; }>): Promise<SerializedTensor> => {
+    const controller = new AbortController();
+    jobs.set(id, controller);
+    const pixels = deserializeTensor<tf.Tensor3D | tf.Tensor4D>(request.image);
+    const inputs = deserializeInputs(request.options.inputs);
+    try {
+      const instance = await getUpscaler();
+      const upscaledPixels = await instance.upscale(pixels, {
+        ...request.options,
+        inputs,
+        id,
+        signal: controller.signal,
+        output: 'tensor',
+        progressOutput: 'tensor',
+        // the number of arguments a progress callback accepts determines whether slices are computed at all
+        progress: request.progress === 'multi' ? (percent: number, slice: tf.Tensor3D, row: number, col: number) => {
+          // a slice may share its data with the upscaled image, which is still being built
+          const serializedSlice = serializeTensorSync(slice, { copy: true, });
+          slice.dispose();
+          port.postMessage({ type: 'progress', id, percent, slice: serializedSlice, row, col, }, getTransferList(serializedSlice));
+        } : request.progress === 'single' ? (percent: number) => {
+          port.postMessage({ type: 'progress', id, percent, });
+        } : undefined,
+        onMetadata: request.metadata ? metadata => port.postMessage({ type: 'metadata', id, metadata, }) : undefined,
+      });
+      const serializedPixels = await serializeTensor(upscaledPixels);
+      upscaledPixels.dispose();
+      return serializedPixels;
+    } finally {
+      jobs.delete(id);
+      tf.dispose([pixels, ...Object.values(inputs || {}).filter(isTensor),]);
+    }
+  };
+
+  const onMessage = (request: WorkerRequest): void => {
+    if (request.type === 'instantiate') {
+      instantiate(request.options);
+    } else if (request.type === 'upscale') {
+      void respond(request.id, () => upscale(request.id, request));
+    } else if (request.type === 'warmup') {
+      void respond(request.id, async () => (await getUpscaler()).warmup(request.warmupSizes));
+    } else if (request.type === 'setModel') {
+      void respond(request.id, async () => {
+        const [instance, modelDefinition,] = await Promise.all([getUpscaler(), resolveWorkerModel(request.model, loadModule),]);
+        if (modelDefinition) {
+          await instance.setModel(modelDefinition);
+        }
+      });
+    } else if (request.type === 'cancel') {
+      jobs.get(request.id)?.abort();
+    } else if (request.type === 'abort') {
+      void upscaler?.then(instance => instance.abort(), () => undefined);
+    } else if (request.type === 'dispose') {
+      void respond(request.id, async () => (await getUpscaler()).dispose());
+    }
+  };
+
+  return port.onMessage(onMessage);
+};
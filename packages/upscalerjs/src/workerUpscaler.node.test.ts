@@ -0,0 +1,192 @@
+import { MessageChannel, MessagePort, } from 'worker_threads';
+import * as tf from '@tensorflow/tfjs-node';
+import type { LayersModel, } from '@tensorflow/tfjs';
+import { WorkerUpscaler, } from './workerUpscaler';
+import { getUnserializablePreprocessingError, handleWorkerMessages, WorkerRequest, WorkerResponse, } from './worker';
+import { getWorkerPort, } from './worker.generated';
+import { loadModel as _loadModel, } from './loadModel.generated';
+import { getDuplicateJobIdError, } from './upscaler';
+import { AbortError, } from './utils';
+import { mockFn, } from '../../../test/lib/shared/mockers';
+
+jest.mock('./loadModel.generated', () => {
+  const { loadModel, ...rest } = jest.requireActual('./loadModel.generated');
+  return {
+    ...rest,
+    loadModel: jest.fn(loadModel),
+  };
+});
+
+const loadModel = mockFn(_loadModel);
+
+describe('WorkerUpscaler', () => {
+  let mainPort: MessagePort;
+  let workerPort: MessagePort;
+  let upscalers: WorkerUpscaler[] = [];
+
+  beforeEach(() => {
+    loadModel.mockImplementation(async (_modelDefinition, { onProgress, } = {}) => {
+      // the upscaler in the worker disposes of its model when disposed, or when the model is replaced
+      const model = tf.sequential();
+      model.add(tf.layers.upSampling2d({
+        size: [2, 2,],
+        dataFormat: 'channelsLast',
+        inputShape: [null, null, 3,],
+      }));
+      onProgress?.(1);
+      return {
+        modelDefinition: {
+          path: 'foo',
+          scale: 2,
+        },
+        model: model as unknown as LayersModel,
+      };
+    });
+    ({ port1: mainPort, port2: workerPort, } = new MessageChannel());
+    handleWorkerMessages(getWorkerPort<WorkerResponse, WorkerRequest>(workerPort), {}, async () => ({ default: { scale: 2, path: 'bar', }, }));
+  });
+
+  afterEach(async () => {
+    await Promise.all(upscalers.map(upscaler => upscaler.dispose()));
+    upscalers = [];
+    workerPort.close();
+    loadModel.mockClear();
+  });
+
+  const getImage = (size: number) => tf.ones([size, size, 3,]) as tf.Tensor3D;
+
+  const getUpscaler = (opts: ConstructorParameters<typeof WorkerUpscaler>[0] = {}) => {
+    const upscaler = new WorkerUpscaler({
+      ...opts,
+      worker: mainPort,
+    });
+    upscalers.push(upscaler);
+    return upscaler;
+  };
+
+  it('upscales an image in the worker', async () => {
+    const upscaler = getUpscaler();
+    const result = await upscaler.upscale(getImage(2), {
+      output: 'tensor',
+    });
+    expect(result.shape).toEqual([4, 4, 3,]);
+    expect(Array.from(result.dataSync())).toEqual(Array(4 * 4 * 3).fill(1));
+    result.dispose();
+  });
+
+  it('copies the data of a tensor given by the caller', async () => {
+    const upscaler = getUpscaler();
+    const input = getImage(2);
+    const result = await upscaler.upscale(input, {
+      output: 'tensor',
+    });
+    expect(input.isDisposed).toEqual(false);
+    expect(Array.from(input.dataSync())).toEqual(Array(2 * 2 * 3).fill(1));
+    tf.dispose([input, result,]);
+  });
+
+  it('forwards progress and metadata', async () => {
+    const upscaler = getUpscaler();
+    const progress = jest.fn();
+    const onMetadata = jest.fn();
+    const slices: tf.Tensor3D[] = [];
+    const result = await upscaler.upscale(getImage(4), {
+      output: 'tensor',
+      patchSize: 2,
+      padding: 0,
+      progress: (percent: number, slice: tf.Tensor3D, row: number, col: number) => {
+        progress(percent, row, col);
+        slices.push(slice);
+      },
+      onMetadata,
+    });
+    expect(progress.mock.calls).toEqual([
+      [0.25, 0, 0,],
+      [0.5, 0, 1,],
+      [0.75, 1, 0,],
+      [1, 1, 1,],
+    ]);
+    expect(slices.map(slice => slice.shape)).toEqual(Array(4).fill([4, 4, 3,]));
+    // the slices are copied before being transferred, leaving the upscaled image intact
+    expect(slices.map(slice => Array.from(slice.dataSync()))).toEqual(Array(4).fill(Array(4 * 4 * 3).fill(1)));
+    expect(Array.from(result.dataSync())).toEqual(Array(8 * 8 * 3).fill(1));
+    expect(onMetadata).toHaveBeenCalledWith({ patchSize: 2, padding: 0, });
+    tf.dispose([result, ...slices,]);
+  });
+
+  it('forwards single argument progress', async () => {
+    const upscaler = getUpscaler();
+    const progress = jest.fn();
+    const result = await upscaler.upscale(getImage(4), {
+      output: 'tensor',
+      patchSize: 2,
+      padding: 0,
+      progress: (percent: number) => progress(percent),
+    });
+    expect(progress.mock.calls).toEqual([[0.25,], [0.5,], [0.75,], [1,],]);
+    result.dispose();
+  });
+
+  it('cancels a request by its id', async () => {
+    const upscaler = getUpscaler();
+    const { id, promise, cancel, } = upscaler.upscaleWithHandle(getImage(2), { id: 'foo', });
+    cancel();
+    await expect(promise).rejects.toEqual(new AbortError(id));
+    await expect(promise).rejects.toHaveProperty('id', 'foo');
+  });
+
+  it('cancels a request when its signal is aborted', async () => {
+    const upscaler = getUpscaler();
+    const controller = new AbortController();
+    const promise = upscaler.upscale(getImage(2), { signal: controller.signal, });
+    controller.abort();
+    await expect(promise).rejects.toThrow(AbortError);
+  });
+
+  it('throws if given a duplicate id', async () => {
+    const upscaler = getUpscaler();
+    const promise = upscaler.upscale(getImage(2), { id: 'foo', output: 'tensor', });
+    await expect(upscaler.upscale(getImage(2), { id: 'foo', })).rejects.toThrow(getDuplicateJobIdError('foo'));
+    (await promise).dispose();
+  });
+
+  it('throws if given a preprocessing function', async () => {
+    const upscaler = getUpscaler();
+    await expect(upscaler.upscale(getImage(2), {
+      preprocessing: [(pixels) => pixels,],
+    })).rejects.toThrow(getUnserializablePreprocessingError());
+  });
+
+  it('forwards errors thrown in the worker', async () => {
+    const upscaler = getUpscaler();
+    await expect(upscaler.upscale(getImage(2), {
+      preprocessing: [{ type: 'foo', } as never,],
+    })).rejects.toThrow('foo');
+  });
+
+  it('reports model load progress', async () => {
+    const onModelLoadProgress = jest.fn();
+    const listener = jest.fn();
+    const upscaler = getUpscaler({ onModelLoadProgress, });
+    upscaler.on('modelLoadProgress', listener);
+    await upscaler.warmup();
+    expect(onModelLoadProgress).toHaveBeenCalledWith(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('loads a model by its module name', async () => {
+    const upscaler = getUpscaler({ model: 'foo', });
+    await upscaler.warmup();
+    expect(loadModel).toHaveBeenCalledWith({ scale: 2, path: 'bar', }, expect.anything());
+    await upscaler.setModel({ scale: 2, path: 'baz', });
+    expect(loadModel).toHaveBeenLastCalledWith({ scale: 2, path: 'baz', }, expect.anything());
+  });
+
+  it('rejects pending requests when disposed', async () => {
+    const upscaler = getUpscaler();
+    upscalers = [];
+    const promise = upscaler.upscale(getImage(2));
+    await upscaler.dispose();
+    await expect(promise).rejects.toThrow();
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * # WorkerUpscaler class
+ *
+ * Instantiate a WorkerUpscaler, which runs inference off of the main thread, with:
+ *
+ * ```typescript
+ * import { WorkerUpscaler } from 'upscaler';
+ * const upscaler = new WorkerUpscaler();
+ * upscaler.upscale(img).then(src => {
+ *   // display the src
+ * });
+ * ```
+ *
+ * @module WorkerUpscaler
+ */
+import { tf, } from './dependencies.generated';
+import type {
+  BASE64,
+  Progress,
+  ResultFormat,
+  UpscaleArgs,
+  UpscaleHandle,
+  UpscaleMetadata,
+  UpscaleResponse,
+  UpscalerEvent,
+  UpscalerEventMap,
+  WarmupSizes,
+} from './types';
+import { getImageAsTensor, GetImageAsTensorInput, PlatformImageEncodingOptions, } from './image.generated';
+import { createDefaultWorker, getWorkerPort, WorkerLike, } from './worker.generated';
+import {
+  deserializeError,
+  deserializeTensor,
+  getTransferList,
+  getWorkerTerminatedError,
+  MainThreadPort,
+  SerializedTensor,
+  serializeInputs,
+  serializePreprocessing,
+  serializeTensor,
+  WorkerModel,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerUpscalerOptions,
+} from './worker';
+import { getCopyOfInput, tensorAsOutput, } from './upscale';
+import { getDuplicateJobIdError, } from './upscaler';
+import { AbortError, isProgress, isTensor, } from './utils';
+
+interface PendingRequest {
+  resolve: (image?: SerializedTensor) => void;
+  reject: (err: Error) => void;
+  onProgress?: (response: Extract<WorkerResponse, { type: 'progress'; }>) => void;
+  onMetadata?: (metadata: UpscaleMetadata) => void;
+}
+
+let requestCount = 0;
+const getRequestId = (prefix: string): string => `${prefix}-${requestCount++}`;
+
+export class WorkerUpscaler {
+  /**
+   * @hidden
+   */
+  _opts: WorkerUpscalerOptions;
+
+  /**
+   * @hidden
+   */
+  _port: MainThreadPort;
+
+  /**
+   * @hidden
+   */
+  _requests = new Map<string, PendingRequest>();
+
+  /**
+   * @hidden
+   */
+  _listeners: { [E in UpscalerEvent]: Set<UpscalerEventMap[E]> } = {
+    modelLoadProgress: new Set(),
+  };
+
+  /**
+   * @hidden
+   */
+  _unsubscribe: Array<() => void>;
+
+  /**
+   * Instantiates an instance of UpscalerJS that runs in a Web Worker in the browser, or in a worker thread in Node.
+   *
+   * Because options are sent to the worker, a model must be given either as a model definition without functions, or as the name of a module to load it from. If no worker is provided, a worker is created.
+   *
+   * ```javascript
+   * import { WorkerUpscaler } from 'upscaler';
+   *
+   * const upscaler = new WorkerUpscaler({
+   *   model: '@upscalerjs/esrgan-slim/4x',
+   *   warmupSizes: [{ patchSize: 64 }],
+   * });
+   * ```
+   *
+   * @returns an instance of a WorkerUpscaler class.
+   */
+  constructor({ worker = createDefaultWorker(), onModelLoadProgress, ...opts }: WorkerUpscalerOptions & { worker?: WorkerLike; } = {}) {
+    this._opts = {
+      ...opts,
+      onModelLoadProgress,
+    };
+    this._port = getWorkerPort(worker);
+    this._unsubscribe = [
+      this._port.onMessage(this._onMessage),
+      this._port.onError(this._rejectAll),
+    ];
+    this._port.postMessage({ type: 'instantiate', options: opts, });
+  }
+
+  /**
+   * Upscales a given image in the worker. Accepts the same arguments as `Upscaler.upscale`, except that preprocessing functions cannot be sent to a worker.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.upscale(image, {
+   *   patchSize: 64,
+   *   padding: 2,
+   *   progress: (progress) => {
+   *     console.log('Progress:', progress);
+   *   },
+   * }).then(upscaledSrc => {
+   *   console.log(upscaledSrc);
+   * });
+   * ```
+   *
+   * @param image the image to upscale. If in the browser, this can be a string to a file path, a tensor, or any element tf.fromPixels supports. If in Node, this can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param options a set of upscaling arguments
+   * @returns an upscaled image.
+   */
+  upscale = async<P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
+    image: GetImageAsTensorInput,
+    options: UpscaleArgs<P, O, PO> & PlatformImageEncodingOptions = {},
+  ): Promise<UpscaleResponse<O>> => {
+    const {
+      id = getRequestId('upscale'),
+      signal,
+      output,
+      progress,
+      progressOutput,
+      onMetadata,
+      inputs,
+      preprocessing,
+      imageFormat,
+      imageQuality,
+      ...args
+    } = options;
+    if (this._requests.has(id)) {
+      throw getDuplicateJobIdError(id);
+    }
+    const encodingOptions = { imageFormat, imageQuality, };
+    // the request is registered before the image is read, so that it can be cancelled in the meantime
+    const response = this._request(id, {
+      onProgress: isProgress(progress) ? ({ percent, slice, row = 0, col = 0, }) => {
+        if (!slice) {
+          progress(percent);
+          return;
+        }
+        const sliceTensor = deserializeTensor<tf.Tensor3D>(slice);
+        void tensorAsOutput(sliceTensor, progressOutput || output, encodingOptions).then(sliceOutput => {
+          if (sliceOutput !== sliceTensor) {
+            sliceTensor.dispose();
+          }
+          (progress as (percent: number, slice: unknown, row: number, col: number) => void)(percent, sliceOutput, row, col);
+        });
+      } : undefined,
+      onMetadata,
+    });
+    // a cancelled request rejects before it is awaited
+    response.catch(() => undefined);
+    const onAbort = () => this.cancel(id);
+    signal?.addEventListener('abort', onAbort);
+    try {
+      const pixels = await getImageAsTensor(getCopyOfInput(image));
+      // tensors given by the caller may share their data, and are copied before being transferred
+      const serializedPixels = await serializeTensor(pixels, { copy: isTensor(image), });
+      pixels.dispose();
+      if (signal?.aborted) {
+        this.cancel(id);
+      }
+      if (!this._requests.has(id)) {
+        // the request was cancelled while the image was being read
+        throw new AbortError(id);
+      }
+      this._post({
+        type: 'upscale',
+        id,
+        image: serializedPixels,
+        options: {
+          ...args,
+          inputs: await serializeInputs(inputs),
+          preprocessing: serializePreprocessing(preprocessing),
+        },
+        progress: isProgress(progress) ? (progress.length <= 1 ? 'single' : 'multi') : 'none',
+        metadata: onMetadata !== undefined,
+      }, getTransferList(serializedPixels));
+      const upscaledPixels = deserializeTensor<tf.Tensor3D>(await response as SerializedTensor);
+      const upscaledOutput = await tensorAsOutput(upscaledPixels, output, encodingOptions);
+      if (output !== 'tensor') {
+        upscaledPixels.dispose();
+      }
+      return upscaledOutput;
+    } catch (err) {
+      this._settle(id, err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+
+  /**
+   * Upscales a given image in the worker, returning a handle that can be used to cancel the request.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * const { promise, cancel } = upscaler.upscaleWithHandle(image);
+   * promise.catch(err => {
+   *   console.log('Request was cancelled:', err.id);
+   * });
+   * cancel();
+   * ```
+   *
+   * @param image the image to upscale. If in the browser, this can be a string to a file path, a tensor, or any element tf.fromPixels supports. If in Node, this can be a string to a file path, a Buffer, a Uint8Array, or a tensor.
+   * @param options a set of upscaling arguments
+   * @returns a handle of shape ```{ id, promise, cancel }```.
+   */
+  upscaleWithHandle = <P extends Progress<O, PO>, O extends ResultFormat = BASE64, PO extends ResultFormat = undefined>(
+    image: GetImageAsTensorInput,
+    options: UpscaleArgs<P, O, PO> & PlatformImageEncodingOptions = {},
+  ): UpscaleHandle<O> => {
+    const { id = getRequestId('upscale'), } = options;
+    return {
+      id,
+      promise: this.upscale(image, {
+        ...options,
+        id,
+      }),
+      cancel: () => this.cancel(id),
+    };
+  };
+
+  /**
+   * Warms up the upscaler in the worker.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.warmup([{
+   *   patchSize: 64,
+   * }]).then(() => {
+   *   console.log('I am all warmed up!');
+   * });
+   * ```
+   */
+  warmup = async (warmupSizes: WarmupSizes[] = []): Promise<void> => {
+    const id = getRequestId('warmup');
+    const response = this._request(id);
+    this._post({ type: 'warmup', id, warmupSizes, });
+    await response;
+  };
+
+  /**
+   * Aborts all requests running in the worker, and cancels any queued upscale requests.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.abort();
+   * ```
+   */
+  abort = (): void => {
+    this._post({ type: 'abort', });
+  };
+
+  /**
+   * Cancels a single upscale request, whether it is queued or running, by its id.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.upscale(image, { id: 'foo' }).catch(err => {
+   *   console.log(err.id); // 'foo'
+   * });
+   * upscaler.cancel('foo');
+   * ```
+   */
+  cancel = (id: string): void => {
+    if (this._requests.has(id)) {
+      this._post({ type: 'cancel', id, });
+      this._settle(id, new AbortError(id));
+    }
+  };
+
+  /**
+   * Listens for events emitted by the upscaler in the worker.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.on('modelLoadProgress', (progress) => {
+   *   console.log('Model load progress:', progress);
+   * });
+   * ```
+   */
+  on = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].add(listener);
+  };
+
+  /**
+   * Removes a listener previously added with `on`.
+   */
+  off = <E extends UpscalerEvent>(event: E, listener: UpscalerEventMap[E]): void => {
+    this._listeners[event].delete(listener);
+  };
+
+  /**
+   * Replaces the model used by the upscaler in the worker. The model is given either as a model definition without functions, or as the name of a module to load it from.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler({
+   *   model: '@upscalerjs/esrgan-slim/2x',
+   * });
+   * upscaler.setModel('@upscalerjs/esrgan-slim/4x').then(() => {
+   *   console.log('Now upscaling with the 4x model');
+   * });
+   * ```
+   */
+  setModel = async (model: WorkerModel): Promise<void> => {
+    const id = getRequestId('setModel');
+    const response = this._request(id);
+    this._post({ type: 'setModel', id, model, });
+    await response;
+    this._opts.model = model;
+  };
+
+  /**
+   * Disposes of the upscaler in the worker, and terminates the worker. Any requests that have not finished are rejected.
+   *
+   * ```javascript
+   * const upscaler = new WorkerUpscaler();
+   * upscaler.dispose().then(() => {
+   *   console.log("I'm all cleaned up!");
+   * })
+   * ```
+   */
+  dispose = async (): Promise<void> => {
+    const id = getRequestId('dispose');
+    const response = this._request(id);
+    this._post({ type: 'dispose', id, });
+    try {
+      await response;
+    } finally {
+      this._unsubscribe.forEach(unsubscribe => unsubscribe());
+      this._rejectAll(getWorkerTerminatedError());
+      await this._port.terminate();
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  _request = (id: string, handlers: Pick<PendingRequest, 'onProgress' | 'onMetadata'> = {}): Promise<SerializedTensor | undefined> => new Promise((resolve, reject) => {
+    this._requests.set(id, {
+      ...handlers,
+      resolve,
+      reject,
+    });
+  });
+
+  /**
+   * @hidden
+   */
+  _post = (request: WorkerRequest, transfer?: ArrayBuffer[]): void => {
+    this._port.postMessage(request, transfer);
+  };
+
+  /**
+   * @hidden
+   */
+  _settle = (id: string, err?: Error, image?: SerializedTensor): void => {
+    const request = this._requests.get(id);
+    if (request) {
+      this._requests.delete(id);
+      if (err) {
+        request.reject(err);
+      } else {
+        request.resolve(image);
+      }
+    }
+  };
+
+  /**
+   * @hidden
+   */
+  _rejectAll = (err: Error): void => {
+    Array.from(this._requests.keys()).forEach(id => this._settle(id, err));
+  };
+
+  /**
+   * @hidden
+   */
+  _onMessage = (response: WorkerResponse): void => {
+    if (response.type === 'modelLoadProgress') {
+      this._opts.onModelLoadProgress?.(response.progress);
+      this._listeners.modelLoadProgress.forEach(listener => listener(response.progress));
+    } else if (response.type === 'result') {
+      this._settle(response.id, undefined, response.image);
+    } else if (response.type === 'error') {
+      this._settle(response.id, deserializeError(response.id, response.error));
+    } else if (response.type === 'progress') {
+      this._requests.get(response.id)?.onProgress?.(response);
+    } else if (response.type === 'metadata') {
+      this._requests.get(response.id)?.onMetadata?.(response.metadata);
+    }
+  };
+}
+
+export default WorkerUpscaler;
@@ -0,0 +1,13 @@
+import type { ImageWriter, ImageWriterOptions, } from './types';
+
+export const getWriterNotSupportedError = (): Error => new Error(
+  'Writing an upscaled image to a file is only supported in Node.',
+);
+
+/* eslint-disable @typescript-eslint/no-unused-vars */
+export const createImageWriter = (
+  _outputPath: string,
+  _options: ImageWriterOptions,
+): ImageWriter => {
+  throw getWriterNotSupportedError();
+};
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import {
+  createImageWriter,
+  crc32,
+  getInvalidRowsError,
+  getUnsupportedFileChannelsError,
+} from './writer.node';
+
+const readPNGChunks = (buffer: Buffer) => {
+  const chunks: Array<{ type: string; data: Buffer; crc: number; }> = [];
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.subarray(offset + 4, offset + 8).toString('ascii');
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    const crc = buffer.readUInt32BE(offset + 8 + length);
+    chunks.push({ type, data, crc, });
+    offset += length + 12;
+  }
+  return chunks;
+};
+
+describe('writer', () => {
+  let folder: string;
+
+  beforeEach(() => {
+    folder = fs.mkdtempSync(path.resolve(os.tmpdir(), 'upscaler-writer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(folder, { recursive: true, force: true, });
+  });
+
+  it('calculates a crc32', () => {
+    expect(crc32(Buffer.from('IEND', 'ascii'))).toEqual(0xae426082);
+  });
+
+  it('throws if given an unsupported number of channels', () => {
+    expect(() => createImageWriter(path.resolve(folder, 'out.png'), {
+      width: 1,
+      height: 1,
+      channels: 2,
+    })).toThrow(getUnsupportedFileChannelsError(2));
+  });
+
+  it('writes a PNG row by row', async () => {
+    const outputPath = path.resolve(folder, 'out.png');
+    const writer = createImageWriter(outputPath, {
+      width: 2,
+      height: 3,
+      channels: 3,
+    });
+    await writer.write(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,]));
+    await writer.write(new Uint8Array([13, 14, 15, 16, 17, 18,]));
+    await writer.close();
+
+    const buffer = fs.readFileSync(outputPath);
+    expect(Array.from(buffer.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10,]);
+    const chunks = readPNGChunks(buffer);
+    expect(chunks[0].type).toEqual('IHDR');
+    expect(chunks[0].data.readUInt32BE(0)).toEqual(2);
+    expect(chunks[0].data.readUInt32BE(4)).toEqual(3);
+    expect(chunks[0].data[9]).toEqual(2);
+    expect(chunks[chunks.length - 1].type).toEqual('IEND');
+    chunks.forEach(({ type, data, crc, }) => {
+      expect(crc32(Buffer.concat([Buffer.from(type, 'ascii'), data,]))).toEqual(crc);
+    });
+    const idat = Buffer.concat(chunks.filter(({ type, }) => type === 'IDAT').map(({ data, }) => data));
+    expect(Array.from(zlib.inflateSync(idat))).toEqual([
+      0, 1, 2, 3, 4, 5, 6,
+      0, 7, 8, 9, 10, 11, 12,
+      0, 13, 14, 15, 16, 17, 18,
+    ]);
+  });
+
+  it('writes raw pixels', async () => {
+    const outputPath = path.resolve(folder, 'out.raw');
+    const writer = createImageWriter(outputPath, {
+      width: 2,
+      height: 2,
+      channels: 1,
+      format: 'raw',
+    });
+    await writer.write(new Uint8Array([1, 2,]));
+    await writer.write(new Uint8Array([3, 4,]));
+    await writer.close();
+    expect(Array.from(fs.readFileSync(outputPath))).toEqual([1, 2, 3, 4,]);
+  });
+
+  it('throws if the file cannot be written', async () => {
+    const writer = createImageWriter(path.resolve(folder, 'missing', 'out.png'), {
+      width: 1,
+      height: 1,
+      channels: 3,
+    });
+    await expect(writer.close()).rejects.toThrow('ENOENT');
+  });
+
+  it('throws if closed before all rows are written', async () => {
+    const writer = createImageWriter(path.resolve(folder, 'out.png'), {
+      width: 1,
+      height: 2,
+      channels: 4,
+    });
+    await writer.write(new Uint8Array([1, 2, 3, 4,]));
+    await expect(writer.close()).rejects.toThrow(getInvalidRowsError(2, 1));
+  });
+});
@@ -0,0 +1,151 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import type { ImageWriter, ImageWriterOptions, } from './types';
+
+export const getUnsupportedFileChannelsError = (channels: number): Error => new Error(
+  `Unsupported number of channels for writing to a file: ${channels}. Only 1, 3, or 4 channels are supported.`,
+);
+
+export const getInvalidRowsError = (expected: number, received: number): Error => new Error([
+  `Expected ${expected} rows of pixels to be written, but received ${received}.`,
+  'Rows must be written in full before the writer is closed.',
+].join(' '));
+
+const PNG_SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10,]);
+const PNG_COLOR_TYPES: Record<number, number> = {
+  1: 0, // grayscale
+  3: 2, // rgb
+  4: 6, // rgba
+};
+const PNG_FILTER_NONE = 0;
+
+const CRC_TABLE = new Uint32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export const crc32 = (buffer: Buffer): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buffer.length; i++) {
+    crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const getPNGChunk = (type: string, data: Buffer = Buffer.alloc(0)): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data,]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc,]);
+};
+
+const getPNGHeader = (width: number, height: number, channels: number): Buffer => {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header.writeUInt8(8, 8); // bit depth
+  header.writeUInt8(PNG_COLOR_TYPES[channels], 9);
+  header.writeUInt8(0, 10); // compression
+  header.writeUInt8(0, 11); // filter
+  header.writeUInt8(0, 12); // interlace
+  return Buffer.concat([PNG_SIGNATURE, getPNGChunk('IHDR', header),]);
+};
+
+// resolves once the stream is ready to accept more data
+const write = (stream: NodeJS.WritableStream, data: Buffer | Uint8Array): Promise<void> => new Promise(resolve => {
+  if (stream.write(data)) {
+    resolve();
+  } else {
+    stream.once('drain', resolve);
+  }
+});
+
+const waitFor = (stream: NodeJS.EventEmitter, event: string): Promise<void> => new Promise(resolve => {
+  stream.once(event, () => resolve());
+});
+
+// rejects if any of the given streams emit an error
+const getFailure = (...streams: NodeJS.EventEmitter[]): Promise<never> => {
+  const failure = new Promise<never>((_, reject) => {
+    streams.forEach(stream => stream.on('error', reject));
+  });
+  // errors are surfaced through write and close; avoid an unhandled rejection if neither is called again
+  failure.catch(() => undefined);
+  return failure;
+};
+
+// writes rows of pixels to a file as they become available, so that the full image never needs to be held in memory.
+// "png" writes a streaming, deflate-compressed PNG; "raw" writes interleaved, unencoded bytes.
+export const createImageWriter = (
+  outputPath: string,
+  { width, height, channels, format = 'png', }: ImageWriterOptions,
+): ImageWriter => {
+  if (PNG_COLOR_TYPES[channels] === undefined) {
+    throw getUnsupportedFileChannelsError(channels);
+  }
+  const rowLength = width * channels;
+  let rowsWritten = 0;
+  const file = fs.createWriteStream(outputPath);
+
+  if (format === 'raw') {
+    const failure = getFailure(file);
+    return {
+      write: async (pixels) => {
+        rowsWritten += pixels.length / rowLength;
+        await Promise.race([write(file, pixels), failure,]);
+      },
+      close: async () => {
+        file.end();
+        await Promise.race([waitFor(file, 'finish'), failure,]);
+        if (rowsWritten !== height) {
+          throw getInvalidRowsError(height, rowsWritten);
+        }
+      },
+      abort: () => {
+        file.destroy();
+      },
+    };
+  }
+
+  file.write(getPNGHeader(width, height, channels));
+  const deflate = zlib.createDeflate();
+  deflate.on('data', (data: Buffer) => {
+    // if the file cannot keep up, stop compressing until it has drained
+    if (!file.write(getPNGChunk('IDAT', data))) {
+      deflate.pause();
+      file.once('drain', () => deflate.resume());
+    }
+  });
+  const deflated = waitFor(deflate, 'end');
+  const failure = getFailure(file, deflate);
+
+  return {
+    write: async (pixels) => {
+      for (let offset = 0; offset < pixels.length; offset += rowLength) {
+        await Promise.race([write(deflate, Buffer.concat([
+          Buffer.from([PNG_FILTER_NONE,]),
+          pixels.subarray(offset, offset + rowLength),
+        ])), failure,]);
+        rowsWritten += 1;
+      }
+    },
+    close: async () => {
+      deflate.end();
+      await Promise.race([deflated, failure,]);
+      file.end(getPNGChunk('IEND'));
+      await Promise.race([waitFor(file, 'finish'), failure,]);
+      if (rowsWritten !== height) {
+        throw getInvalidRowsError(height, rowsWritten);
+      }
+    },
+    abort: () => {
+      deflate.destroy();
+      file.destroy();
+    },
+  };
+};
@@ -1,5 +1,4 @@
 import path from 'path';
-import fs from 'fs';
 import * as tf from '@tensorflow/tfjs-node';
 import { checkImage } from '../../lib/utils/checkImage';
 import { prepareScriptBundleForNodeCJS } from '../../lib/node/prepare';
@@ -9,7 +8,7 @@ import { FIXTURES_DIR, MODELS_DIR } from '../../../scripts/package-scripts/utils
 
 const PIXEL_UPSAMPLER_DIR = path.resolve(MODELS_DIR, 'pixel-upsampler/test/__fixtures__');
 const IMAGE_FIXTURE_PATH = path.resolve(FIXTURES_DIR, 'flower-small-15.jpg');
-const BAD_IMAGE_FIXTURE_PATH = path.resolve(FIXTURES_DIR, 'flower-small.png');
+const ALPHA_IMAGE_FIXTURE_PATH = path.resolve(FIXTURES_DIR, 'flower-small.png');
 const MODEL_PATH = 'file://' + path.join(MODELS_DIR, 'pixel-upsampler/models/4x/4x.json');
 
 const EXPECTED_UPSCALED_IMAGE_15 = path.resolve(PIXEL_UPSAMPLER_DIR, '4x/result-15.png');
@@ -22,10 +21,17 @@ const getInvalidImageSrcInput = (input: string): Error => new Error([
   `Image specified at path ${input} could not be found`,
 ].join(' '));
 export const getInvalidChannelsOfTensor = (input: tf.Tensor): Error => new Error([
-  `Invalid channels, only 3 channels are supported at this time. You provided: "${input.shape.slice(-1)[0]}".`,
+  `Invalid channels, only 1, 3, or 4 channels are supported at this time. You provided: "${input.shape.slice(-1)[0]}".`,
   `Full tensor shape: ${JSON.stringify(input.shape)}`,
 ].join(' '));
 
+const getChannelsOfResult = (result: string): number => {
+  const t = tf.node.decodePng(Buffer.from(result, 'base64'), 0);
+  const channels = t.shape[2];
+  t.dispose();
+  return channels;
+};
+
 const JEST_TIMEOUT = 60 * 1000;
 jest.setTimeout(JEST_TIMEOUT * 1); // 60 seconds timeout
 
@@ -90,13 +96,13 @@ describe('Node Image Loading Integration Tests', () => {
       checkImage(`data:image/png;base64,${result}`, EXPECTED_UPSCALED_IMAGE_15, DIFF_IMAGE_OUTPUT);
     });
 
-    it('throws if given 4-channel Uint8Array', async () => {
-      const mockedTensor = tf.node.decodeImage(fs.readFileSync(BAD_IMAGE_FIXTURE_PATH));
-      await expect(() => testRunner.run({
+    it('upscales a 4-channel Uint8Array', async () => {
+      const result = await testRunner.run({
         globals: {
-          image: `new Uint8Array(fs.readFileSync('${BAD_IMAGE_FIXTURE_PATH}'))`,
+          image: `new Uint8Array(fs.readFileSync('${ALPHA_IMAGE_FIXTURE_PATH}'))`,
         },
-      })).rejects.toThrowError(getInvalidChannelsOfTensor(mockedTensor));
+      });
+      expect(getChannelsOfResult(result)).toEqual(4);
     });
   });
 
@@ -110,13 +116,13 @@ describe('Node Image Loading Integration Tests', () => {
       checkImage(`data:image/png;base64,${result}`, EXPECTED_UPSCALED_IMAGE_15, DIFF_IMAGE_OUTPUT);
     });
 
-    it("throws if a Buffer has invalid channels", async () => {
-      const mockedTensor = tf.node.decodeImage(fs.readFileSync(BAD_IMAGE_FIXTURE_PATH));
-      await expect(() => testRunner.run({
+    it("upscales a 4-channel Buffer", async () => {
+      const result = await testRunner.run({
         globals: {
-          image: `fs.readFileSync('${BAD_IMAGE_FIXTURE_PATH}')`,
+          image: `fs.readFileSync('${ALPHA_IMAGE_FIXTURE_PATH}')`,
         },
-      })).rejects.toThrowError(getInvalidChannelsOfTensor(mockedTensor));
+      });
+      expect(getChannelsOfResult(result)).toEqual(4);
     });
   });
 
@@ -131,10 +137,10 @@ describe('Node Image Loading Integration Tests', () => {
     });
 
     it("throws if 3D Tensor has invalid channels", async () => {
-      const t = tf.ones([16,16,4]);
+      const t = tf.ones([16,16,2]);
       await expect(() => testRunner.run({
         globals: {
-          image: `tf.ones([16,16,4])`,
+          image: `tf.ones([16,16,2])`,
         },
       })).rejects.toThrowError(getInvalidChannelsOfTensor(t));
     });
@@ -149,10 +155,10 @@ describe('Node Image Loading Integration Tests', () => {
     });
 
     it("throws if 4D Tensor has invalid channels", async () => {
-      const t = tf.ones([1,16,16,4]);
+      const t = tf.ones([1,16,16,2]);
       await expect(() => testRunner.run({
         globals: {
-          image: `tf.ones([1,16,16,4])`,
+          image: `tf.ones([1,16,16,2])`,
         },
       })).rejects.toThrowError(getInvalidChannelsOfTensor(t));
     });